@@ -5,7 +5,9 @@
 export { DynTabs, DynTab, DynTabPanel } from '../ui/dyn-tabs'
 export { DynStepper, DynStep } from '../ui/dyn-stepper'
 export { DynMenu, DynMenuItem } from '../ui/dyn-menu'
+export { DynDropdown } from '../ui/dyn-dropdown'
 export { DynListView } from '../ui/dyn-listview'
+export { DynToolbar, DynToolbarItem, DynToolbarSeparator } from '../ui/dyn-toolbar'
 
 // Form Components (Original + Enhanced)
 export { DynInput } from '../ui/dyn-input'
@@ -13,9 +15,12 @@ export { DynInputEnhanced } from '../ui/dyn-input-enhanced'
 export { DynButton } from '../ui/dyn-button'
 export { DynCheckbox } from '../ui/dyn-checkbox'
 export { DynCheckboxEnhanced } from '../ui/dyn-checkbox-enhanced'
-export { DynSelect, DynSelectOption } from '../ui/dyn-select'
+export { DynSelect, DynSelectOption, DynSelectOptionGroup } from '../ui/dyn-select'
 export { DynTextArea } from '../ui/dyn-textarea'
 export { DynRadioGroup, DynRadio } from '../ui/dyn-radio'
+export { DynDatepicker } from '../ui/dyn-datepicker'
+export { DynSlider } from '../ui/dyn-slider'
+export { DynToggle } from '../ui/dyn-toggle'
 
 // Data Display (Original + Enhanced)
 export { DynAvatar } from '../ui/dyn-avatar'
@@ -40,6 +45,12 @@ export { DynBreadcrumb, DynBreadcrumbItem } from '../ui/dyn-breadcrumb'
 // Tree
 export { DynTreeView, DynTreeNode } from '../ui/dyn-tree'
 
+// Overlays
+export { DynPortal, DynPortalProvider } from '../ui/dyn-portal'
+export { DynTooltip, DynTooltipGroup } from '../ui/dyn-tooltip'
+export { DynToast, DynToaster } from '../ui/dyn-toast'
+export { toast } from '../utils/toast-store'
+
 // Enhanced System Hooks
 export { useEnhancedValidation, useSimpleValidation } from '../hooks/use-enhanced-validation'
 
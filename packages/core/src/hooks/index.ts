@@ -9,7 +9,13 @@ export * from './use-controlled'
 export * from './use-keyboard'
 export * from './use-focus-trap'
 export * from './use-arrow-navigation'
+export * from './use-virtual-list'
+export * from './use-virtual-listbox'
+export * from './use-remote-data'
+export * from './use-async-options'
 
 // Component-specific hooks
+export * from './use-position'
+export * from './use-layer'
 export * from './use-dropdown'
 export * from './use-tooltip'
\ No newline at end of file
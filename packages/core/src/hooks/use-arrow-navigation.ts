@@ -1,10 +1,12 @@
-import { useCallback, useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import type { MutableRefObject } from 'react'
 
 export interface UseArrowNavigationOptions {
   orientation?: 'horizontal' | 'vertical' | 'both'
   loop?: boolean
   selector?: string
+  /** Narrows the matched elements, e.g. to leave out those of nested widgets */
+  filter?: (element: HTMLElement, container: HTMLElement) => boolean
   onNavigate?: (index: number, element: HTMLElement) => void
   typeahead?: boolean
 }
@@ -20,6 +22,16 @@ interface UseArrowNavigationResult {
   setContainerRef: (node: HTMLElement | null) => void
 }
 
+// Input types that take typed text, where the arrows, Home and End move the caret
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'url', 'tel', 'password', 'number'])
+
+const CARET_KEYS = new Set(['ArrowLeft', 'ArrowRight', 'Home', 'End'])
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable)
+
 /**
  * Advanced keyboard navigation hook for components like Tabs, Menu, etc.
  * Implements WAI-ARIA authoring practices for arrow key navigation
@@ -28,15 +40,20 @@ export function useArrowNavigation({
   orientation = 'horizontal',
   loop = true,
   selector = '[role="tab"], [role="menuitem"], [role="option"]',
+  filter,
   onNavigate
 }: UseArrowNavigationOptions = {}): UseArrowNavigationResult {
   const containerRef = useRef<HTMLElement | null>(null)
+  // Re-attaches the key listener when the container mounts after the hook
+  const [container, setContainer] = useState<HTMLElement | null>(null)
   const focusedIndexRef = useRef(-1)
 
   const getFocusableElements = useCallback(() => {
-    if (!containerRef.current) return []
-    return Array.from(containerRef.current.querySelectorAll(selector)) as HTMLElement[]
-  }, [selector])
+    const root = containerRef.current
+    if (!root) return []
+    const elements = Array.from(root.querySelectorAll<HTMLElement>(selector))
+    return filter ? elements.filter(element => filter(element, root)) : elements
+  }, [selector, filter])
 
   const focusElement = useCallback((index: number) => {
     const elements = getFocusableElements()
@@ -51,10 +68,16 @@ export function useArrowNavigation({
   }, [getFocusableElements, onNavigate])
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    const elements = getFocusableElements()
-    if (elements.length === 0) return
+    // Already handled by a nested widget, e.g. a submenu or a radio group
+    if (event.defaultPrevented) return
+    if (CARET_KEYS.has(event.key) && isTextField(event.target)) return
 
-    const currentIndex = focusedIndexRef.current
+    // Only keys pressed on one of the elements move focus, so focus placed
+    // by clicking is followed as well
+    const elements = getFocusableElements()
+    const currentIndex = elements.indexOf(event.target as HTMLElement)
+    if (currentIndex < 0) return
+    focusedIndexRef.current = currentIndex
     let nextIndex = currentIndex
 
     const isHorizontal = orientation === 'horizontal' || orientation === 'both'
@@ -109,12 +132,12 @@ export function useArrowNavigation({
   }, [getFocusableElements, focusElement, orientation, loop])
 
   useEffect(() => {
-    const container = containerRef.current
-    if (!container) return
+    const element = containerRef.current
+    if (!element) return
 
-    container.addEventListener('keydown', handleKeyDown)
-    return () => container.removeEventListener('keydown', handleKeyDown)
-  }, [handleKeyDown])
+    element.addEventListener('keydown', handleKeyDown)
+    return () => element.removeEventListener('keydown', handleKeyDown)
+  }, [handleKeyDown, container])
 
   const getFocusedIndex = useCallback(() => focusedIndexRef.current, [])
 
@@ -138,6 +161,7 @@ export function useArrowNavigation({
 
   const setContainerRef = useCallback((node: HTMLElement | null) => {
     containerRef.current = node
+    setContainer(node)
   }, [])
 
   return {
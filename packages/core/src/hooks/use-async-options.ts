@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type AsyncOptionsCursor = string | number
+
+export interface AsyncOptionsRequest {
+  /** Aborted when a newer search supersedes this request or loading stops */
+  signal: AbortSignal
+  /** Cursor of the page to load; undefined for the first page */
+  cursor: AsyncOptionsCursor | undefined
+}
+
+export interface AsyncOptionsPage<T> {
+  /** Options on this page */
+  options: T[]
+  /** Cursor of the following page; null or undefined when this is the last page */
+  nextCursor?: AsyncOptionsCursor | null | undefined
+}
+
+export interface UseAsyncOptionsOptions<T> {
+  /** Search text; changes start a new search after the debounce delay */
+  query: string
+  /** Loads one page of options for a query */
+  loadOptions?: ((query: string, request: AsyncOptionsRequest) => Promise<AsyncOptionsPage<T>>) | undefined
+  /** Whether options should be loaded, e.g. while a dropdown is open */
+  enabled?: boolean | undefined
+  /** Delay in ms before a changed query is searched (default 300) */
+  debounceMs?: number | undefined
+}
+
+export interface UseAsyncOptionsResult<T> {
+  /** Options of all loaded pages for the current query */
+  options: T[]
+  /** Whether a page is being loaded */
+  loading: boolean
+  /** Error of the last request, if it failed */
+  error: unknown
+  /** Whether more pages are available */
+  hasMore: boolean
+  /** Load the next page; ignored while loading, after an error or on the last page */
+  loadMore: () => void
+  /** Repeat the request that failed */
+  retry: () => void
+}
+
+interface AsyncOptionsState<T> {
+  /** Query the loaded pages belong to; the search text runs ahead while debouncing */
+  query: string
+  options: T[]
+  loading: boolean
+  error: unknown
+  nextCursor: AsyncOptionsCursor | null
+  /** Cursor of the failed request, so retry knows which page to repeat */
+  failedCursor: AsyncOptionsCursor | undefined
+}
+
+/**
+ * Searches options remotely with debouncing, cancellation and cursor paging
+ *
+ * Only one request is in flight at a time: starting a request aborts the
+ * previous one and responses of superseded requests are dropped. The first
+ * page for an empty query is loaded without delay.
+ */
+export function useAsyncOptions<T>({
+  query,
+  loadOptions,
+  enabled = true,
+  debounceMs = 300
+}: UseAsyncOptionsOptions<T>): UseAsyncOptionsResult<T> {
+  const [state, setState] = useState<AsyncOptionsState<T>>({
+    query,
+    options: [],
+    loading: false,
+    error: undefined,
+    nextCursor: null,
+    failedCursor: undefined
+  })
+  const loadOptionsRef = useRef(loadOptions)
+  const controllerRef = useRef<AbortController | null>(null)
+  const requestIdRef = useRef(0)
+  const queryRef = useRef(query)
+
+  loadOptionsRef.current = loadOptions
+  queryRef.current = query
+
+  const cancel = useCallback(() => {
+    requestIdRef.current++
+    controllerRef.current?.abort()
+    controllerRef.current = null
+  }, [])
+
+  const request = useCallback((search: string, cursor: AsyncOptionsCursor | undefined) => {
+    const load = loadOptionsRef.current
+    if (!load) return
+
+    cancel()
+    const requestId = requestIdRef.current
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setState(prev => ({ ...prev, loading: true, error: undefined }))
+
+    load(search, { signal: controller.signal, cursor }).then(
+      page => {
+        if (requestId !== requestIdRef.current) return
+        controllerRef.current = null
+        setState(prev => ({
+          query: search,
+          options: cursor === undefined ? page.options : [...prev.options, ...page.options],
+          loading: false,
+          error: undefined,
+          nextCursor: page.nextCursor ?? null,
+          failedCursor: undefined
+        }))
+      },
+      (reason: unknown) => {
+        if (requestId !== requestIdRef.current || controller.signal.aborted) return
+        controllerRef.current = null
+        setState(prev => ({ ...prev, loading: false, error: reason, failedCursor: cursor }))
+      }
+    )
+  }, [cancel])
+
+  useEffect(() => {
+    if (!enabled || !loadOptionsRef.current) return
+
+    const timer = setTimeout(() => request(query, undefined), query === '' ? 0 : debounceMs)
+
+    return () => {
+      clearTimeout(timer)
+      cancel()
+    }
+  }, [enabled, query, debounceMs, request, cancel])
+
+  // Loading stops with the request that was cancelled on disable
+  useEffect(() => {
+    if (!enabled) {
+      setState(prev => (prev.loading ? { ...prev, loading: false } : prev))
+    }
+  }, [enabled])
+
+  // Cursors of a previous query must not be sent with the new one
+  const isCurrent = state.query === query
+
+  const loadMore = useCallback(() => {
+    if (state.loading || state.error !== undefined || state.nextCursor === null) return
+    if (state.query !== queryRef.current) return
+    request(queryRef.current, state.nextCursor)
+  }, [request, state.loading, state.error, state.nextCursor, state.query])
+
+  const retry = useCallback(() => {
+    request(queryRef.current, state.query === queryRef.current ? state.failedCursor : undefined)
+  }, [request, state.failedCursor, state.query])
+
+  return {
+    options: state.options,
+    loading: state.loading,
+    error: state.error,
+    hasMore: isCurrent && state.nextCursor !== null,
+    loadMore,
+    retry
+  }
+}
@@ -1,4 +1,5 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useRef, useState } from 'react'
+import { useLayer } from './use-layer'
 
 export interface UseDropdownOptions {
   closeOnClickOutside?: boolean
@@ -16,39 +17,21 @@ export function useDropdown({
   const close = useCallback(() => setIsOpen(false), [])
   const toggle = useCallback(() => setIsOpen(prev => !prev), [])
 
-  useEffect(() => {
-    if (!isOpen) return
-
-    const handleClickOutside = (event: MouseEvent) => {
-      if (!closeOnClickOutside) return
-      
-      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
-        close()
-      }
-    }
-
-    const handleEscape = (event: KeyboardEvent) => {
-      if (!closeOnEscape) return
-      
-      if (event.key === 'Escape') {
-        close()
-      }
-    }
-
-    document.addEventListener('mousedown', handleClickOutside)
-    document.addEventListener('keydown', handleEscape)
-
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside)
-      document.removeEventListener('keydown', handleEscape)
-    }
-  }, [isOpen, close, closeOnClickOutside, closeOnEscape])
+  // Only the topmost open overlay reacts, so a dropdown inside a modal
+  // closes without closing the modal
+  const { zIndex } = useLayer({
+    open: isOpen,
+    refs: [containerRef],
+    onEscape: closeOnEscape ? close : undefined,
+    onOutsideClick: closeOnClickOutside ? close : undefined
+  })
 
   return {
     isOpen,
     open,
     close,
     toggle,
-    containerRef
+    containerRef,
+    zIndex
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { useCallback, useLayoutEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+import { pushLayer } from '../utils/layer-stack'
+import type { LayerHandle } from '../utils/layer-stack'
+
+export interface UseLayerOptions {
+  /** Whether the overlay is open; the layer exists only while open */
+  open: boolean
+  /** Elements of the overlay, including its trigger; clicks inside them are not outside clicks */
+  refs?: Array<RefObject<Element>> | undefined
+  /** Called when Escape is pressed and no overlay above handles it */
+  onEscape?: ((event: KeyboardEvent) => void) | undefined
+  /** Called on a mousedown outside the overlay when no overlay above handles it */
+  onOutsideClick?: ((event: MouseEvent) => void) | undefined
+  /** Prevent the page from scrolling while the overlay is open */
+  lockScroll?: boolean | undefined
+}
+
+export interface UseLayerResult {
+  /** z-index assigned to the overlay while open */
+  zIndex: number | undefined
+  /** Whether no overlay opened after this one is still open */
+  isTopmost: () => boolean
+}
+
+/**
+ * Registers an open overlay in the shared layer stack
+ *
+ * The overlay gets a z-index above every overlay opened before it, and
+ * Escape and outside clicks are only reported to the topmost overlay that
+ * handles them, so closing a nested dropdown does not also close the modal
+ * around it, while an open tooltip does not block the dropdown beneath.
+ */
+export function useLayer({
+  open,
+  refs,
+  onEscape,
+  onOutsideClick,
+  lockScroll = false
+}: UseLayerOptions): UseLayerResult {
+  const [zIndex, setZIndex] = useState<number | undefined>(undefined)
+  const layerRef = useRef<LayerHandle | null>(null)
+
+  const options = {
+    getElements: () => (refs ?? []).map(ref => ref.current),
+    onEscape,
+    onOutsideClick,
+    lockScroll
+  }
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  useLayoutEffect(() => {
+    if (!open) return
+
+    const layer = pushLayer(optionsRef.current)
+    layerRef.current = layer
+    setZIndex(layer.zIndex)
+
+    return () => {
+      layer.remove()
+      layerRef.current = null
+      setZIndex(undefined)
+    }
+  }, [open])
+
+  // Handlers change on every render; the stack always calls the latest
+  useLayoutEffect(() => {
+    layerRef.current?.update(optionsRef.current)
+  })
+
+  const isTopmost = useCallback(() => layerRef.current?.isTopmost() ?? false, [])
+
+  return { zIndex, isTopmost }
+}
@@ -0,0 +1,184 @@
+import { useCallback, useLayoutEffect, useRef, useState } from 'react'
+import type { CSSProperties, RefObject } from 'react'
+import {
+  computePosition,
+  getClippingRect,
+  getSide,
+  getViewportRect,
+  isRectHidden
+} from '../utils/positioning'
+import type { Placement, Rect } from '../utils/positioning'
+
+export interface UsePositionOptions {
+  /** Element the floating element is attached to */
+  referenceRef: RefObject<HTMLElement>
+  /** Floating element; positioned with `position: fixed` */
+  floatingRef: RefObject<HTMLElement>
+  /** Optional arrow inside the floating element */
+  arrowRef?: RefObject<HTMLElement> | undefined
+  /** Whether the floating element is shown; tracking only runs while open */
+  open: boolean
+  /** Preferred placement (default 'bottom') */
+  placement?: Placement | undefined
+  /** Gap between the reference and the floating element, in pixels */
+  offset?: number | undefined
+  /** Move to the opposite side when the preferred side lacks room (default true) */
+  flip?: boolean | undefined
+  /** Slide along the reference to stay in the viewport (default true) */
+  shift?: boolean | undefined
+  /** Minimum distance kept from the viewport edges (default 8) */
+  padding?: number | undefined
+  /** Limit the floating element to the room available on its side */
+  size?: boolean | undefined
+  /** Make the floating element at least as wide as the reference */
+  matchReferenceWidth?: boolean | undefined
+}
+
+export interface UsePositionResult {
+  /** Styles for the floating element */
+  floatingStyles: CSSProperties
+  /** Styles for the arrow element */
+  arrowStyles: CSSProperties
+  /** Placement after flipping */
+  placement: Placement
+  /** Whether the reference is scrolled out of view inside its scroll containers */
+  referenceHidden: boolean
+  /** Recompute the position, e.g. after the content changed */
+  update: () => void
+}
+
+interface PositionState {
+  x: number
+  y: number
+  placement: Placement
+  availableWidth: number
+  availableHeight: number
+  arrowOffset: number
+  referenceWidth: number
+  referenceHidden: boolean
+}
+
+const toRect = (element: Element): Rect => {
+  const { left, top, width, height } = element.getBoundingClientRect()
+  return { x: left, y: top, width, height }
+}
+
+const isSameState = (a: PositionState | null, b: PositionState) =>
+  a !== null && (Object.keys(b) as Array<keyof PositionState>).every(key => a[key] === b[key])
+
+/**
+ * Keeps a floating element next to its reference element
+ *
+ * Places the floating element on the preferred side, flips it to the
+ * opposite side and shifts it along the reference when it would leave the
+ * viewport, and reports the room left for size-to-fit. The position follows
+ * scrolling of any ancestor, window resizes and size changes of both elements.
+ */
+export function usePosition({
+  referenceRef,
+  floatingRef,
+  arrowRef,
+  open,
+  placement = 'bottom',
+  offset = 0,
+  flip = true,
+  shift = true,
+  padding = 8,
+  size = false,
+  matchReferenceWidth = false
+}: UsePositionOptions): UsePositionResult {
+  const [state, setState] = useState<PositionState | null>(null)
+  const stateRef = useRef(state)
+  stateRef.current = state
+
+  const update = useCallback(() => {
+    const reference = referenceRef.current
+    const floating = floatingRef.current
+    if (!reference || !floating) return
+
+    const referenceRect = toRect(reference)
+    const arrow = arrowRef?.current
+    const arrowRect = arrow?.getBoundingClientRect()
+    const result = computePosition(referenceRect, toRect(floating), getViewportRect(), {
+      placement,
+      offset,
+      flip,
+      shift,
+      padding,
+      arrowSize: arrowRect ? Math.max(arrowRect.width, arrowRect.height) : 0
+    })
+
+    const next: PositionState = {
+      ...result,
+      referenceWidth: referenceRect.width,
+      referenceHidden: isRectHidden(referenceRect, getClippingRect(reference))
+    }
+    if (!isSameState(stateRef.current, next)) {
+      setState(next)
+    }
+  }, [referenceRef, floatingRef, arrowRef, placement, offset, flip, shift, padding])
+
+  useLayoutEffect(() => {
+    if (!open) {
+      setState(null)
+      return
+    }
+
+    update()
+
+    const handleScroll = (event: Event) => {
+      // Scrolling inside the floating element does not move it
+      if (floatingRef.current?.contains(event.target as Node)) return
+      update()
+    }
+
+    // Capture catches scrolling of every scroll container, not just the window
+    window.addEventListener('scroll', handleScroll, { capture: true, passive: true })
+    window.addEventListener('resize', update)
+
+    let resizeObserver: ResizeObserver | undefined
+    if (typeof ResizeObserver !== 'undefined') {
+      resizeObserver = new ResizeObserver(update)
+      if (referenceRef.current) resizeObserver.observe(referenceRef.current)
+      if (floatingRef.current) resizeObserver.observe(floatingRef.current)
+    }
+
+    return () => {
+      window.removeEventListener('scroll', handleScroll, { capture: true })
+      window.removeEventListener('resize', update)
+      resizeObserver?.disconnect()
+    }
+  }, [open, update, referenceRef, floatingRef])
+
+  const currentPlacement = state?.placement ?? placement
+  const side = getSide(currentPlacement)
+
+  const floatingStyles: CSSProperties = state
+    ? {
+      position: 'fixed',
+      left: state.x,
+      top: state.y,
+      ...(size ? { maxWidth: state.availableWidth, maxHeight: state.availableHeight } : {}),
+      ...(matchReferenceWidth ? { minWidth: state.referenceWidth } : {}),
+      ...(state.referenceHidden ? { visibility: 'hidden' } : {})
+    }
+    // Not measured yet: keep it out of sight without affecting layout
+    : { position: 'fixed', left: 0, top: 0, visibility: 'hidden' }
+
+  const arrowStyles: CSSProperties = state
+    ? {
+      position: 'absolute',
+      [side === 'top' || side === 'bottom' ? 'left' : 'top']: state.arrowOffset,
+      // The arrow sits just outside the edge facing the reference
+      [side]: '100%'
+    }
+    : {}
+
+  return {
+    floatingStyles,
+    arrowStyles,
+    placement: currentPlacement,
+    referenceHidden: state?.referenceHidden ?? false,
+    update
+  }
+}
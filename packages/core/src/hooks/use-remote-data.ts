@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export interface RemoteRequestOptions {
+  /** Aborted as soon as a newer request supersedes this one */
+  signal: AbortSignal
+}
+
+export interface UseRemoteDataOptions<Q, R> {
+  /** Query describing the data to load; a new request starts when it changes */
+  query: Q
+  /** Loads the data for a query */
+  fetcher?: ((query: Q, options: RemoteRequestOptions) => Promise<R>) | undefined
+  /** Whether requests should be made */
+  enabled?: boolean | undefined
+  /** Called when a request fails (aborted requests are ignored) */
+  onError?: ((error: unknown) => void) | undefined
+}
+
+export interface UseRemoteDataResult<R> {
+  /** Result of the most recent successful request */
+  data: R | undefined
+  /** Whether the latest request is still pending */
+  loading: boolean
+  /** Error of the latest request, if it failed */
+  error: unknown
+  /** Re-run the request for the current query */
+  reload: () => void
+}
+
+/**
+ * Loads data for a changing query while guarding against out-of-order responses
+ *
+ * Every query change aborts the previous request through its AbortSignal and
+ * only the response belonging to the latest request is applied, so slow
+ * responses for superseded queries can never overwrite newer data.
+ */
+export function useRemoteData<Q, R>({
+  query,
+  fetcher,
+  enabled = true,
+  onError
+}: UseRemoteDataOptions<Q, R>): UseRemoteDataResult<R> {
+  const [data, setData] = useState<R | undefined>(undefined)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>(undefined)
+  const [reloadToken, setReloadToken] = useState(0)
+  const requestIdRef = useRef(0)
+  const fetcherRef = useRef(fetcher)
+  const onErrorRef = useRef(onError)
+
+  fetcherRef.current = fetcher
+  onErrorRef.current = onError
+
+  // Structural key so callers can pass freshly created query objects;
+  // the effect below tracks the query through it
+  const queryKey = JSON.stringify(query)
+
+  useEffect(() => {
+    const load = fetcherRef.current
+    if (!enabled || !load) return
+
+    const requestId = ++requestIdRef.current
+    const controller = new AbortController()
+
+    setLoading(true)
+    setError(undefined)
+
+    load(query, { signal: controller.signal }).then(
+      result => {
+        if (requestId !== requestIdRef.current) return
+        setData(result)
+        setLoading(false)
+      },
+      (reason: unknown) => {
+        if (requestId !== requestIdRef.current || controller.signal.aborted) return
+        setError(reason)
+        setLoading(false)
+        onErrorRef.current?.(reason)
+      }
+    )
+
+    return () => controller.abort()
+  }, [enabled, queryKey, reloadToken])
+
+  const reload = useCallback(() => setReloadToken(token => token + 1), [])
+
+  return { data, loading, error, reload }
+}
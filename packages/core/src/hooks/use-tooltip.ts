@@ -1,9 +1,13 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { usePosition } from './use-position'
+import type { Placement } from '../utils/positioning'
 
 export interface UseTooltipOptions {
-  placement?: 'top' | 'bottom' | 'left' | 'right'
+  placement?: Placement
   delay?: number
   hideDelay?: number
+  /** Gap between the trigger and the tooltip, in pixels */
+  offset?: number
 }
 
 export interface TooltipPosition {
@@ -15,68 +19,66 @@ export interface TooltipPosition {
 export function useTooltip({
   placement = 'top',
   delay = 500,
-  hideDelay = 0
+  hideDelay = 0,
+  offset = 8
 }: UseTooltipOptions = {}) {
   const [isVisible, setIsVisible] = useState(false)
-  const [position, setPosition] = useState<TooltipPosition>({ x: 0, y: 0, placement })
   const triggerRef = useRef<HTMLElement | null>(null)
+  const tooltipRef = useRef<HTMLElement | null>(null)
+  const arrowRef = useRef<HTMLElement | null>(null)
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const hideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
-  const calculatePosition = useCallback(() => {
-    if (!triggerRef.current) return
+  // Flips and shifts the tooltip to keep it on screen while it is visible
+  const { floatingStyles, arrowStyles, placement: currentPlacement } = usePosition({
+    referenceRef: triggerRef,
+    floatingRef: tooltipRef,
+    arrowRef,
+    open: isVisible,
+    placement,
+    offset
+  })
 
-    const rect = triggerRef.current.getBoundingClientRect()
-    const scrollX = window.scrollX
-    const scrollY = window.scrollY
-
-    let x = 0
-    let y = 0
-
-    switch (placement) {
-      case 'top':
-        x = rect.left + rect.width / 2 + scrollX
-        y = rect.top + scrollY
-        break
-      case 'bottom':
-        x = rect.left + rect.width / 2 + scrollX
-        y = rect.bottom + scrollY
-        break
-      case 'left':
-        x = rect.left + scrollX
-        y = rect.top + rect.height / 2 + scrollY
-        break
-      case 'right':
-        x = rect.right + scrollX
-        y = rect.top + rect.height / 2 + scrollY
-        break
-    }
-
-    setPosition({ x, y, placement })
-  }, [placement])
-
-  const show = useCallback(() => {
+  // Both accept a delay overriding the configured one; anything else
+  // (e.g. an event when passed as a handler) uses the configured delay
+  const show = useCallback((delayOverride?: unknown) => {
+    const showDelay = typeof delayOverride === 'number' ? delayOverride : delay
     if (hideTimeoutRef.current) {
       clearTimeout(hideTimeoutRef.current)
+      hideTimeoutRef.current = null
+    }
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current)
+      timeoutRef.current = null
+    }
+
+    if (showDelay <= 0) {
+      setIsVisible(true)
+      return
     }
-    
+
     timeoutRef.current = setTimeout(() => {
-      calculatePosition()
       setIsVisible(true)
-    }, delay)
-  }, [calculatePosition, delay])
+      timeoutRef.current = null
+    }, showDelay)
+  }, [delay])
 
-  const hide = useCallback(() => {
+  const hide = useCallback((delayOverride?: unknown) => {
+    const delayToHide = typeof delayOverride === 'number' ? delayOverride : hideDelay
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current)
       timeoutRef.current = null
     }
+    if (hideTimeoutRef.current) {
+      clearTimeout(hideTimeoutRef.current)
+      hideTimeoutRef.current = null
+    }
 
-    if (hideDelay > 0) {
+    if (delayToHide > 0) {
       hideTimeoutRef.current = setTimeout(() => {
         setIsVisible(false)
         hideTimeoutRef.current = null
-      }, hideDelay)
+      }, delayToHide)
     } else {
       setIsVisible(false)
     }
@@ -95,11 +97,23 @@ export function useTooltip({
     }
   }, [])
 
+  /** @deprecated Use `floatingStyles`; kept for callers positioning the tooltip themselves */
+  const position: TooltipPosition = {
+    x: typeof floatingStyles.left === 'number' ? floatingStyles.left : 0,
+    y: typeof floatingStyles.top === 'number' ? floatingStyles.top : 0,
+    placement: currentPlacement
+  }
+
   return {
     isVisible,
     position,
     show,
     hide,
-    triggerRef
+    triggerRef,
+    tooltipRef,
+    arrowRef,
+    floatingStyles,
+    arrowStyles,
+    placement: currentPlacement
   }
-}
\ No newline at end of file
+}
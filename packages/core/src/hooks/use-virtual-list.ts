@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+
+export interface UseVirtualListOptions {
+  /** Total number of items in the list */
+  count: number
+  /** Scrollable element that defines the visible window */
+  scrollRef: RefObject<HTMLElement>
+  /** Fixed item height in pixels; when omitted items are measured */
+  itemHeight?: number | undefined
+  /** Height assumed for items that have not been measured yet */
+  estimatedItemHeight?: number | undefined
+  /** Number of extra items rendered above and below the window */
+  overscan?: number | undefined
+  /** Distance between the top of the scroll element and the first item */
+  scrollMargin?: number | undefined
+  /** Stable key used to cache measured heights (defaults to the index) */
+  getItemKey?: ((index: number) => string | number) | undefined
+  /** Whether virtualization is active */
+  enabled?: boolean | undefined
+}
+
+export interface VirtualItem {
+  /** Index of the item in the full list */
+  index: number
+  /** Offset of the item from the first item, in pixels */
+  start: number
+  /** Height of the item, in pixels */
+  size: number
+}
+
+export interface UseVirtualListResult {
+  /** Items that should currently be rendered */
+  virtualItems: VirtualItem[]
+  /** Height of the whole list, in pixels */
+  totalSize: number
+  /** Space to reserve before the first rendered item */
+  paddingStart: number
+  /** Space to reserve after the last rendered item */
+  paddingEnd: number
+  /** Ref callback that measures a rendered item (reads `data-index`) */
+  measureElement: (element: HTMLElement | null) => void
+  /** Scrolls the least distance that brings an item fully into view */
+  scrollToIndex: (index: number) => void
+}
+
+/**
+ * Windowed list rendering hook
+ *
+ * Computes which items of a long list intersect the scroll viewport so that
+ * only those are mounted. Works with fixed item heights (constant time) or
+ * with measured heights, where rendered items report their size through
+ * `measureElement` and unmeasured items fall back to `estimatedItemHeight`.
+ */
+export function useVirtualList({
+  count,
+  scrollRef,
+  itemHeight,
+  estimatedItemHeight = 40,
+  overscan = 5,
+  scrollMargin = 0,
+  getItemKey,
+  enabled = true
+}: UseVirtualListOptions): UseVirtualListResult {
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
+  const [measureVersion, setMeasureVersion] = useState(0)
+  const sizeCacheRef = useRef(new Map<string | number, number>())
+  const observerRef = useRef<ResizeObserver | null>(null)
+  // Rendered items whose size changes are observed
+  const observedRef = useRef(new Set<HTMLElement>())
+
+  const keyFor = useCallback(
+    (index: number) => (getItemKey ? getItemKey(index) : index),
+    [getItemKey]
+  )
+
+  // Track scroll position and viewport size of the scroll element
+  useEffect(() => {
+    const element = scrollRef.current
+    if (!enabled || !element) return
+
+    const sync = () => {
+      setScrollTop(element.scrollTop)
+      setViewportHeight(element.clientHeight)
+    }
+
+    sync()
+    element.addEventListener('scroll', sync, { passive: true })
+
+    let resizeObserver: ResizeObserver | undefined
+    if (typeof ResizeObserver !== 'undefined') {
+      resizeObserver = new ResizeObserver(sync)
+      resizeObserver.observe(element)
+    } else {
+      window.addEventListener('resize', sync)
+    }
+
+    return () => {
+      element.removeEventListener('scroll', sync)
+      if (resizeObserver) {
+        resizeObserver.disconnect()
+      } else {
+        window.removeEventListener('resize', sync)
+      }
+    }
+  }, [enabled, scrollRef])
+
+  // Offsets of every item; measureVersion invalidates them when a measurement changes
+  const offsets = useMemo(() => {
+    if (!enabled || itemHeight !== undefined) return null
+
+    const result = new Array<number>(count + 1)
+    result[0] = 0
+    for (let i = 0; i < count; i++) {
+      const size = sizeCacheRef.current.get(keyFor(i)) ?? estimatedItemHeight
+      result[i + 1] = (result[i] as number) + size
+    }
+    return result
+  }, [enabled, count, itemHeight, estimatedItemHeight, keyFor, measureVersion])
+
+  const getStart = useCallback(
+    (index: number) => (offsets ? (offsets[index] as number) : index * (itemHeight ?? 0)),
+    [offsets, itemHeight]
+  )
+
+  const totalSize = offsets ? (offsets[count] as number) : count * (itemHeight ?? 0)
+
+  const findIndexAt = useCallback(
+    (position: number) => {
+      if (count === 0) return 0
+      if (!offsets) {
+        return Math.min(count - 1, Math.max(0, Math.floor(position / (itemHeight || 1))))
+      }
+
+      // Binary search for the last item starting at or before `position`
+      let low = 0
+      let high = count - 1
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if ((offsets[mid] as number) <= position) {
+          low = mid
+        } else {
+          high = mid - 1
+        }
+      }
+      return low
+    },
+    [count, offsets, itemHeight]
+  )
+
+  const virtualItems = useMemo<VirtualItem[]>(() => {
+    if (!enabled || count === 0) return []
+
+    const windowStart = Math.max(0, scrollTop - scrollMargin)
+    const windowEnd = windowStart + viewportHeight
+
+    const first = Math.max(0, findIndexAt(windowStart) - overscan)
+    const last = Math.min(count - 1, findIndexAt(windowEnd) + overscan)
+
+    const items: VirtualItem[] = []
+    for (let index = first; index <= last; index++) {
+      const start = getStart(index)
+      items.push({ index, start, size: getStart(index + 1) - start })
+    }
+    return items
+  }, [enabled, count, scrollTop, scrollMargin, viewportHeight, overscan, findIndexAt, getStart])
+
+  const applyMeasurement = useCallback(
+    (element: HTMLElement) => {
+      const index = Number(element.dataset.index)
+      if (Number.isNaN(index)) return
+
+      const height = element.getBoundingClientRect().height
+      if (height <= 0) return
+
+      const key = keyFor(index)
+      if (sizeCacheRef.current.get(key) !== height) {
+        sizeCacheRef.current.set(key, height)
+        setMeasureVersion(version => version + 1)
+      }
+    },
+    [keyFor]
+  )
+
+  // The observer calls the latest measurement without being recreated
+  const applyMeasurementRef = useRef(applyMeasurement)
+  applyMeasurementRef.current = applyMeasurement
+
+  // Created on first use: ref callbacks run before effects, so items of the
+  // first render would otherwise never be observed
+  const getObserver = useCallback(() => {
+    if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+      observerRef.current = new ResizeObserver(entries => {
+        entries.forEach(entry => applyMeasurementRef.current(entry.target as HTMLElement))
+      })
+    }
+    return observerRef.current
+  }, [])
+
+  // Stops observing items that have left the document
+  const releaseDetached = useCallback(() => {
+    observedRef.current.forEach(element => {
+      if (element.isConnected) return
+      observerRef.current?.unobserve(element)
+      observedRef.current.delete(element)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || itemHeight !== undefined) return
+
+    // Picks the items up again after a cleanup, e.g. a StrictMode remount
+    observedRef.current.forEach(element => getObserver()?.observe(element))
+
+    return () => {
+      observerRef.current?.disconnect()
+      observerRef.current = null
+    }
+  }, [enabled, itemHeight, getObserver])
+
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (itemHeight !== undefined) return
+      if (!element) {
+        // Refs are detached before their nodes are removed
+        queueMicrotask(releaseDetached)
+        return
+      }
+      applyMeasurement(element)
+      const observer = getObserver()
+      if (!observer) return
+      observer.observe(element)
+      observedRef.current.add(element)
+    },
+    [itemHeight, applyMeasurement, getObserver, releaseDetached]
+  )
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const element = scrollRef.current
+      if (!enabled || !element || index < 0 || index >= count) return
+
+      const start = getStart(index) + scrollMargin
+      const end = getStart(index + 1) + scrollMargin
+      if (start < element.scrollTop) {
+        element.scrollTop = start
+      } else if (end > element.scrollTop + element.clientHeight) {
+        element.scrollTop = end - element.clientHeight
+      } else {
+        return
+      }
+      // Render the new window now rather than on the scroll event
+      setScrollTop(element.scrollTop)
+    },
+    [enabled, count, scrollRef, scrollMargin, getStart]
+  )
+
+  const firstItem = virtualItems[0]
+  const lastItem = virtualItems[virtualItems.length - 1]
+
+  return {
+    virtualItems,
+    totalSize,
+    paddingStart: firstItem ? firstItem.start : 0,
+    paddingEnd: lastItem ? totalSize - (lastItem.start + lastItem.size) : 0,
+    measureElement,
+    scrollToIndex
+  }
+}
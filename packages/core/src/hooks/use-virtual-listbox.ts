@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+import type { RefObject } from 'react'
+import { useVirtualList } from './use-virtual-list'
+
+export interface UseVirtualListboxOptions {
+  /** Number of items in the listbox */
+  count: number
+  /** Whether only the visible window is rendered; otherwise every item is */
+  enabled?: boolean | undefined
+  /** Item that has keyboard focus; it is scrolled into view when it changes */
+  activeIndex?: number | undefined
+  /** Fixed item height in pixels; when omitted items are measured */
+  itemHeight?: number | undefined
+  /** Height assumed for items that have not been measured yet */
+  estimatedItemHeight?: number | undefined
+  /** Number of extra items rendered above and below the window */
+  overscan?: number | undefined
+}
+
+export interface UseVirtualListboxResult<E extends HTMLElement> {
+  /** Ref for the scrollable listbox element */
+  listRef: RefObject<E>
+  /** Indexes of the items to render, in order */
+  indexes: number[]
+  /** Space to reserve before the first rendered item */
+  paddingStart: number
+  /** Space to reserve after the last rendered item */
+  paddingEnd: number
+  /** Ref callback for rendered items, which must carry `data-index` */
+  measureElement: (element: HTMLElement | null) => void
+  /** Brings an item into view, scrolling the virtual window if needed */
+  scrollToIndex: (index: number) => void
+}
+
+const noop = () => {}
+
+/**
+ * Shared windowing for listbox widgets
+ *
+ * Wraps useVirtualList for components whose active option is tracked with
+ * aria-activedescendant: the active item is kept in view even when it is not
+ * mounted yet, so keyboard focus moves the window along. Rendered options
+ * should carry `aria-setsize` and `aria-posinset` since assistive technology
+ * only sees the mounted part of the list.
+ */
+export function useVirtualListbox<E extends HTMLElement = HTMLElement>({
+  count,
+  enabled = true,
+  activeIndex = -1,
+  itemHeight,
+  estimatedItemHeight = 36,
+  overscan = 8
+}: UseVirtualListboxOptions): UseVirtualListboxResult<E> {
+  const listRef = useRef<E>(null)
+  const {
+    virtualItems,
+    paddingStart,
+    paddingEnd,
+    measureElement,
+    scrollToIndex: scrollWindowTo
+  } = useVirtualList({
+    count,
+    scrollRef: listRef,
+    itemHeight,
+    estimatedItemHeight,
+    overscan,
+    enabled
+  })
+
+  const indexes = useMemo(
+    () => (enabled
+      ? virtualItems.map(item => item.index)
+      : Array.from({ length: count }, (_, index) => index)),
+    [enabled, virtualItems, count]
+  )
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      if (enabled) {
+        scrollWindowTo(index)
+        return
+      }
+      listRef.current
+        ?.querySelector<HTMLElement>(`[data-index="${index}"]`)
+        ?.scrollIntoView?.({ block: 'nearest' })
+    },
+    [enabled, scrollWindowTo]
+  )
+
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      scrollToIndex(activeIndex)
+    }
+  }, [activeIndex, scrollToIndex])
+
+  return {
+    listRef,
+    indexes,
+    paddingStart: enabled ? paddingStart : 0,
+    paddingEnd: enabled ? paddingEnd : 0,
+    measureElement: enabled ? measureElement : noop,
+    scrollToIndex
+  }
+}
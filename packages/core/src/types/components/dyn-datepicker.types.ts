@@ -0,0 +1,51 @@
+import type { ControlProps, Size } from '../common.types'
+
+/** Start and end of a range as ISO dates; '' while not chosen */
+export type DateRangeValue = [start: string, end: string]
+
+/**
+ * Props for DynDatepicker component
+ * Date entry with a masked input and a calendar; values are ISO dates (YYYY-MM-DD)
+ */
+export interface DynDatepickerProps extends ControlProps<string | DateRangeValue> {
+  /** HTML id attribute of the input */
+  id?: string
+  /** Name of the hidden form field; ranges are submitted as `start/end` */
+  name?: string
+  /** Placeholder text; defaults to the locale's date pattern, e.g. MM/DD/YYYY */
+  placeholder?: string
+  /** Visual size variant */
+  size?: Size
+  /** Select a start and an end date; the value is then a DateRangeValue */
+  range?: boolean
+  /** Earliest selectable date (ISO) */
+  min?: string
+  /** Latest selectable date (ISO) */
+  max?: string
+  /** Marks single dates as not selectable, e.g. weekends or holidays */
+  isDateDisabled?: (date: string) => boolean
+  /** Locale for month and weekday names, date order and first day of the week */
+  locale?: string
+  /** First day of the week, 0 (Sunday) to 6 (Saturday); defaults to the locale's */
+  firstDayOfWeek?: 0 | 1 | 2 | 3 | 4 | 5 | 6
+  /** Additional CSS classes */
+  className?: string
+  /** State for styling */
+  'data-state'?: string
+}
+
+/**
+ * Ref methods for DynDatepicker
+ */
+export interface DynDatepickerRef {
+  /** Focus the input */
+  focus(): void
+  /** Remove focus from the input */
+  blur(): void
+  /** Open the calendar */
+  open(): void
+  /** Close the calendar */
+  close(): void
+  /** Clear the value */
+  clear(): void
+}
@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react'
+import type { Size } from '../common.types'
+import type { Placement } from '../../utils/positioning'
+import type { DynMenuItemConfig } from './dyn-menu.types'
+
+/**
+ * Props for DynDropdown component
+ * Menu button opening a DynMenu
+ */
+export interface DynDropdownProps {
+  /** Content of the trigger button */
+  label: ReactNode
+  /** Menu entries; entries with `items` open submenus */
+  items: DynMenuItemConfig[]
+  /** Called with the value of the chosen entry, including entries of submenus */
+  onAction?: (value: string | undefined) => void
+  /** Called when the menu opens or closes */
+  onOpenChange?: (open: boolean) => void
+  /** Where the menu opens relative to the trigger */
+  placement?: Placement
+  /** Close the menu after a checkbox or radio entry is chosen; other entries always close it */
+  closeOnSelect?: boolean
+  /** Visual size variant of the trigger */
+  size?: Size
+  /** Whether the trigger is disabled */
+  disabled?: boolean
+  /** Accessible label of the trigger, e.g. for icon-only labels */
+  'aria-label'?: string
+  /** Additional CSS classes */
+  className?: string
+  /** Test identifier for automated testing */
+  'data-testid'?: string
+}
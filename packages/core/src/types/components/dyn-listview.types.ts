@@ -1 +1,48 @@
-export type { DynListViewProps } from './dyn-stubs.types'
+import type { HTMLAttributes, ReactNode } from 'react'
+
+/**
+ * Item shown by DynListView
+ */
+export interface DynListViewItem {
+  /** Unique item id */
+  id: string
+  /** Item content */
+  label: ReactNode
+  /** Whether the item can be selected */
+  disabled?: boolean
+}
+
+/**
+ * Virtualization settings for DynListView
+ */
+export interface ListViewVirtualConfig {
+  /** Fixed item height in pixels; when omitted items are measured */
+  itemHeight?: number
+  /** Number of extra items rendered above and below the visible window */
+  overscan?: number
+}
+
+/**
+ * Props for DynListView component
+ */
+export interface DynListViewProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  /** Items to list */
+  items?: DynListViewItem[]
+  /** Selected item id in single selection mode */
+  selectedItem?: string
+  /** Called with the selected item ids */
+  onSelectionChange?: (selected: string[]) => void
+  /** Whether several items can be selected */
+  multiSelect?: boolean
+  children?: ReactNode
+  className?: string
+  'aria-multiselectable'?: boolean
+  'data-testid'?: string
+  /**
+   * Render only the visible items; recommended for thousands of items.
+   * The list scrolls within `--dyn-list-view-max-height` (320px by
+   * default) unless given a height of its own.
+   */
+  virtual?: boolean | ListViewVirtualConfig
+}
@@ -1,2 +1,49 @@
-export type { DynMenuProps, DynMenuItemProps, DynMenuItemConfig } from './dyn-stubs.types'
+import type { ButtonHTMLAttributes, HTMLAttributes, ReactNode } from 'react'
+import type { Placement } from '../../utils/positioning'
 
+/**
+ * Menu entry declared through the `items` prop
+ */
+export interface DynMenuItemConfig {
+  /** 'checkbox' and 'radio' entries show whether they are `checked` */
+  type: 'item' | 'divider' | 'checkbox' | 'radio'
+  value?: string
+  label?: ReactNode
+  disabled?: boolean
+  shortcut?: ReactNode
+  /** State of a checkbox or radio entry */
+  checked?: boolean
+  /** Entries of a submenu opened from this item */
+  items?: DynMenuItemConfig[]
+}
+
+/**
+ * Props for DynMenu component
+ */
+export interface DynMenuProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  orientation?: 'horizontal' | 'vertical'
+  onAction?: (value: string | undefined) => void
+  items?: DynMenuItemConfig[]
+  children?: ReactNode
+  className?: string
+  'data-testid'?: string
+}
+
+/**
+ * Props for DynMenuItem component
+ */
+export interface DynMenuItemProps
+  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'children' | 'onClick'> {
+  item?: DynMenuItemConfig
+  action?: string
+  onAction?: (value: string | undefined) => void
+  children?: ReactNode
+  disabled?: boolean
+  shortcut?: ReactNode
+  className?: string
+  'data-testid'?: string
+  onClick?: ButtonHTMLAttributes<HTMLButtonElement>['onClick']
+  /** Where the submenu opens relative to the item (default 'right-start') */
+  submenuPlacement?: Placement
+}
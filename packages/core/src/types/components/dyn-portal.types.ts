@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react'
+
+/** Element or shadow root overlays are rendered into */
+export type PortalContainer = Element | DocumentFragment
+
+/**
+ * Props for DynPortal component
+ */
+export interface DynPortalProps {
+  children?: ReactNode
+  /** Container for this portal; defaults to the DynPortalProvider container, then document.body */
+  container?: PortalContainer | null
+  /** Render the children in place instead */
+  disabled?: boolean
+}
+
+/**
+ * Props for DynPortalProvider component
+ */
+export interface DynPortalProviderProps {
+  children?: ReactNode
+  /** Container used by every overlay below the provider, e.g. an element inside a shadow root */
+  container: PortalContainer | null
+}
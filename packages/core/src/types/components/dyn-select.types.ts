@@ -13,6 +13,67 @@ export interface SelectOption {
   disabled?: boolean
   /** Optional description text */
   description?: string
+  /** Label of the group the option is listed under */
+  group?: string
+}
+
+/**
+ * Group of options listed under a header
+ */
+export interface SelectOptionGroup {
+  /** Group header text */
+  label: string
+  /** Options in the group */
+  options: SelectOption[]
+  /** Whether all options in the group are disabled */
+  disabled?: boolean
+}
+
+/**
+ * State of an option passed to DynSelect renderOption
+ */
+export interface SelectOptionRenderState {
+  /** Whether the option is selected */
+  selected: boolean
+  /** Whether the option has keyboard focus */
+  focused: boolean
+  /** Whether the option is disabled */
+  disabled: boolean
+}
+
+/**
+ * Virtualization settings for DynSelect
+ */
+export interface SelectVirtualConfig {
+  /** Fixed option height in pixels; when omitted options are measured */
+  itemHeight?: number
+  /** Number of extra options rendered above and below the visible window */
+  overscan?: number
+}
+
+/**
+ * Cursor identifying a page of remotely loaded options
+ */
+export type SelectOptionsCursor = string | number
+
+/**
+ * Request details passed to DynSelect loadOptions
+ */
+export interface LoadOptionsContext {
+  /** Aborted when a newer search supersedes the request or the dropdown closes */
+  signal: AbortSignal
+  /** Cursor of the page to load; undefined for the first page */
+  cursor: SelectOptionsCursor | undefined
+}
+
+/**
+ * Page of options returned by DynSelect loadOptions
+ */
+export interface LoadOptionsResult {
+  /** Options on this page */
+  options: SelectOption[]
+  /** Cursor of the following page; omit or pass null on the last page */
+  nextCursor?: SelectOptionsCursor | null
 }
 
 /**
@@ -34,8 +95,37 @@ export interface DynSelectProps extends ControlProps<string | string[]> {
   multiple?: boolean
   /** Whether search/filter is enabled */
   searchable?: boolean
-  /** Options array for controlled mode */
-  options?: SelectOption[]
+  /** Options array for controlled mode; groups are listed under a header */
+  options?: Array<SelectOption | SelectOptionGroup>
+  /**
+   * Loads options remotely instead of filtering `options` in memory.
+   * Called with the search text while the dropdown is open; further pages
+   * are requested with `nextCursor` as the user scrolls to the bottom.
+   */
+  loadOptions?: (query: string, context: LoadOptionsContext) => Promise<LoadOptionsResult>
+  /** Delay in ms before a changed search is sent to loadOptions (default 300) */
+  searchDebounce?: number
+  /** Custom content of an option in the listbox, e.g. with an avatar or badge */
+  renderOption?: (option: SelectOption, state: SelectOptionRenderState) => ReactNode
+  /**
+   * Custom content of the trigger for the selected options.
+   * Replaces the chips in multiple mode.
+   */
+  renderValue?: (selected: SelectOption[]) => ReactNode
+  /**
+   * Lets the user add options that do not exist by typing them and pressing
+   * Enter, or by pasting comma or line separated text. A "Create" option
+   * after the matches can also be reached with the arrow keys. Requires
+   * `searchable` and `multiple`.
+   */
+  creatable?: boolean
+  /**
+   * Persists an option typed by the user and resolves with it. Without it,
+   * created options use the typed text as value and label.
+   */
+  onCreateOption?: (input: string) => Promise<SelectOption>
+  /** Render only the visible options; recommended for thousands of options */
+  virtual?: boolean | SelectVirtualConfig
   /** Child option elements for uncontrolled mode */
   children?: ReactNode
   /** State for styling */
@@ -60,6 +150,18 @@ export interface DynSelectOptionProps {
   description?: string
 }
 
+/**
+ * Props for DynSelectOptionGroup component
+ */
+export interface DynSelectOptionGroupProps {
+  /** Group header text */
+  label: string
+  /** Whether all options in the group are disabled */
+  disabled?: boolean
+  /** DynSelectOption elements */
+  children?: ReactNode
+}
+
 /**
  * Ref methods for DynSelect mini API
  */
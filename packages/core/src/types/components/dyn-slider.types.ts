@@ -0,0 +1,64 @@
+import type { ReactNode } from 'react'
+import type { ControlProps, Size } from '../common.types'
+
+/** Single value, or lower and upper value in range mode */
+export type SliderValue = number | [number, number]
+
+/**
+ * A point marked on the track
+ */
+export interface SliderMark {
+  /** Position of the mark on the scale */
+  value: number
+  /** Text shown next to the mark */
+  label?: ReactNode
+}
+
+/**
+ * Props for DynSlider component
+ * Picks a number, or a range with two thumbs, on a scale
+ */
+export interface DynSliderProps extends ControlProps<SliderValue> {
+  /** HTML id attribute of the (first) thumb */
+  id?: string
+  /** Name of the hidden form field; ranges submit two fields with this name */
+  name?: string
+  /** Lowest value */
+  min?: number
+  /** Highest value */
+  max?: number
+  /** Distance between selectable values */
+  step?: number
+  /** Two thumbs selecting a lower and an upper value; the value is then a tuple */
+  range?: boolean
+  /** Marks on the track; `true` marks every step */
+  marks?: boolean | SliderMark[]
+  /** Layout direction; vertical sliders grow upwards */
+  orientation?: 'horizontal' | 'vertical'
+  /** Visual size variant */
+  size?: Size
+  /** Show the value above the thumb while hovered, focused or dragged, or always */
+  tooltip?: boolean | 'always'
+  /** Formats values for the tooltip and for marks without a label */
+  formatValue?: (value: number) => string
+  /** Text read by screen readers for a thumb's value, e.g. "5 to 10 dollars" */
+  getAriaValueText?: (value: number, thumbIndex: number) => string
+  /** Accessible label of each thumb in range mode; `aria-labelledby` is read before it */
+  getAriaLabel?: (thumbIndex: number) => string
+  /** Called once dragging ends or after a keyboard change */
+  onChangeEnd?: (value: SliderValue) => void
+  /** Additional CSS classes */
+  className?: string
+  /** State for styling */
+  'data-state'?: string
+}
+
+/**
+ * Ref methods for DynSlider
+ */
+export interface DynSliderRef {
+  /** Focus a thumb; the first by default */
+  focus(thumbIndex?: number): void
+  /** Remove focus from the slider */
+  blur(): void
+}
@@ -1,5 +1,4 @@
 import type {
-  ButtonHTMLAttributes,
   ChangeEvent,
   ComponentPropsWithoutRef,
   CSSProperties,
@@ -55,37 +54,6 @@ export interface DynRadioGroupProps
 
 export type DynStepperProps = Record<string, unknown>
 
-export interface DynMenuItemConfig {
-  type: 'item' | 'divider'
-  value?: string
-  label?: ReactNode
-  disabled?: boolean
-  shortcut?: ReactNode
-}
-
-export interface DynMenuProps
-  extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
-  orientation?: 'horizontal' | 'vertical'
-  onAction?: (value: string | undefined) => void
-  items?: DynMenuItemConfig[]
-  children?: ReactNode
-  className?: string
-  'data-testid'?: string
-}
-
-export interface DynMenuItemProps
-  extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'children' | 'onClick'> {
-  item?: DynMenuItemConfig
-  action?: string
-  onAction?: (value: string | undefined) => void
-  children?: ReactNode
-  disabled?: boolean
-  shortcut?: ReactNode
-  className?: string
-  'data-testid'?: string
-  onClick?: ButtonHTMLAttributes<HTMLButtonElement>['onClick']
-}
-
 export interface DynBreadcrumbProps {
   children?: ReactNode
   separator?: ReactNode
@@ -107,24 +75,6 @@ export interface DynBreadcrumbItemProps {
   [key: string]: unknown
 }
 
-export interface DynListViewItem {
-  id: string
-  label: ReactNode
-  disabled?: boolean
-}
-
-export interface DynListViewProps
-  extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
-  items?: DynListViewItem[]
-  selectedItem?: string
-  onSelectionChange?: (selected: string[]) => void
-  multiSelect?: boolean
-  children?: ReactNode
-  className?: string
-  'aria-multiselectable'?: boolean
-  'data-testid'?: string
-}
-
 export interface DynAvatarProps {
   children?: ReactNode
   variant?: 'solid' | 'outline' | 'soft' | string
@@ -267,11 +217,4 @@ export interface DynModalProps {
   [key: string]: unknown
 }
 
-export type DynDatepickerProps = Record<string, unknown>
-export type DynDropdownProps = Record<string, unknown>
 export type DynPageProps = Record<string, unknown>
-export type DynSliderProps = Record<string, unknown>
-export type DynToastProps = Record<string, unknown>
-export type DynToggleProps = Record<string, unknown>
-export type DynToolbarProps = Record<string, unknown>
-export type DynTooltipProps = Record<string, unknown>
@@ -0,0 +1,83 @@
+import type { HTMLAttributes, ReactNode } from 'react'
+import type { Color } from '../common.types'
+
+/** Button shown in a toast; the toast closes after it is clicked */
+export interface ToastAction {
+  label: ReactNode
+  onClick: () => void
+}
+
+/**
+ * Options accepted by the `toast` functions
+ */
+export interface ToastOptions {
+  /** Stable id; showing a toast with the id of an open one updates it instead of adding another */
+  id?: string
+  /** Secondary text below the message */
+  description?: ReactNode
+  /** Semantic color; 'warning' and 'danger' are announced assertively */
+  color?: Color
+  /** Milliseconds before closing; Infinity keeps it until dismissed (default 5000) */
+  duration?: number
+  action?: ToastAction
+  /** Show a close button (default true) */
+  dismissible?: boolean
+  /** Called when the toast closes, whether dismissed or timed out */
+  onDismiss?: (id: string) => void
+}
+
+/**
+ * A toast in the store
+ */
+export interface ToastData extends Omit<ToastOptions, 'id' | 'color' | 'duration' | 'dismissible'> {
+  id: string
+  message: ReactNode
+  color: Color
+  duration: number
+  dismissible: boolean
+  /** Waiting for a promise; loading toasts do not time out */
+  loading: boolean
+  /** Changes whenever the toast is shown again or updated, restarting its timer */
+  updatedAt: number
+}
+
+/** Messages for `toast.promise` */
+export interface ToastPromiseMessages<T> {
+  loading: ReactNode
+  success: ReactNode | ((value: T) => ReactNode)
+  error: ReactNode | ((error: unknown) => ReactNode)
+}
+
+export type ToastPlacement =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+
+/**
+ * Props for DynToast component, a single notification
+ */
+export interface DynToastProps
+  extends Omit<HTMLAttributes<HTMLLIElement>, 'children'> {
+  toast: ToastData
+  /** Stop the timer, e.g. while the toaster is hovered */
+  paused?: boolean
+  onDismiss: (id: string) => void
+  'data-testid'?: string
+}
+
+/**
+ * Props for DynToaster component, the region showing the toasts
+ */
+export interface DynToasterProps {
+  /** Corner or edge of the viewport (default 'bottom-right') */
+  placement?: ToastPlacement
+  /** Toasts shown at once; newer ones wait until a slot is free (default 3) */
+  visibleToasts?: number
+  /** Accessible name of the region (default 'Notifications') */
+  label?: string
+  className?: string
+  'data-testid'?: string
+}
@@ -0,0 +1,52 @@
+import type { ReactNode } from 'react'
+import type { ControlProps, Size } from '../common.types'
+
+/**
+ * Props for DynToggle component
+ * On/off switch with `role="switch"` semantics
+ */
+export interface DynToggleProps extends ControlProps<boolean> {
+  /** HTML id attribute */
+  id?: string
+  /** Name of the hidden form field, submitted as "on" while checked */
+  name?: string
+  /**
+   * Called with the new state; returning a promise shows the loading state
+   * until it settles and reverts the switch if it rejects
+   */
+  onChange?: (checked: boolean) => void | Promise<unknown>
+  /** Text inside the track while on */
+  onLabel?: ReactNode
+  /** Text inside the track while off */
+  offLabel?: ReactNode
+  /** Visual size variant */
+  size?: Size
+  /** Show a spinner and ignore clicks */
+  loading?: boolean
+  /** Field label, rendered by DynFieldContainer */
+  label?: string
+  /** Help text, rendered by DynFieldContainer */
+  description?: string
+  /** Error message(s), rendered by DynFieldContainer */
+  error?: string | string[]
+  /** Set by DynFieldContainer when the field has an error */
+  'aria-invalid'?: boolean
+  /** Set by DynFieldContainer for required fields */
+  'aria-required'?: boolean
+  /** Additional CSS classes */
+  className?: string
+  /** State for styling */
+  'data-state'?: string
+}
+
+/**
+ * Ref methods for DynToggle
+ */
+export interface DynToggleRef {
+  /** Focus the switch */
+  focus(): void
+  /** Remove focus from the switch */
+  blur(): void
+  /** Flip the switch as if clicked */
+  toggle(): void
+}
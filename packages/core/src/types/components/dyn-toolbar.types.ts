@@ -0,0 +1,51 @@
+import type { HTMLAttributes, ReactNode } from 'react'
+import type { DynMenuItemConfig } from './dyn-menu.types'
+
+/**
+ * Props for DynToolbar component
+ * Row of controls with one tab stop; controls that do not fit move into an overflow menu
+ */
+export interface DynToolbarProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  /** Toolbar items; wrap controls in DynToolbarItem to give them an overflow menu entry */
+  children?: ReactNode
+  /** Layout direction and the arrow keys moving focus */
+  orientation?: 'horizontal' | 'vertical'
+  /** Wrap focus from the last control to the first and back */
+  loop?: boolean
+  /** Move items that do not fit into an overflow menu */
+  overflow?: boolean
+  /** Accessible label of the overflow menu button */
+  overflowLabel?: string
+  /** Additional CSS classes */
+  className?: string
+  /** Test identifier for automated testing */
+  'data-testid'?: string
+}
+
+/**
+ * Props for DynToolbarItem
+ * Describes how a control appears in the overflow menu
+ */
+export interface DynToolbarItemProps {
+  /** The control shown in the toolbar */
+  children?: ReactNode
+  /** Text of the overflow menu entry; items without one are left out of the menu */
+  overflowLabel?: string
+  /**
+   * Called when the entry is chosen from the overflow menu, with the value
+   * of the chosen `overflowItems` entry if any
+   */
+  onOverflowAction?: (value?: string) => void
+  /** Submenu of the entry, e.g. the options of a toggle group or select */
+  overflowItems?: DynMenuItemConfig[]
+  /** Disable the overflow menu entry */
+  disabled?: boolean
+}
+
+/**
+ * Props for DynToolbarSeparator
+ */
+export interface DynToolbarSeparatorProps {
+  /** Additional CSS classes */
+  className?: string
+}
@@ -0,0 +1,48 @@
+import type { HTMLAttributes, ReactNode } from 'react'
+import type { Placement } from '../../utils/positioning'
+
+/** Interaction that shows a tooltip */
+export type TooltipTrigger = 'hover' | 'focus' | 'longpress'
+
+/**
+ * Props for DynTooltip component
+ */
+export interface DynTooltipProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, 'content' | 'children'> {
+  /** Tooltip content; plain text or rich content. Describes the trigger through aria-describedby */
+  content: ReactNode
+  /** Element the tooltip describes */
+  children: ReactNode
+  /** Preferred side and alignment (default 'top') */
+  placement?: Placement
+  /** Interactions that show the tooltip (default hover, focus and long press) */
+  triggers?: TooltipTrigger[]
+  /** Milliseconds before showing on hover or focus; defaults to the group delay, then 300 */
+  delay?: number
+  /** Milliseconds before hiding after the pointer or focus leaves */
+  hideDelay?: number
+  /** Milliseconds a touch must be held to show the tooltip (default 500) */
+  longPressDelay?: number
+  /** Show an arrow pointing at the trigger (default true) */
+  arrow?: boolean
+  /**
+   * Keep the tooltip open while it is hovered or focused, so its content can
+   * be used; Tab from the trigger moves into its controls
+   */
+  interactive?: boolean
+  /** Never show the tooltip */
+  disabled?: boolean
+  className?: string
+  'data-testid'?: string
+}
+
+/**
+ * Props for DynTooltipGroup component
+ */
+export interface DynTooltipGroupProps {
+  children?: ReactNode
+  /** Delay for tooltips in the group that do not set their own */
+  delay?: number
+  /** Milliseconds after a tooltip closes during which the next one shows instantly (default 300) */
+  timeout?: number
+}
@@ -13,6 +13,16 @@ export * from './dyn-stubs.types'
 
 // Keep existing real types if they exist (tree-shaken otherwise)
 export * from './dyn-tabs.types'
+export * from './dyn-listview.types'
+export * from './dyn-menu.types'
+export * from './dyn-tooltip.types'
+export * from './dyn-portal.types'
+export * from './dyn-toast.types'
+export * from './dyn-datepicker.types'
+export * from './dyn-slider.types'
+export * from './dyn-toggle.types'
+export * from './dyn-toolbar.types'
+export * from './dyn-dropdown.types'
 
 // Stubbed component types - exported as named types from the stub module
 export type {
@@ -20,12 +30,8 @@ export type {
   DynRadioProps,
   DynRadioGroupProps,
   DynStepperProps,
-  DynMenuProps,
-  DynMenuItemProps,
-  DynMenuItemConfig,
   DynBreadcrumbProps,
   DynBreadcrumbItemProps,
-  DynListViewProps,
   DynAvatarProps,
   DynBadgeProps,
   DynTableProps,
@@ -41,12 +47,5 @@ export type {
   DynFieldContainerProps,
   DynDividerProps,
   DynModalProps,
-  DynDatepickerProps,
-  DynDropdownProps,
   DynPageProps,
-  DynSliderProps,
-  DynToastProps,
-  DynToggleProps,
-  DynToolbarProps,
-  DynTooltipProps,
 } from './dyn-stubs.types'
@@ -0,0 +1,492 @@
+import {
+  forwardRef,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState
+} from 'react'
+import type { ChangeEvent, FocusEvent, KeyboardEvent } from 'react'
+import type {
+  DateRangeValue,
+  DynDatepickerProps,
+  DynDatepickerRef
+} from '../types/components/dyn-datepicker.types'
+import { useControlled } from '../hooks/use-controlled'
+import type { UseControlledOptions } from '../hooks/use-controlled'
+import { usePosition } from '../hooks/use-position'
+import { useLayer } from '../hooks/use-layer'
+import {
+  addDays,
+  addMonths,
+  applyMask,
+  classNames,
+  formatDateInput,
+  formatISODate,
+  getDateInputFormat,
+  getDayOfWeek,
+  getDaysInMonth,
+  getFirstDayOfWeek,
+  getTodayISO,
+  isDateBetween,
+  parseDateInput,
+  parseISODate
+} from '../utils'
+import { DynPortal } from './dyn-portal'
+
+// Between the start and end date in range mode
+const RANGE_SEPARATOR = ' – '
+// 2023-01-01 was a Sunday; used to name the weekdays
+const FIRST_SUNDAY = '2023-01-01'
+
+const EMPTY_RANGE: DateRangeValue = ['', '']
+
+/**
+ * DynDatepicker - Date entry with a masked input and a calendar grid
+ *
+ * Features:
+ * - Masked input in the locale's date order (e.g. MM/DD/YYYY or DD.MM.YYYY)
+ * - Calendar dialog with a WAI-ARIA grid: arrows move by day and week,
+ *   Home/End to the week bounds, PageUp/PageDown by month (with Shift by year)
+ * - min/max and a predicate for disabled dates
+ * - Range mode selecting a start and an end date
+ * - Month and weekday names and first day of the week from Intl
+ * - Values are ISO dates (YYYY-MM-DD) through the ControlProps contract
+ */
+export const DynDatepicker = forwardRef<DynDatepickerRef, DynDatepickerProps>(
+  (
+    {
+      id,
+      name,
+      value,
+      defaultValue,
+      onChange,
+      disabled = false,
+      required = false,
+      placeholder,
+      size = 'md',
+      range = false,
+      min,
+      max,
+      isDateDisabled,
+      locale,
+      firstDayOfWeek: firstDayOfWeekProp,
+      className,
+      'aria-label': ariaLabel,
+      'aria-labelledby': ariaLabelledby,
+      'aria-describedby': ariaDescribedby,
+      'data-testid': dataTestId,
+      'data-state': dataState
+    },
+    ref
+  ) => {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const toggleRef = useRef<HTMLButtonElement>(null)
+    const wrapperRef = useRef<HTMLDivElement>(null)
+    const dialogRef = useRef<HTMLDivElement>(null)
+    const gridRef = useRef<HTMLTableElement>(null)
+    // Move DOM focus to the focused date after it changes
+    const focusGridRef = useRef(false)
+    const idPrefix = useId()
+    const headingId = `${idPrefix}-heading`
+
+    // Controlled/uncontrolled patterns
+    const controlOptions: UseControlledOptions<string | DateRangeValue> = {
+      defaultValue: range
+        ? (Array.isArray(defaultValue) ? defaultValue : EMPTY_RANGE)
+        : (typeof defaultValue === 'string' ? defaultValue : '')
+    }
+
+    if (onChange) {
+      controlOptions.onChange = (newValue) => onChange(newValue)
+    }
+
+    if (value !== undefined) {
+      controlOptions.value = range
+        ? (Array.isArray(value) ? value : EMPTY_RANGE)
+        : (typeof value === 'string' ? value : '')
+    }
+
+    const { value: rawValue, setValue } = useControlled(controlOptions)
+
+    const [start, end] = Array.isArray(rawValue)
+      ? rawValue
+      : [typeof rawValue === 'string' ? rawValue : '', '']
+
+    // Locale dependent formats
+    const inputFormat = useMemo(() => getDateInputFormat(locale), [locale])
+    const inputMask = range ? `${inputFormat.mask}${RANGE_SEPARATOR}${inputFormat.mask}` : inputFormat.mask
+    const firstDayOfWeek = useMemo(
+      () => firstDayOfWeekProp ?? getFirstDayOfWeek(locale),
+      [firstDayOfWeekProp, locale]
+    )
+    const weekdays = useMemo(() => Array.from({ length: 7 }, (_, index) => {
+      const iso = addDays(FIRST_SUNDAY, (firstDayOfWeek + index) % 7)
+      return {
+        short: formatISODate(iso, locale, { weekday: 'short' }),
+        long: formatISODate(iso, locale, { weekday: 'long' })
+      }
+    }), [firstDayOfWeek, locale])
+
+    const formatValue = (from: string, to: string) => {
+      if (!range) return formatDateInput(from, inputFormat)
+      if (!from) return ''
+      return `${formatDateInput(from, inputFormat)}${RANGE_SEPARATOR}${formatDateInput(to, inputFormat)}`
+    }
+
+    const formattedValue = formatValue(start, end)
+    const [inputText, setInputText] = useState(formattedValue)
+
+    // Show value changes made outside the input
+    useEffect(() => {
+      setInputText(formattedValue)
+    }, [formattedValue])
+
+    const [isOpen, setIsOpen] = useState(false)
+    const [focusedDate, setFocusedDate] = useState(() => start || getTodayISO())
+    const [hoveredDate, setHoveredDate] = useState<string | null>(null)
+
+    const isSelectable = (iso: string) =>
+      (!min || iso >= min) && (!max || iso <= max) && !isDateDisabled?.(iso)
+
+    // Keyboard navigation stops at min and max
+    const clampDate = (iso: string) => {
+      if (min && iso < min) return min
+      if (max && iso > max) return max
+      return iso
+    }
+
+    const { floatingStyles: dialogStyles } = usePosition({
+      referenceRef: wrapperRef,
+      floatingRef: dialogRef,
+      open: isOpen,
+      placement: 'bottom-start',
+      offset: 4
+    })
+
+    const { zIndex: dialogZIndex } = useLayer({
+      open: isOpen,
+      refs: [wrapperRef, dialogRef],
+      onEscape: () => closeCalendar(),
+      onOutsideClick: () => closeCalendar(false)
+    })
+
+    const openCalendar = () => {
+      if (disabled) return
+      focusGridRef.current = true
+      setFocusedDate(clampDate(start || getTodayISO()))
+      setHoveredDate(null)
+      setIsOpen(true)
+    }
+
+    const closeCalendar = (restoreFocus = true) => {
+      setIsOpen(false)
+      if (restoreFocus) {
+        toggleRef.current?.focus()
+      }
+    }
+
+    useEffect(() => {
+      if (!isOpen || !focusGridRef.current) return
+      focusGridRef.current = false
+      gridRef.current?.querySelector<HTMLElement>('[tabindex="0"]')?.focus()
+    }, [isOpen, focusedDate])
+
+    useImperativeHandle(ref, () => ({
+      focus: () => inputRef.current?.focus(),
+      blur: () => inputRef.current?.blur(),
+      open: () => openCalendar(),
+      close: () => closeCalendar(false),
+      clear: () => setValue(range ? EMPTY_RANGE : '')
+    }))
+
+    const selectDate = (iso: string) => {
+      if (!isSelectable(iso)) return
+
+      if (!range) {
+        setValue(iso)
+        closeCalendar()
+        return
+      }
+
+      // The first pick starts a range, the second completes it
+      if (start && !end) {
+        setValue(iso < start ? [iso, start] : [start, iso])
+        closeCalendar()
+      } else {
+        setValue([iso, ''])
+      }
+    }
+
+    // Typed dates are committed once complete and selectable
+    const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+      const text = applyMask(event.target.value.replace(/\D/g, ''), inputMask)
+      setInputText(text)
+
+      if (!text) {
+        setValue(range ? EMPTY_RANGE : '')
+        return
+      }
+
+      if (!range) {
+        const iso = parseDateInput(text, inputFormat)
+        if (iso && isSelectable(iso)) setValue(iso)
+        return
+      }
+
+      const [fromText = '', toText = ''] = text.split(RANGE_SEPARATOR)
+      const from = parseDateInput(fromText, inputFormat)
+      const to = parseDateInput(toText, inputFormat)
+      if (from && to && isSelectable(from) && isSelectable(to)) {
+        setValue(to < from ? [to, from] : [from, to])
+      }
+    }
+
+    // Incomplete or invalid text falls back to the current value
+    const handleInputBlur = () => {
+      setInputText(formattedValue)
+    }
+
+    const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'ArrowDown' && event.altKey) {
+        event.preventDefault()
+        openCalendar()
+      }
+    }
+
+    const moveFocus = (iso: string) => {
+      focusGridRef.current = true
+      setFocusedDate(clampDate(iso))
+    }
+
+    const handleGridKeyDown = (event: KeyboardEvent<HTMLTableElement>) => {
+      const weekOffset = (getDayOfWeek(focusedDate) - firstDayOfWeek + 7) % 7
+
+      switch (event.key) {
+        case 'ArrowLeft':
+          moveFocus(addDays(focusedDate, -1))
+          break
+        case 'ArrowRight':
+          moveFocus(addDays(focusedDate, 1))
+          break
+        case 'ArrowUp':
+          moveFocus(addDays(focusedDate, -7))
+          break
+        case 'ArrowDown':
+          moveFocus(addDays(focusedDate, 7))
+          break
+        case 'Home':
+          moveFocus(addDays(focusedDate, -weekOffset))
+          break
+        case 'End':
+          moveFocus(addDays(focusedDate, 6 - weekOffset))
+          break
+        case 'PageUp':
+          moveFocus(addMonths(focusedDate, event.shiftKey ? -12 : -1))
+          break
+        case 'PageDown':
+          moveFocus(addMonths(focusedDate, event.shiftKey ? 12 : 1))
+          break
+        case 'Enter':
+        case ' ':
+          selectDate(focusedDate)
+          break
+        case 'Escape':
+          event.stopPropagation()
+          closeCalendar()
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    // Focus leaving the calendar for the page closes it
+    const handleDialogBlur = (event: FocusEvent<HTMLDivElement>) => {
+      const next = event.relatedTarget as Node | null
+      if (next && !event.currentTarget.contains(next) && !wrapperRef.current?.contains(next)) {
+        closeCalendar(false)
+      }
+    }
+
+    // Weeks of the focused month, padded to whole weeks
+    const focusedMonth = focusedDate.slice(0, 7)
+    const weeks = useMemo(() => {
+      const firstOfMonth = `${focusedMonth}-01`
+      const parts = parseISODate(firstOfMonth)
+      if (!parts) return []
+      const leading = (getDayOfWeek(firstOfMonth) - firstDayOfWeek + 7) % 7
+      const daysInMonth = getDaysInMonth(parts.year, parts.month)
+      const cells: Array<string | null> = [
+        ...Array.from({ length: leading }, () => null),
+        ...Array.from({ length: daysInMonth }, (_, index) => addDays(firstOfMonth, index))
+      ]
+      while (cells.length % 7 !== 0) cells.push(null)
+
+      const rows: Array<Array<string | null>> = []
+      for (let index = 0; index < cells.length; index += 7) {
+        rows.push(cells.slice(index, index + 7))
+      }
+      return rows
+    }, [focusedMonth, firstDayOfWeek])
+
+    const today = getTodayISO()
+    // While picking the end of a range, preview it up to the hovered or focused date
+    const rangeEnd = range && start && !end ? (hoveredDate ?? focusedDate) : end
+
+    const isInRange = (iso: string) => range && Boolean(start && rangeEnd) && isDateBetween(iso, start, rangeEnd)
+
+    const isSelected = (iso: string) => (range ? iso === start || iso === end || isInRange(iso) : iso === start)
+
+    const hiddenValue = range ? (start && end ? `${start}/${end}` : '') : start
+
+    const wrapperClasses = classNames(
+      'dyn-datepicker',
+      `dyn-datepicker--${size}`,
+      disabled && 'dyn-datepicker--disabled',
+      dataState ? `dyn-datepicker--${dataState}` : undefined,
+      className
+    )
+
+    return (
+      <div ref={wrapperRef} className={wrapperClasses} data-testid={dataTestId}>
+        <input
+          ref={inputRef}
+          type="text"
+          id={id}
+          inputMode="numeric"
+          autoComplete="off"
+          className="dyn-datepicker__input"
+          placeholder={placeholder ?? (range
+            ? `${inputFormat.placeholder}${RANGE_SEPARATOR}${inputFormat.placeholder}`
+            : inputFormat.placeholder)}
+          value={inputText}
+          disabled={disabled}
+          required={required}
+          aria-label={ariaLabel}
+          aria-labelledby={ariaLabelledby}
+          aria-describedby={ariaDescribedby}
+          aria-invalid={dataState === 'error' ? 'true' : undefined}
+          onChange={handleInputChange}
+          onBlur={handleInputBlur}
+          onKeyDown={handleInputKeyDown}
+        />
+
+        <button
+          ref={toggleRef}
+          type="button"
+          className="dyn-datepicker__toggle"
+          disabled={disabled}
+          aria-label={range ? 'Choose dates' : 'Choose date'}
+          aria-haspopup="dialog"
+          aria-expanded={isOpen}
+          onClick={() => (isOpen ? closeCalendar(false) : openCalendar())}
+        >
+          <span aria-hidden="true">📅</span>
+        </button>
+
+        {name && <input type="hidden" name={name} value={hiddenValue} />}
+
+        {isOpen && (
+          <DynPortal>
+            <div
+              ref={dialogRef}
+              role="dialog"
+              aria-modal="false"
+              aria-labelledby={headingId}
+              className="dyn-datepicker-calendar"
+              style={{ ...dialogStyles, zIndex: dialogZIndex }}
+              onBlur={handleDialogBlur}
+            >
+              <div className="dyn-datepicker-calendar__header">
+                <button
+                  type="button"
+                  className="dyn-datepicker-calendar__nav"
+                  aria-label="Previous month"
+                  onClick={() => setFocusedDate(clampDate(addMonths(focusedDate, -1)))}
+                >
+                  <span aria-hidden="true">‹</span>
+                </button>
+                <h2 id={headingId} className="dyn-datepicker-calendar__title" aria-live="polite">
+                  {formatISODate(focusedDate, locale, { month: 'long', year: 'numeric' })}
+                </h2>
+                <button
+                  type="button"
+                  className="dyn-datepicker-calendar__nav"
+                  aria-label="Next month"
+                  onClick={() => setFocusedDate(clampDate(addMonths(focusedDate, 1)))}
+                >
+                  <span aria-hidden="true">›</span>
+                </button>
+              </div>
+
+              <table
+                ref={gridRef}
+                role="grid"
+                aria-labelledby={headingId}
+                className="dyn-datepicker-calendar__grid"
+                onKeyDown={handleGridKeyDown}
+              >
+                <thead>
+                  <tr>
+                    {weekdays.map(weekday => (
+                      <th key={weekday.long} scope="col" abbr={weekday.long}>
+                        {weekday.short}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeks.map((week, weekIndex) => (
+                    <tr key={weekIndex}>
+                      {week.map((iso, dayIndex) => {
+                        if (!iso) {
+                          return <td key={dayIndex} role="gridcell" className="dyn-datepicker-day dyn-datepicker-day--outside" />
+                        }
+
+                        const selectable = isSelectable(iso)
+                        const selected = isSelected(iso)
+
+                        return (
+                          <td
+                            key={iso}
+                            role="gridcell"
+                            tabIndex={iso === focusedDate ? 0 : -1}
+                            aria-selected={selected}
+                            aria-disabled={!selectable || undefined}
+                            aria-current={iso === today ? 'date' : undefined}
+                            aria-label={formatISODate(iso, locale, { dateStyle: 'full' })}
+                            data-date={iso}
+                            className={classNames(
+                              'dyn-datepicker-day',
+                              selected && 'dyn-datepicker-day--selected',
+                              range && (iso === start || iso === rangeEnd) && 'dyn-datepicker-day--range-edge',
+                              isInRange(iso) && 'dyn-datepicker-day--in-range',
+                              iso === today && 'dyn-datepicker-day--today',
+                              !selectable && 'dyn-datepicker-day--disabled'
+                            )}
+                            onClick={() => {
+                              setFocusedDate(iso)
+                              selectDate(iso)
+                            }}
+                            onMouseEnter={() => setHoveredDate(iso)}
+                            onMouseLeave={() => setHoveredDate(null)}
+                          >
+                            {parseISODate(iso)?.day}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </DynPortal>
+        )}
+      </div>
+    )
+  }
+)
+
+DynDatepicker.displayName = 'DynDatepicker'
@@ -0,0 +1,152 @@
+import { forwardRef, useCallback, useEffect, useId, useRef } from 'react';
+import type { KeyboardEvent, MutableRefObject } from 'react';
+import type { DynDropdownProps } from '../types/components/dyn-dropdown.types';
+import { useDropdown } from '../hooks/use-dropdown';
+import { usePosition } from '../hooks/use-position';
+import { classNames } from '../utils';
+import { ChevronDownIcon } from './dyn-icon';
+import { DynMenu, MENU_ITEM_SELECTOR, findMenuItem, isCheckableMenuItem } from './dyn-menu';
+
+/**
+ * DynDropdown - Menu button opening a DynMenu
+ *
+ * Enter, Space and ArrowDown open the menu on its first entry, ArrowUp on
+ * its last. Choosing an entry, Escape, Tab or a click outside close it, and
+ * focus returns to the trigger.
+ */
+export const DynDropdown = forwardRef<HTMLButtonElement, DynDropdownProps>(
+  ({
+    label,
+    items,
+    onAction,
+    onOpenChange,
+    placement = 'bottom-start',
+    closeOnSelect = true,
+    size = 'md',
+    disabled = false,
+    className,
+    'aria-label': ariaLabel,
+    'data-testid': testId
+  }, ref) => {
+    const { isOpen, open, close, containerRef, zIndex } = useDropdown();
+    const triggerRef = useRef<HTMLButtonElement | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    // Entry focused once the menu opens
+    const initialFocusRef = useRef<'first' | 'last'>('first');
+    const wasOpenRef = useRef(false);
+    const triggerId = useId();
+    const menuId = useId();
+
+    const { floatingStyles } = usePosition({
+      referenceRef: triggerRef,
+      floatingRef: menuRef,
+      open: isOpen,
+      placement,
+      offset: 4
+    });
+
+    const assignRefs = useCallback(
+      (node: HTMLButtonElement | null) => {
+        triggerRef.current = node;
+        if (typeof ref === 'function') {
+          ref(node);
+        } else if (ref) {
+          ref.current = node;
+        }
+      },
+      [ref]
+    );
+
+    useEffect(() => {
+      if (isOpen === wasOpenRef.current) return;
+      wasOpenRef.current = isOpen;
+      onOpenChange?.(isOpen);
+
+      if (isOpen) {
+        const entries = menuRef.current?.querySelectorAll<HTMLElement>(MENU_ITEM_SELECTOR);
+        const entry = initialFocusRef.current === 'last' ? entries?.[entries.length - 1] : entries?.[0];
+        entry?.focus();
+        return;
+      }
+
+      // Focus was inside the menu that just closed
+      const active = document.activeElement;
+      if (!active || active === document.body || containerRef.current?.contains(active)) {
+        triggerRef.current?.focus();
+      }
+    }, [isOpen, onOpenChange, containerRef]);
+
+    const openMenu = (focus: 'first' | 'last') => {
+      if (disabled) return;
+      initialFocusRef.current = focus;
+      open();
+    };
+
+    const handleTriggerClick = () => {
+      if (isOpen) {
+        close();
+      } else {
+        openMenu('first');
+      }
+    };
+
+    const handleTriggerKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        openMenu(event.key === 'ArrowUp' ? 'last' : 'first');
+      }
+    };
+
+    const handleAction = (value: string | undefined) => {
+      if (!isCheckableMenuItem(findMenuItem(items, value)) || closeOnSelect) close();
+      onAction?.(value);
+    };
+
+    // Tab leaves the menu; focus moves on from the trigger
+    const handleMenuKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+      if (event.key !== 'Tab') return;
+      triggerRef.current?.focus();
+      close();
+    };
+
+    return (
+      <div
+        ref={containerRef as MutableRefObject<HTMLDivElement | null>}
+        className={classNames('dyn-dropdown', isOpen && 'dyn-dropdown--open', className)}
+        data-testid={testId}
+      >
+        <button
+          ref={assignRefs}
+          id={triggerId}
+          type="button"
+          className={classNames('dyn-dropdown__trigger', `dyn-dropdown__trigger--${size}`)}
+          disabled={disabled}
+          aria-label={ariaLabel}
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+          aria-controls={isOpen ? menuId : undefined}
+          onClick={handleTriggerClick}
+          onKeyDown={handleTriggerKeyDown}
+        >
+          {label}
+          <ChevronDownIcon className="dyn-dropdown__chevron" />
+        </button>
+
+        {isOpen ? (
+          <DynMenu
+            ref={menuRef}
+            id={menuId}
+            items={items}
+            aria-labelledby={triggerId}
+            className="dyn-dropdown__menu"
+            style={{ ...floatingStyles, zIndex }}
+            onAction={handleAction}
+            onKeyDown={handleMenuKeyDown}
+          />
+        ) : null}
+      </div>
+    );
+  }
+);
+
+DynDropdown.displayName = 'DynDropdown';
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useCallback, useEffect, forwardRef, useImperativeHandle } from 'react'
 import { cn } from '../utils/classNames'
+import { applyMask, removeMask } from '../utils/mask'
 import type { Size, Color } from '../types/common.types'
 import { DynFieldContainer } from './dyn-field-container'
 import { DynIcon, CloseIcon } from './dyn-icon'
@@ -126,50 +127,6 @@ const VALIDATORS = {
   },
 }
 
-// Masking utility
-function applyMask(value: string, mask: string): string {
-  let maskedValue = ''
-  let valueIndex = 0
-  
-  for (let i = 0; i < mask.length && valueIndex < value.length; i++) {
-    const maskChar = mask[i]
-    const inputChar = value[valueIndex]
-    
-    if (maskChar === '9') {
-      // Digit placeholder
-      if (/\d/.test(inputChar)) {
-        maskedValue += inputChar
-        valueIndex++
-      } else {
-        break
-      }
-    } else if (maskChar === 'A') {
-      // Letter placeholder
-      if (/[A-Za-z]/.test(inputChar)) {
-        maskedValue += inputChar.toUpperCase()
-        valueIndex++
-      } else {
-        break
-      }
-    } else if (maskChar === '*') {
-      // Any character placeholder
-      maskedValue += inputChar
-      valueIndex++
-    } else {
-      // Literal character
-      maskedValue += maskChar
-    }
-  }
-  
-  return maskedValue
-}
-
-// Remove mask characters
-function removeMask(value: string, mask: string): string {
-  const maskChars = new Set([...mask].filter(char => !/[9A*]/.test(char)))
-  return value.split('').filter(char => !maskChars.has(char)).join('')
-}
-
 export const DynInputEnhanced = forwardRef<DynInputEnhancedRef, DynInputEnhancedProps>(
   ({
     type = 'text',
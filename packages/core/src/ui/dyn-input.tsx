@@ -1,5 +1,6 @@
 import React, { useState, useRef, useCallback, useEffect, forwardRef, useImperativeHandle } from 'react'
 import { cn } from '../utils/classNames'
+import { applyMask, removeMask } from '../utils/mask'
 import type { Size } from '../types/common.types'
 import { DynFieldContainer } from './dyn-field-container'
 
@@ -125,46 +126,6 @@ const VALIDATORS = {
   },
 }
 
-// Masking utility
-function applyMask(value: string, mask: string): string {
-  let maskedValue = ''
-  let valueIndex = 0
-  
-  for (let i = 0; i < mask.length && valueIndex < value.length; i++) {
-    const maskChar = mask[i]
-    const inputChar = value[valueIndex]
-    
-    if (maskChar === '9') {
-      if (/\d/.test(inputChar)) {
-        maskedValue += inputChar
-        valueIndex++
-      } else {
-        break
-      }
-    } else if (maskChar === 'A') {
-      if (/[A-Za-z]/.test(inputChar)) {
-        maskedValue += inputChar.toUpperCase()
-        valueIndex++
-      } else {
-        break
-      }
-    } else if (maskChar === '*') {
-      maskedValue += inputChar
-      valueIndex++
-    } else {
-      maskedValue += maskChar
-    }
-  }
-  
-  return maskedValue
-}
-
-// Remove mask characters
-function removeMask(value: string, mask: string): string {
-  const maskChars = new Set([...mask].filter(char => !/[9A*]/.test(char)))
-  return value.split('').filter(char => !maskChars.has(char)).join('')
-}
-
 export const DynInput = forwardRef<DynInputRef, DynInputProps>(
   ({
     type = 'text',
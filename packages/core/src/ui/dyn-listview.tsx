@@ -1,28 +1,41 @@
-import { useState, forwardRef, useCallback, type MutableRefObject } from 'react';
+import { useState, forwardRef, useCallback, useId, type FocusEvent, type KeyboardEvent, type MutableRefObject } from 'react';
 import type { DynListViewProps } from '../types/components/dyn-listview.types';
-import { useArrowNavigation } from '../hooks/use-arrow-navigation';
+import { useVirtualListbox } from '../hooks/use-virtual-listbox';
 import { classNames } from '../utils';
 
+// Items skipped by PageUp and PageDown
+const PAGE_STEP = 10;
+
 export const DynListView = forwardRef<HTMLDivElement, DynListViewProps>(
   ({
     items = [],
     selectedItem,
     onSelectionChange,
     multiSelect = false,
+    virtual = false,
     className,
+    onKeyDown,
+    onFocus,
     'data-testid': testId,
     ...props
   }, ref) => {
     const [selectedItems, setSelectedItems] = useState<string[]>([]);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const idPrefix = useId();
+    const getItemId = (index: number) => `${idPrefix}-item-${index}`;
 
-    const { containerRef } = useArrowNavigation({
-      orientation: 'vertical',
-      selector: '.dyn-list-item:not(.dyn-list-item--disabled)'
+    const virtualConfig = virtual === true ? {} : virtual || null;
+    const { listRef, indexes, paddingStart, paddingEnd, measureElement } = useVirtualListbox<HTMLDivElement>({
+      count: items.length,
+      enabled: Boolean(virtualConfig),
+      activeIndex,
+      itemHeight: virtualConfig?.itemHeight,
+      overscan: virtualConfig?.overscan
     });
 
     const assignRefs = useCallback(
       (node: HTMLDivElement | null) => {
-        (containerRef as MutableRefObject<HTMLDivElement | null>).current = node;
+        (listRef as MutableRefObject<HTMLDivElement | null>).current = node;
         if (!ref) return;
         if (typeof ref === 'function') {
           (ref as (instance: HTMLDivElement | null) => void)(node);
@@ -30,9 +43,13 @@ export const DynListView = forwardRef<HTMLDivElement, DynListViewProps>(
           (ref as MutableRefObject<HTMLDivElement | null>).current = node;
         }
       },
-      [containerRef, ref]
+      [listRef, ref]
     );
 
+    const isSelected = (itemId: string) => (multiSelect
+      ? selectedItems.includes(itemId)
+      : selectedItem === itemId);
+
     const handleItemSelect = (itemId: string) => {
       if (multiSelect) {
         const newSelection = selectedItems.includes(itemId)
@@ -45,40 +62,128 @@ export const DynListView = forwardRef<HTMLDivElement, DynListViewProps>(
       }
     };
 
+    // Nearest enabled item from `start` in direction `step`
+    const findEnabledIndex = (start: number, step: 1 | -1) => {
+      for (let index = start; index >= 0 && index < items.length; index += step) {
+        if (!items[index]?.disabled) return index;
+      }
+      return -1;
+    };
+
+    // Keyboard focus stays on the list; the active item is announced
+    // through aria-activedescendant and kept in view while scrolling
+    const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+      onKeyDown?.(event);
+      if (event.defaultPrevented || items.length === 0) return;
+
+      const lastIndex = items.length - 1;
+      let nextIndex = -1;
+
+      switch (event.key) {
+        case 'ArrowDown':
+          nextIndex = findEnabledIndex(activeIndex + 1, 1);
+          break;
+        case 'ArrowUp':
+          nextIndex = findEnabledIndex(activeIndex < 0 ? lastIndex : activeIndex - 1, -1);
+          break;
+        case 'PageDown': {
+          const target = Math.min(activeIndex + PAGE_STEP, lastIndex);
+          nextIndex = Math.max(findEnabledIndex(target, 1), findEnabledIndex(target, -1));
+          break;
+        }
+        case 'PageUp': {
+          const target = Math.max(activeIndex - PAGE_STEP, 0);
+          const above = findEnabledIndex(target, -1);
+          nextIndex = above >= 0 ? above : findEnabledIndex(target, 1);
+          break;
+        }
+        case 'Home':
+          nextIndex = findEnabledIndex(0, 1);
+          break;
+        case 'End':
+          nextIndex = findEnabledIndex(lastIndex, -1);
+          break;
+        case 'Enter':
+        case ' ': {
+          event.preventDefault();
+          const item = items[activeIndex];
+          if (item && !item.disabled) handleItemSelect(item.id);
+          return;
+        }
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      if (nextIndex >= 0) setActiveIndex(nextIndex);
+    };
+
+    const handleFocus = (event: FocusEvent<HTMLDivElement>) => {
+      onFocus?.(event);
+      if (activeIndex >= 0 || event.target !== event.currentTarget) return;
+      const selectedIndex = items.findIndex(item => isSelected(item.id) && !item.disabled);
+      setActiveIndex(selectedIndex >= 0 ? selectedIndex : findEnabledIndex(0, 1));
+    };
+
+    const activeItem = items[activeIndex];
+
     return (
       <div
         {...props}
         ref={assignRefs}
         role="listbox"
+        tabIndex={0}
         aria-multiselectable={multiSelect}
-        className={classNames('dyn-list-view', className)}
+        aria-activedescendant={activeItem ? getItemId(activeIndex) : undefined}
+        className={classNames('dyn-list-view', virtualConfig && 'dyn-list-view--virtual', className)}
         data-testid={testId}
+        onKeyDown={handleKeyDown}
+        onFocus={handleFocus}
       >
-        {items.map((item, index) => {
-          const isSelected = multiSelect 
-            ? selectedItems.includes(item.id)
-            : selectedItem === item.id;
-            
+        {paddingStart > 0 && (
+          <div role="presentation" className="dyn-list-view__spacer" style={{ height: paddingStart }} />
+        )}
+
+        {indexes.map(index => {
+          const item = items[index];
+          if (!item) return null;
+          const selected = isSelected(item.id);
+
           return (
             <div
               key={item.id || index}
+              ref={measureElement}
+              id={getItemId(index)}
+              data-index={index}
               role="option"
-              aria-selected={isSelected}
-              tabIndex={0}
+              aria-selected={selected}
+              aria-disabled={item.disabled || undefined}
+              // Only part of a virtual list is mounted
+              {...(virtualConfig ? { 'aria-setsize': items.length, 'aria-posinset': index + 1 } : {})}
               className={classNames(
                 'dyn-list-item',
-                isSelected && 'dyn-list-item--selected',
+                selected && 'dyn-list-item--selected',
+                index === activeIndex && 'dyn-list-item--active',
                 item.disabled && 'dyn-list-item--disabled'
               )}
-              onClick={() => !item.disabled && handleItemSelect(item.id)}
+              style={virtualConfig?.itemHeight ? { height: virtualConfig.itemHeight } : undefined}
+              onClick={() => {
+                if (item.disabled) return;
+                setActiveIndex(index);
+                handleItemSelect(item.id);
+              }}
             >
               {item.label}
             </div>
           );
         })}
+
+        {paddingEnd > 0 && (
+          <div role="presentation" className="dyn-list-view__spacer" style={{ height: paddingEnd }} />
+        )}
       </div>
     );
   }
 );
 
-DynListView.displayName = 'DynListView';
\ No newline at end of file
+DynListView.displayName = 'DynListView';
@@ -1,11 +1,54 @@
-import React, { forwardRef } from 'react';
+import React, { createContext, forwardRef, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
 import type {
   DynMenuProps,
   DynMenuItemProps,
   DynMenuItemConfig
 } from '../types/components/dyn-menu.types';
-import { classNames } from '../utils';
+import { usePosition } from '../hooks/use-position';
+import { useArrowNavigation } from '../hooks/use-arrow-navigation';
+import { classNames, getSide, type Side } from '../utils';
 import { Separator } from './separator';
+import { CheckIcon } from './dyn-icon';
+
+// Key that opens a submenu on the side it appears
+const SUBMENU_OPEN_KEYS = { top: 'ArrowUp', right: 'ArrowRight', bottom: 'ArrowDown', left: 'ArrowLeft' } as const;
+// Submenus above or below the item leave the vertical arrows to their items
+const SUBMENU_CLOSE_KEYS: Partial<Record<Side, string>> = { right: 'ArrowLeft', left: 'ArrowRight' };
+// Pointer grace period before a submenu closes, so it survives a diagonal move towards it
+const SUBMENU_CLOSE_DELAY = 300;
+// Hovering an item only replaces the open submenu of a sibling after this delay
+const SUBMENU_SWITCH_DELAY = 150;
+
+const MENU_ITEM_ROLES = ['menuitem', 'menuitemcheckbox', 'menuitemradio'];
+const ITEM_ROLES = { item: 'menuitem', checkbox: 'menuitemcheckbox', radio: 'menuitemradio' } as const;
+
+/** Enabled entries of a menu, including those of open submenus */
+export const MENU_ITEM_SELECTOR = MENU_ITEM_ROLES.map(role => `[role="${role}"]:not(:disabled)`).join(', ');
+/** Entry of a menu or one of its submenus with the given value */
+export function findMenuItem(items: DynMenuItemConfig[], value: string | undefined): DynMenuItemConfig | undefined {
+  for (const item of items) {
+    if (item.type !== 'divider' && item.value === value) return item;
+    const nested = item.items ? findMenuItem(item.items, value) : undefined;
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/** Whether choosing the entry toggles it rather than running a command */
+export const isCheckableMenuItem = (item: DynMenuItemConfig | undefined) =>
+  item?.type === 'checkbox' || item?.type === 'radio';
+
+// Entries of this menu, not of its open submenus
+const isOwnItem = (element: HTMLElement, menu: HTMLElement) =>
+  element.parentElement?.closest('[role="menu"]') === menu;
+
+// One open submenu per menu level
+interface MenuContextValue {
+  openSubmenu: string | null;
+  setOpenSubmenu: (update: (current: string | null) => string | null) => void;
+}
+
+const MenuContext = createContext<MenuContextValue | null>(null);
 
 export const DynMenu = forwardRef<HTMLDivElement, DynMenuProps>(
   ({
@@ -17,6 +60,26 @@ export const DynMenu = forwardRef<HTMLDivElement, DynMenuProps>(
     'data-testid': testId,
     ...props
   }, ref) => {
+    const { setContainerRef } = useArrowNavigation({
+      orientation,
+      selector: MENU_ITEM_SELECTOR,
+      filter: isOwnItem
+    });
+    const [openSubmenu, setOpenSubmenu] = useState<string | null>(null);
+    const menuContext = useMemo(() => ({ openSubmenu, setOpenSubmenu }), [openSubmenu]);
+
+    const assignRefs = useCallback(
+      (node: HTMLDivElement | null) => {
+        setContainerRef(node);
+        if (typeof ref === 'function') {
+          ref(node);
+        } else if (ref) {
+          ref.current = node;
+        }
+      },
+      [ref, setContainerRef]
+    );
+
     const handleAction = (value: string | undefined) => {
       onAction?.(value);
     };
@@ -26,6 +89,7 @@ export const DynMenu = forwardRef<HTMLDivElement, DynMenuProps>(
         key={`dyn-menu-config-${item.value ?? item.type}-${index}`}
         item={item}
         onAction={handleAction}
+        submenuPlacement={orientation === 'horizontal' ? 'bottom-start' : 'right-start'}
       />
     );
 
@@ -34,21 +98,23 @@ export const DynMenu = forwardRef<HTMLDivElement, DynMenuProps>(
     return (
       <div
         {...props}
-        ref={ref}
+        ref={assignRefs}
         role="menu"
         className={classNames('dyn-menu', `dyn-menu--${orientation}`, className)}
         data-testid={testId}
       >
-        {mappedItems}
-        {React.Children.map(children, (child, index) => {
-          if (React.isValidElement(child) && child.type === DynMenuItem) {
-            return React.cloneElement(child as React.ReactElement<DynMenuItemProps>, {
-              onAction: handleAction,
-              key: child.key || index
-            });
-          }
-          return child;
-        })}
+        <MenuContext.Provider value={menuContext}>
+          {mappedItems}
+          {React.Children.map(children, (child, index) => {
+            if (React.isValidElement(child) && child.type === DynMenuItem) {
+              return React.cloneElement(child as React.ReactElement<DynMenuItemProps>, {
+                onAction: handleAction,
+                key: child.key || index
+              });
+            }
+            return child;
+          })}
+        </MenuContext.Provider>
       </div>
     );
   }
@@ -68,8 +134,64 @@ export const DynMenuItem = forwardRef<HTMLElement, DynMenuItemProps>(
     'data-testid': testId,
     value: valueProp,
     onClick: userOnClick,
+    onKeyDown: userOnKeyDown,
+    submenuPlacement = 'right-start',
     ...props
   }, ref) => {
+    const buttonRef = useRef<HTMLButtonElement | null>(null);
+    const submenuRef = useRef<HTMLDivElement>(null);
+    const submenuKey = useId();
+    const menu = useContext(MenuContext);
+    // Items used outside a DynMenu keep their submenu state themselves
+    const [localSubmenuOpen, setLocalSubmenuOpen] = useState(false);
+    const submenuOpen = menu ? menu.openSubmenu === submenuKey : localSubmenuOpen;
+    // Opening from the keyboard moves focus into the submenu
+    const focusSubmenuRef = useRef(false);
+    const hoverTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+    const setSubmenuOpen = useCallback(
+      (open: boolean) => {
+        if (menu) {
+          menu.setOpenSubmenu(current => (open ? submenuKey : current === submenuKey ? null : current));
+        } else {
+          setLocalSubmenuOpen(open);
+        }
+      },
+      [menu, submenuKey]
+    );
+
+    useEffect(() => () => clearTimeout(hoverTimerRef.current), []);
+
+    const subItems = item?.items;
+    const hasSubmenu = Boolean(subItems?.length);
+
+    const { floatingStyles, placement } = usePosition({
+      referenceRef: buttonRef,
+      floatingRef: submenuRef,
+      open: submenuOpen,
+      placement: submenuPlacement
+    });
+    const side = getSide(placement);
+
+    useEffect(() => {
+      if (!submenuOpen || !focusSubmenuRef.current) return;
+      focusSubmenuRef.current = false;
+      submenuRef.current?.querySelector<HTMLElement>(MENU_ITEM_SELECTOR)?.focus();
+    }, [submenuOpen]);
+
+    const assignRefs = useCallback(
+      (node: HTMLButtonElement | null) => {
+        buttonRef.current = node;
+        if (!ref) return;
+        if (typeof ref === 'function') {
+          (ref as (instance: HTMLElement | null) => void)(node);
+        } else {
+          (ref as React.MutableRefObject<HTMLElement | null>).current = node;
+        }
+      },
+      [ref]
+    );
+
     const dataTestIdProps =
       typeof testId === 'string' ? { 'data-testid': testId } : undefined;
 
@@ -96,30 +218,136 @@ export const DynMenuItem = forwardRef<HTMLElement, DynMenuItemProps>(
     const value = item?.value ?? inferredValue ?? action;
     const label = item?.label ?? children;
     const shortcut = item?.shortcut ?? shortcutProp;
+    const itemType = item?.type ?? 'item';
+    const checkable = isCheckableMenuItem(item);
+
+    const closeSubmenu = (restoreFocus: boolean) => {
+      clearTimeout(hoverTimerRef.current);
+      setSubmenuOpen(false);
+      if (restoreFocus) buttonRef.current?.focus();
+    };
 
     const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
       if (!disabled) {
-        onAction?.(value);
+        if (hasSubmenu) {
+          setSubmenuOpen(!submenuOpen);
+        } else {
+          onAction?.(value);
+        }
       }
       userOnClick?.(event);
     };
 
-    return (
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+      userOnKeyDown?.(event);
+      if (event.defaultPrevented || !hasSubmenu || disabled) return;
+      if (event.key === SUBMENU_OPEN_KEYS[getSide(submenuPlacement)]) {
+        event.preventDefault();
+        focusSubmenuRef.current = true;
+        if (submenuOpen) {
+          submenuRef.current?.querySelector<HTMLElement>(MENU_ITEM_SELECTOR)?.focus();
+        } else {
+          setSubmenuOpen(true);
+        }
+      }
+    };
+
+    // Handled here so the key does not also close the parent submenus
+    const handleSubmenuKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+      if (event.key === 'Escape' || event.key === SUBMENU_CLOSE_KEYS[side]) {
+        event.preventDefault();
+        event.stopPropagation();
+        closeSubmenu(true);
+      }
+    };
+
+    // Hover intent: a submenu opens at once unless a sibling's is open, and
+    // closes only once the pointer stayed away for a moment
+    const handleMouseEnter = () => {
+      clearTimeout(hoverTimerRef.current);
+      if (disabled || submenuOpen) return;
+      if (menu?.openSubmenu) {
+        hoverTimerRef.current = setTimeout(() => setSubmenuOpen(true), SUBMENU_SWITCH_DELAY);
+      } else {
+        setSubmenuOpen(true);
+      }
+    };
+
+    const handleMouseLeave = () => {
+      clearTimeout(hoverTimerRef.current);
+      if (!submenuOpen) return;
+      hoverTimerRef.current = setTimeout(() => closeSubmenu(false), SUBMENU_CLOSE_DELAY);
+    };
+
+    // Checkable entries stay open like those of the root menu; the owner
+    // decides whether choosing one closes everything
+    const handleSubmenuAction = (subValue: string | undefined) => {
+      if (!isCheckableMenuItem(subItems ? findMenuItem(subItems, subValue) : undefined)) {
+        closeSubmenu(true);
+      }
+      onAction?.(subValue);
+    };
+
+    const button = (
       <button
         {...props}
-        ref={ref as React.ForwardedRef<HTMLButtonElement>}
-        role="menuitem"
+        ref={assignRefs}
+        role={ITEM_ROLES[itemType]}
         type="button"
         value={valueProp}
         disabled={disabled}
-        className={classNames('dyn-menu-item', disabled && 'dyn-menu-item--disabled', className)}
+        aria-checked={checkable ? Boolean(item?.checked) : undefined}
+        aria-haspopup={hasSubmenu ? 'menu' : undefined}
+        aria-expanded={hasSubmenu ? submenuOpen : undefined}
+        className={classNames(
+          'dyn-menu-item',
+          disabled && 'dyn-menu-item--disabled',
+          hasSubmenu && 'dyn-menu-item--has-submenu',
+          checkable && `dyn-menu-item--${itemType}`,
+          checkable && item?.checked && 'dyn-menu-item--checked',
+          className
+        )}
         onClick={handleClick}
+        onKeyDown={handleKeyDown}
         {...(dataTestIdProps ?? {})}
       >
+        {checkable ? (
+          <span className="dyn-menu-item__indicator" aria-hidden="true">
+            {item?.checked
+              ? itemType === 'radio' ? <span className="dyn-menu-item__radio-dot" /> : <CheckIcon />
+              : null}
+          </span>
+        ) : null}
         {label}
         {shortcut ? <span className="dyn-menu-item__shortcut">{shortcut}</span> : null}
       </button>
     );
+
+    if (!hasSubmenu) {
+      return button;
+    }
+
+    return (
+      <div
+        role="none"
+        className="dyn-menu-item-wrapper"
+        onMouseEnter={handleMouseEnter}
+        onMouseLeave={handleMouseLeave}
+      >
+        {button}
+        {submenuOpen ? (
+          <DynMenu
+            ref={submenuRef}
+            items={subItems ?? []}
+            aria-label={typeof label === 'string' ? label : undefined}
+            className="dyn-menu--submenu"
+            style={floatingStyles}
+            onAction={handleSubmenuAction}
+            onKeyDown={handleSubmenuKeyDown}
+          />
+        ) : null}
+      </div>
+    );
   }
 );
 
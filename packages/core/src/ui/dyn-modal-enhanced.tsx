@@ -1,8 +1,10 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react'
-import { createPortal } from 'react-dom'
 import { cn } from '../utils/classNames'
 import type { Size } from '../types/common.types'
+import type { PortalContainer } from '../types/components/dyn-portal.types'
+import { useLayer } from '../hooks/use-layer'
 import { DynIcon, CloseIcon } from './dyn-icon'
+import { DynPortal } from './dyn-portal'
 
 // Modal size configurations
 const MODAL_SIZES = {
@@ -39,8 +41,10 @@ interface DynModalEnhancedProps {
   footer?: React.ReactNode
   /** Whether modal is centered */
   centered?: boolean
-  /** Z-index for modal */
+  /** Z-index for modal; by default assigned by the layer stack above any open overlay */
   zIndex?: number
+  /** Element or shadow root to render into; defaults to the DynPortalProvider container, then document.body */
+  container?: PortalContainer | null
   /** Animation duration */
   animationDuration?: number
   /** Custom backdrop className */
@@ -132,20 +136,6 @@ function useFocusTrap(isActive: boolean) {
   return containerRef
 }
 
-// Body scroll lock utility
-function useBodyScrollLock(isLocked: boolean) {
-  useEffect(() => {
-    if (!isLocked) return
-    
-    const originalStyle = window.getComputedStyle(document.body).overflow
-    document.body.style.overflow = 'hidden'
-    
-    return () => {
-      document.body.style.overflow = originalStyle
-    }
-  }, [isLocked])
-}
-
 export function DynModalEnhanced({
   open,
   onClose,
@@ -159,7 +149,8 @@ export function DynModalEnhanced({
   header,
   footer,
   centered = true,
-  zIndex = 1050,
+  zIndex,
+  container,
   animationDuration = 200,
   backdropClassName,
   'data-testid': dataTestId,
@@ -171,8 +162,15 @@ export function DynModalEnhanced({
   const [isVisible, setIsVisible] = useState(false)
   const [isAnimating, setIsAnimating] = useState(false)
   const focusTrapRef = useFocusTrap(open && isVisible)
+  const backdropPressRef = useRef(false)
   
-  useBodyScrollLock(open)
+  // Nested overlays share one scroll lock, and Escape only closes the
+  // modal while no dropdown or inner modal is open above it
+  const layer = useLayer({
+    open,
+    onEscape: closeOnEscape ? () => onClose() : undefined,
+    lockScroll: true
+  })
   
   // Handle modal opening
   useEffect(() => {
@@ -199,23 +197,17 @@ export function DynModalEnhanced({
     }
   }, [open, isVisible, animationDuration, onAfterOpen, onAfterClose])
   
-  // Handle ESC key
-  useEffect(() => {
-    if (!closeOnEscape || !open) return
-    
-    const handleEscape = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') {
-        onClose()
-      }
-    }
-    
-    document.addEventListener('keydown', handleEscape)
-    return () => document.removeEventListener('keydown', handleEscape)
-  }, [open, closeOnEscape, onClose])
+  // A press that only closes an overlay above the modal must not close
+  // the modal as well
+  const handleBackdropMouseDown = useCallback((event: React.MouseEvent) => {
+    backdropPressRef.current = event.target === event.currentTarget && layer.isTopmost()
+  }, [layer])
   
   // Handle backdrop click
   const handleBackdropClick = useCallback((event: React.MouseEvent) => {
-    if (event.target === event.currentTarget && closeOnBackdrop) {
+    const pressedBackdrop = backdropPressRef.current
+    backdropPressRef.current = false
+    if (event.target === event.currentTarget && pressedBackdrop && closeOnBackdrop) {
       onBackdropClick?.()
       onClose()
     }
@@ -233,9 +225,10 @@ export function DynModalEnhanced({
         backdropClassName
       )}
       style={{
-        zIndex,
+        zIndex: zIndex ?? layer.zIndex,
         animationDuration: `${animationDuration}ms`,
       }}
+      onMouseDown={handleBackdropMouseDown}
       onClick={handleBackdropClick}
       data-testid={dataTestId}
     >
@@ -298,7 +291,11 @@ export function DynModalEnhanced({
   )
   
   // Render modal in portal
-  return createPortal(modalContent, document.body)
+  return (
+    <DynPortal {...(container !== undefined ? { container } : {})}>
+      {modalContent}
+    </DynPortal>
+  )
 }
 
 // Export types
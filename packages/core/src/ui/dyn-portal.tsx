@@ -0,0 +1,34 @@
+import { createContext, useContext } from 'react'
+import { createPortal } from 'react-dom'
+import type { DynPortalProps, DynPortalProviderProps, PortalContainer } from '../types/components/dyn-portal.types'
+
+const PortalContainerContext = createContext<PortalContainer | null>(null)
+
+/**
+ * DynPortalProvider - Sets where overlays below it are rendered
+ *
+ * Needed when the app lives in a shadow root, where overlays rendered into
+ * document.body would not get the app's styles.
+ */
+export function DynPortalProvider({ children, container }: DynPortalProviderProps) {
+  return (
+    <PortalContainerContext.Provider value={container}>
+      {children}
+    </PortalContainerContext.Provider>
+  )
+}
+
+/**
+ * DynPortal - Renders overlays outside their parent's DOM so they are not
+ * clipped by `overflow: hidden` ancestors
+ */
+export function DynPortal({ children, container, disabled = false }: DynPortalProps) {
+  const contextContainer = useContext(PortalContainerContext)
+
+  if (disabled) return <>{children}</>
+
+  const target = container ?? contextContainer ?? (typeof document === 'undefined' ? null : document.body)
+  if (!target) return null
+
+  return createPortal(children, target)
+}
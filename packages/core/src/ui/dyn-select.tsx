@@ -1,14 +1,124 @@
-import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import {
+  Children,
+  Fragment,
+  forwardRef,
+  isValidElement,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState
+} from 'react'
+import type { ClipboardEvent, KeyboardEvent, ReactNode, UIEvent } from 'react'
 import type { 
   DynSelectProps, 
   DynSelectOptionProps, 
+  DynSelectOptionGroupProps,
   DynSelectRef, 
-  SelectOption 
+  SelectOption,
+  SelectOptionGroup
 } from '../types/components/dyn-select.types'
 import { useControlled } from '../hooks/use-controlled'
 import type { UseControlledOptions } from '../hooks/use-controlled'
-import { useKeyboard } from '../hooks/use-keyboard'
+import { useAsyncOptions } from '../hooks/use-async-options'
+import { useVirtualListbox } from '../hooks/use-virtual-listbox'
+import { usePosition } from '../hooks/use-position'
+import { useLayer } from '../hooks/use-layer'
 import { classNames } from '../utils'
+import { DynPortal } from './dyn-portal'
+
+// Distance in px from the listbox bottom at which the next page is loaded
+const SCROLL_LOAD_THRESHOLD = 48
+
+// Listbox row: a group header or an option with its index among the options
+type ListboxRow =
+  | { type: 'group'; label: string }
+  | { type: 'option'; option: SelectOption; index: number }
+
+// Options skipped by PageUp and PageDown
+const PAGE_STEP = 10
+
+// Pause in ms after which typeahead starts a new search
+const TYPEAHEAD_TIMEOUT = 500
+
+const isOptionGroup = (entry: SelectOption | SelectOptionGroup): entry is SelectOptionGroup =>
+  'options' in entry
+
+// Option groups of the options prop become options labelled with their group
+const flattenOptions = (entries: Array<SelectOption | SelectOptionGroup>): SelectOption[] =>
+  entries.flatMap(entry => {
+    if (!isOptionGroup(entry)) return [entry]
+    return entry.options.map(option => ({
+      ...option,
+      group: entry.label,
+      ...(entry.disabled ? { disabled: true } : {})
+    }))
+  })
+
+// Entries of typed or pasted text, separated by commas or line breaks
+const splitEntries = (text: string): string[] => {
+  const entries = text.split(/[,\r\n]+/).map(entry => entry.trim()).filter(Boolean)
+  return entries.filter((entry, index) =>
+    entries.findIndex(other => normalizeEntry(other) === normalizeEntry(entry)) === index
+  )
+}
+
+// Comparison key for duplicate detection
+const normalizeEntry = (text: string) => text.trim().toLowerCase()
+
+// Plain text of option children, used as the option label
+const getNodeText = (node: ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node)
+  if (Array.isArray(node)) return node.map(getNodeText).join('')
+  if (isValidElement<{ children?: ReactNode }>(node)) return getNodeText(node.props.children)
+  return ''
+}
+
+// Options declared with DynSelectOption and DynSelectOptionGroup children
+const collectChildOptions = (
+  children: ReactNode,
+  group?: DynSelectOptionGroupProps
+): SelectOption[] => {
+  const collected: SelectOption[] = []
+
+  Children.forEach(children, child => {
+    if (!isValidElement(child)) return
+
+    if (child.type === DynSelectOption) {
+      const { value, disabled, description, children: content } = child.props as DynSelectOptionProps
+      const option: SelectOption = { value, label: getNodeText(content) || value }
+      if (disabled || group?.disabled) option.disabled = true
+      if (description) option.description = description
+      if (group) option.group = group.label
+      collected.push(option)
+    } else if (child.type === DynSelectOptionGroup) {
+      const groupProps = child.props as DynSelectOptionGroupProps
+      collected.push(...collectChildOptions(groupProps.children, groupProps))
+    } else if (child.type === Fragment) {
+      collected.push(...collectChildOptions((child.props as { children?: ReactNode }).children, group))
+    }
+  })
+
+  return collected
+}
+
+// Keeps options of a group together, groups in order of first appearance,
+// so focus indices follow the rendered order
+const orderByGroup = (options: SelectOption[]): SelectOption[] => {
+  if (!options.some(option => option.group !== undefined)) return options
+
+  const groups = new Map<string | undefined, SelectOption[]>()
+  options.forEach(option => {
+    const members = groups.get(option.group)
+    if (members) {
+      members.push(option)
+    } else {
+      groups.set(option.group, [option])
+    }
+  })
+  return Array.from(groups.values()).flat()
+}
 
 /**
  * DynSelect - Advanced dropdown selection component
@@ -16,8 +126,14 @@ import { classNames } from '../utils'
  * Features:
  * - Controlled/uncontrolled state management
  * - Searchable with live filtering
+ * - Option groups, custom option and value rendering, removable chips
+ * - Creatable tags in searchable multiple mode, with paste-to-split
+ * - Remote options with debounced search and infinite scroll (loadOptions)
+ * - Virtualized listbox for long option lists
+ * - Dropdown positioned to stay in the viewport (flip, shift, size to fit)
  * - Single and multiple selection modes
- * - Keyboard navigation (Arrow Up/Down, Enter, Escape)
+ * - Keyboard navigation scoped to the instance (Arrows, Home/End,
+ *   PageUp/PageDown, Enter, Escape, typeahead) with aria-activedescendant
  * - Mini API through ref (focus/blur/open/close/clear)
  * - Complete ARIA combobox pattern
  * - Support for both options prop and children
@@ -38,8 +154,16 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
       multiple = false,
       searchable = false,
       options,
+      loadOptions,
+      searchDebounce,
       open: controlledOpen,
       onOpenChange,
+      renderOption,
+      renderValue,
+      virtual = false,
+      creatable = false,
+      onCreateOption,
+      children,
       'aria-label': ariaLabel,
       'aria-labelledby': ariaLabelledby,
       'aria-describedby': ariaDescribedby,
@@ -49,7 +173,18 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
     ref
   ) => {
     const triggerRef = useRef<HTMLButtonElement>(null)
-    const listboxRef = useRef<HTMLUListElement>(null)
+    const wrapperRef = useRef<HTMLDivElement>(null)
+    const dropdownRef = useRef<HTMLDivElement>(null)
+    const searchRef = useRef<HTMLInputElement>(null)
+    const retryRef = useRef<HTMLButtonElement>(null)
+    const createRowRef = useRef<HTMLLIElement>(null)
+    const idPrefix = useId()
+    const listboxId = `${idPrefix}-listbox`
+    const getOptionId = (index: number) => `${idPrefix}-option-${index}`
+    const createRowId = `${idPrefix}-create`
+    const typeaheadRef = useRef<{ query: string; timer?: ReturnType<typeof setTimeout> }>({ query: '' })
+    // Remote options picked by the user, so their labels outlive the search
+    const pickedOptionsRef = useRef(new Map<string, SelectOption>())
     
     // Controlled/uncontrolled patterns
     const controlOptions: UseControlledOptions<string | string[]> = {
@@ -91,67 +226,286 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
     
     const [searchQuery, setSearchQuery] = useState('')
     const [focusedIndex, setFocusedIndex] = useState(-1)
+    const [createdOptions, setCreatedOptions] = useState<SelectOption[]>([])
+    const [isCreating, setIsCreating] = useState(false)
+    const [createError, setCreateError] = useState<string | null>(null)
+    // Latest value for selections made after an awaited creation
+    const currentValueRef = useRef(currentValue)
+    currentValueRef.current = currentValue
+
+    const isCreatable = creatable && searchable && multiple
 
     // Process options from props or children
-    const processedOptions: SelectOption[] = useMemo(() => options || [], [options])
+    const processedOptions: SelectOption[] = useMemo(
+      () => [
+        ...flattenOptions(options || []),
+        ...collectChildOptions(children),
+        ...createdOptions
+      ],
+      [options, children, createdOptions]
+    )
+
+    const isAsync = typeof loadOptions === 'function'
+    const remote = useAsyncOptions<SelectOption>({
+      query: searchQuery,
+      loadOptions,
+      enabled: isAsync && isOpen,
+      debounceMs: searchDebounce
+    })
     
-    // Filter options if searchable
+    // Filter options if searchable; remote options are already filtered
     const filteredOptions = useMemo(() => {
-      if (!searchable) return processedOptions
+      if (isAsync) return orderByGroup(remote.options)
+      if (!searchable) return orderByGroup(processedOptions)
       const query = searchQuery.toLowerCase()
-      return processedOptions.filter(opt =>
+      return orderByGroup(processedOptions.filter(opt =>
         opt.label.toLowerCase().includes(query)
-      )
-    }, [processedOptions, searchable, searchQuery])
+      ))
+    }, [isAsync, remote.options, processedOptions, searchable, searchQuery])
+
+    // Group headers interleaved with the options, in render order
+    const { rows, optionRowIndexes } = useMemo(() => {
+      const listRows: ListboxRow[] = []
+      const rowIndexes: number[] = []
+      filteredOptions.forEach((option, index) => {
+        if (option.group !== undefined && option.group !== filteredOptions[index - 1]?.group) {
+          listRows.push({ type: 'group', label: option.group })
+        }
+        rowIndexes.push(listRows.length)
+        listRows.push({ type: 'option', option, index })
+      })
+      return { rows: listRows, optionRowIndexes: rowIndexes }
+    }, [filteredOptions])
+
+    const virtualConfig = virtual === true ? {} : virtual || null
+    const {
+      listRef: listboxRef,
+      indexes: renderedRowIndexes,
+      paddingStart,
+      paddingEnd,
+      measureElement
+    } = useVirtualListbox<HTMLUListElement>({
+      count: rows.length,
+      enabled: Boolean(virtualConfig) && isOpen,
+      activeIndex: optionRowIndexes[focusedIndex] ?? -1,
+      itemHeight: virtualConfig?.itemHeight,
+      overscan: virtualConfig?.overscan
+    })
+
+    // The dropdown flips above the control and shrinks to the room left
+    // in the viewport
+    const { floatingStyles: dropdownStyles } = usePosition({
+      referenceRef: wrapperRef,
+      floatingRef: dropdownRef,
+      open: isOpen,
+      placement: 'bottom-start',
+      offset: 4,
+      size: true,
+      matchReferenceWidth: true
+    })
+
+    // The dropdown is portaled, so it counts as part of the control for
+    // outside clicks; Escape reaching the document also closes it
+    const { zIndex: dropdownZIndex } = useLayer({
+      open: isOpen,
+      refs: [wrapperRef, dropdownRef],
+      onEscape: () => closeList(),
+      onOutsideClick: () => closeList(false)
+    })
+
+    // Keyboard navigation past the last loaded option fetches the next page
+    const { hasMore, loadMore } = remote
+    useEffect(() => {
+      if (isOpen && hasMore && focusedIndex >= 0 && focusedIndex >= filteredOptions.length - 1) {
+        loadMore()
+      }
+    }, [isOpen, hasMore, loadMore, focusedIndex, filteredOptions.length])
     
     // Mini API implementation
     useImperativeHandle(ref, () => ({
       focus: () => triggerRef.current?.focus(),
       blur: () => triggerRef.current?.blur(),
-      open: () => setIsOpen(true),
-      close: () => setIsOpen(false),
+      open: () => openList(),
+      close: () => closeList(false),
       clear: () => setValue(multiple ? [] : '')
     }))
     
-    // Keyboard navigation
-    useKeyboard('Escape', () => {
-      if (isOpen) {
-        setIsOpen(false)
+    // Visual focus moves while DOM focus stays on the listbox or the
+    // search input, so the active option is announced through
+    // aria-activedescendant; useVirtualListbox keeps it in view
+    useEffect(() => {
+      if (isOpen && !searchable) {
+        listboxRef.current?.focus()
+      }
+    }, [isOpen, searchable])
+
+    useEffect(() => () => clearTimeout(typeaheadRef.current.timer), [])
+
+    // Next enabled option from `start` in direction `step`; the create row
+    // follows the options
+    const findEnabledIndex = (start: number, step: 1 | -1, wrap: boolean) => {
+      const count = navigableCount
+      for (let offset = 0; offset < count; offset++) {
+        let index = start + step * offset
+        if (wrap) {
+          index = ((index % count) + count) % count
+        } else if (index < 0 || index >= count) {
+          return -1
+        }
+        if (!filteredOptions[index]?.disabled) return index
+      }
+      return -1
+    }
+
+    // Option focused when the list opens: the selected one, else the first
+    // (searchable lists leave the search text in charge)
+    const getInitialIndex = () => {
+      const selectedValue = Array.isArray(currentValue) ? currentValue[0] : currentValue
+      const selectedIndex = filteredOptions.findIndex(opt => opt.value === selectedValue)
+      if (selectedIndex >= 0) return selectedIndex
+      return searchable ? -1 : findEnabledIndex(0, 1, false)
+    }
+
+    const openList = (initialIndex = getInitialIndex()) => {
+      setFocusedIndex(initialIndex)
+      setIsOpen(true)
+    }
+
+    const closeList = (restoreFocus = true) => {
+      setIsOpen(false)
+      setFocusedIndex(-1)
+      if (restoreFocus) {
         triggerRef.current?.focus()
       }
-    }, { enabled: isOpen })
-    
-    useKeyboard('ArrowDown', (e) => {
-      e.preventDefault()
-      if (!isOpen) {
-        setIsOpen(true)
-      } else {
-        setFocusedIndex(prev => 
-          prev < filteredOptions.length - 1 ? prev + 1 : 0
-        )
+    }
+
+    // Option whose label starts with the typed characters; repeating one
+    // character cycles through the options starting with it
+    const findTypeaheadIndex = (char: string) => {
+      const typeahead = typeaheadRef.current
+      clearTimeout(typeahead.timer)
+      typeahead.query += char.toLowerCase()
+      typeahead.timer = setTimeout(() => { typeahead.query = '' }, TYPEAHEAD_TIMEOUT)
+
+      const { query } = typeahead
+      const isRepeated = query.split('').every(c => c === query[0])
+      const search = isRepeated ? query.charAt(0) : query
+      const start = isRepeated ? focusedIndex + 1 : Math.max(focusedIndex, 0)
+      const count = filteredOptions.length
+
+      for (let offset = 0; offset < count; offset++) {
+        const index = (start + offset) % count
+        const option = filteredOptions[index]
+        if (option && !option.disabled && option.label.toLowerCase().startsWith(search)) {
+          return index
+        }
       }
-    })
-    
-    useKeyboard('ArrowUp', (e) => {
-      e.preventDefault()
-      if (isOpen) {
-        setFocusedIndex(prev => 
-          prev > 0 ? prev - 1 : filteredOptions.length - 1
-        )
+      return -1
+    }
+
+    const isTypeaheadKey = (event: KeyboardEvent) =>
+      event.key.length === 1 && event.key !== ' ' && !event.ctrlKey && !event.metaKey && !event.altKey
+
+    const handleTriggerKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+      if (disabled || isOpen) return
+
+      if (event.key === 'ArrowDown') {
+        event.preventDefault()
+        openList()
+      } else if (event.key === 'ArrowUp') {
+        event.preventDefault()
+        const initialIndex = getInitialIndex()
+        openList(initialIndex >= 0 ? initialIndex : findEnabledIndex(filteredOptions.length - 1, -1, false))
+      } else if (!searchable && isTypeaheadKey(event)) {
+        event.preventDefault()
+        openList(findTypeaheadIndex(event.key))
       }
-    })
-    
-    useKeyboard('Enter', (e) => {
-      if (isOpen && focusedIndex >= 0) {
-        e.preventDefault()
-        const option = filteredOptions[focusedIndex]
-        if (option) {
-          handleOptionSelect(option.value)
+    }
+
+    // Keys of the open list, from the listbox or the search input
+    const handleListKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+      const isSearch = event.currentTarget !== listboxRef.current
+      const lastIndex = navigableCount - 1
+      let nextIndex: number | null = null
+
+      switch (event.key) {
+        case 'ArrowDown':
+          // Wait for the next page instead of wrapping around
+          nextIndex = focusedIndex >= filteredOptions.length - 1 && hasMore
+            ? focusedIndex
+            : findEnabledIndex(focusedIndex + 1, 1, true)
+          break
+        case 'ArrowUp':
+          nextIndex = findEnabledIndex(focusedIndex < 0 ? lastIndex : focusedIndex - 1, -1, true)
+          break
+        case 'PageDown': {
+          const target = Math.min(focusedIndex + PAGE_STEP, lastIndex)
+          nextIndex = Math.max(findEnabledIndex(target, 1, false), findEnabledIndex(target, -1, false))
+          break
+        }
+        case 'PageUp': {
+          const target = Math.max(focusedIndex - PAGE_STEP, 0)
+          const below = findEnabledIndex(target, -1, false)
+          nextIndex = below >= 0 ? below : findEnabledIndex(target, 1, false)
+          break
         }
+        case 'Home':
+        case 'End':
+          // Caret movement in the search text
+          if (isSearch) return
+          nextIndex = event.key === 'Home'
+            ? findEnabledIndex(0, 1, false)
+            : findEnabledIndex(lastIndex, -1, false)
+          break
+        case 'Enter':
+        case ' ': {
+          if (event.key === ' ' && isSearch) return
+          event.preventDefault()
+          event.stopPropagation()
+          const option = filteredOptions[focusedIndex]
+          if (option && !option.disabled) {
+            handleOptionSelect(option)
+          } else if (isCreatable && isSearch && searchQuery.trim()) {
+            // The create row, or no row at all
+            void createEntries(splitEntries(searchQuery))
+          }
+          return
+        }
+        case 'Escape':
+          event.preventDefault()
+          event.stopPropagation()
+          closeList()
+          return
+        case 'Tab':
+          // Retry sits outside the listbox; reach it before leaving the list
+          if (!event.shiftKey && retryRef.current) {
+            event.preventDefault()
+            retryRef.current.focus()
+            return
+          }
+          closeList(false)
+          return
+        default:
+          if (!isSearch && isTypeaheadKey(event)) {
+            event.preventDefault()
+            const index = findTypeaheadIndex(event.key)
+            if (index >= 0) setFocusedIndex(index)
+          }
+          return
       }
-    })
+
+      event.preventDefault()
+      if (nextIndex !== null && nextIndex >= 0) {
+        setFocusedIndex(nextIndex)
+      }
+    }
     
-    const handleOptionSelect = (optionValue: string) => {
+    const handleOptionSelect = (option: SelectOption) => {
+      const optionValue = option.value
+      if (isAsync) {
+        pickedOptionsRef.current.set(optionValue, option)
+      }
+
       if (multiple) {
         const currentArray = Array.isArray(currentValue) ? currentValue : []
         const newValue = currentArray.includes(optionValue)
@@ -160,32 +514,157 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
         setValue(newValue)
       } else {
         setValue(optionValue)
-        setIsOpen(false)
+        closeList()
       }
     }
     
+    // Existing option matching typed text by label or value
+    const findExistingOption = (text: string) => {
+      const key = normalizeEntry(text)
+      const candidates = isAsync
+        ? [...processedOptions, ...remote.options, ...pickedOptionsRef.current.values()]
+        : processedOptions
+      return candidates.find(option =>
+        normalizeEntry(option.label) === key || normalizeEntry(option.value) === key
+      )
+    }
+
+    // Selects each entry, creating options for entries that do not exist yet
+    const createEntries = async (entries: string[]) => {
+      if (!isCreatable || isCreating || entries.length === 0) return
+
+      const added: string[] = []
+      let failed: string | null = null
+
+      setIsCreating(true)
+      setCreateError(null)
+      for (const entry of entries) {
+        const existing = findExistingOption(entry)
+        if (existing) {
+          if (!existing.disabled) added.push(existing.value)
+          continue
+        }
+
+        try {
+          const created = onCreateOption
+            ? await onCreateOption(entry)
+            : { value: entry, label: entry }
+          setCreatedOptions(prev => [...prev.filter(option => option.value !== created.value), created])
+          added.push(created.value)
+        } catch {
+          failed = failed ?? entry
+        }
+      }
+      setIsCreating(false)
+
+      const selected = Array.isArray(currentValueRef.current) ? currentValueRef.current : []
+      const newValues = added.filter((optionValue, index) =>
+        !selected.includes(optionValue) && added.indexOf(optionValue) === index
+      )
+      if (newValues.length > 0) {
+        setValue([...selected, ...newValues])
+      }
+
+      if (failed === null) {
+        setSearchQuery('')
+      } else {
+        setSearchQuery(failed)
+        setCreateError(`Could not create "${failed}"`)
+      }
+    }
+
+    const handleSearchPaste = (event: ClipboardEvent<HTMLInputElement>) => {
+      if (!isCreatable) return
+      const text = event.clipboardData.getData('text')
+      if (!/[,\r\n]/.test(text)) return
+
+      event.preventDefault()
+      void createEntries(splitEntries(text))
+    }
+
+    const handleChipRemove = (optionValue: string) => {
+      if (disabled || !Array.isArray(currentValue)) return
+      setValue(currentValue.filter(v => v !== optionValue))
+      // The remove button is gone, keep focus in the control
+      triggerRef.current?.focus()
+    }
+
     const handleTriggerClick = () => {
-      if (!disabled) {
-        setIsOpen(!isOpen)
+      if (disabled) return
+      if (isOpen) {
+        closeList(false)
+      } else {
+        openList()
       }
     }
     
+    const handleListboxScroll = (event: UIEvent<HTMLUListElement>) => {
+      if (!isAsync) return
+      const { scrollTop, scrollHeight, clientHeight } = event.currentTarget
+      if (scrollHeight - scrollTop - clientHeight <= SCROLL_LOAD_THRESHOLD) {
+        loadMore()
+      }
+    }
+
+    // Option for a value; remote values fall back to options picked by
+    // the user (`options` can label initial values)
+    const findOption = (optionValue: string) =>
+      processedOptions.find(opt => opt.value === optionValue)
+        ?? (isAsync ? pickedOptionsRef.current.get(optionValue) : undefined)
+
+    const selectedOptions = useMemo(() => {
+      const values = Array.isArray(currentValue) ? currentValue : [currentValue]
+      return values.flatMap(optionValue => {
+        if (optionValue === '') return []
+        const option = findOption(optionValue)
+        if (option) return [option]
+        // Remote value whose option has not been seen yet
+        return isAsync ? [{ value: optionValue, label: optionValue }] : []
+      })
+    }, [currentValue, processedOptions, isAsync])
+
     // Display value logic
-    const getDisplayValue = () => {
-      if (multiple && Array.isArray(currentValue)) {
-        const selected = processedOptions.filter(opt => currentValue.includes(opt.value))
-        return selected.length > 0 
-          ? `${selected.length} selected`
+    const getDisplayValue = (): ReactNode => {
+      if (selectedOptions.length > 0 && renderValue) {
+        return renderValue(selectedOptions)
+      }
+      if (multiple) {
+        // Chips show the selection; the count names it for assistive technology
+        return selectedOptions.length > 0
+          ? <span className="dyn-select-trigger__summary">{`${selectedOptions.length} selected`}</span>
           : placeholder || 'Select options...'
-      } else {
-        const selected = processedOptions.find(opt => opt.value === currentValue)
-        return selected?.label || placeholder || 'Select option...'
       }
+      return selectedOptions[0]?.label || placeholder || 'Select option...'
     }
+
+    const showChips = multiple && !renderValue && selectedOptions.length > 0
+
+    // Offer to create the search text unless it matches an option
+    const createCandidate = searchQuery.trim()
+    const showCreateRow = isCreatable
+      && createCandidate !== ''
+      && !isCreating
+      && splitEntries(createCandidate).some(entry => !findExistingOption(entry))
+    // Keyboard index of the create row, after the options
+    const createRowIndex = showCreateRow ? filteredOptions.length : -1
+    const navigableCount = filteredOptions.length + (showCreateRow ? 1 : 0)
+    const isCreateRowFocused = isOpen && createRowIndex >= 0 && focusedIndex === createRowIndex
+
+    const activeDescendant = isOpen && filteredOptions[focusedIndex]
+      ? getOptionId(focusedIndex)
+      : isCreateRowFocused ? createRowId : undefined
+
+    // The create row sits outside the virtual window, so it is scrolled to here
+    useEffect(() => {
+      if (isCreateRowFocused) {
+        createRowRef.current?.scrollIntoView?.({ block: 'nearest' })
+      }
+    }, [isCreateRowFocused])
     
     const wrapperClasses = classNames(
       'dyn-select-wrapper',
-      dataState ? `dyn-select-wrapper--${dataState}` : undefined
+      dataState ? `dyn-select-wrapper--${dataState}` : undefined,
+      showChips ? 'dyn-select-wrapper--has-chips' : undefined
     )
 
     const triggerClasses = classNames(
@@ -196,13 +675,155 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
       isOpen ? 'dyn-select-trigger--open' : undefined
     )
 
+    // The Retry button goes away, so focus returns to where the list is driven from
+    const handleRetry = () => {
+      remote.retry()
+      const listControl = searchable ? searchRef.current : listboxRef.current
+      listControl?.focus()
+    }
+
     const listboxClasses = classNames(
       'dyn-select-listbox',
       isOpen ? 'dyn-select-listbox--open' : undefined
     )
+
+    const renderOptionItem = (option: SelectOption, index: number) => {
+      const isSelected = multiple 
+        ? Array.isArray(currentValue) && currentValue.includes(option.value)
+        : currentValue === option.value
+      const isFocused = index === focusedIndex
+      
+      return (
+        <li
+          key={option.value}
+          ref={measureElement}
+          id={getOptionId(index)}
+          data-index={optionRowIndexes[index]}
+          role="option"
+          // Only part of a virtual list is mounted
+          {...(virtualConfig ? {
+            'aria-setsize': hasMore ? -1 : filteredOptions.length,
+            'aria-posinset': index + 1
+          } : {})}
+          style={virtualConfig?.itemHeight ? { height: virtualConfig.itemHeight } : undefined}
+          className={classNames(
+            'dyn-select-option',
+            isSelected && 'dyn-select-option--selected',
+            isFocused && 'dyn-select-option--focused',
+            option.disabled && 'dyn-select-option--disabled'
+          )}
+          aria-selected={isSelected}
+          aria-disabled={option.disabled}
+          onClick={() => !option.disabled && handleOptionSelect(option)}
+        >
+          {renderOption
+            ? renderOption(option, { selected: isSelected, focused: isFocused, disabled: Boolean(option.disabled) })
+            : (
+              <>
+                {option.label}
+                {option.description && (
+                  <span className="dyn-select-option__description">
+                    {option.description}
+                  </span>
+                )}
+              </>
+            )}
+        </li>
+      )
+    }
+
+    // Virtual lists render the visible rows between spacers; group headers
+    // become plain rows since a group may be cut by the window
+    const renderVirtualRows = () => (
+      <>
+        {paddingStart > 0 && (
+          <li role="presentation" className="dyn-select-listbox__spacer" style={{ height: paddingStart }} />
+        )}
+        {renderedRowIndexes.map(rowIndex => {
+          const row = rows[rowIndex]
+          if (!row) return null
+          if (row.type === 'option') return renderOptionItem(row.option, row.index)
+          return (
+            <li
+              key={`group:${row.label}`}
+              ref={measureElement}
+              data-index={rowIndex}
+              role="presentation"
+              className="dyn-select-group__label"
+              style={virtualConfig?.itemHeight ? { height: virtualConfig.itemHeight } : undefined}
+            >
+              {row.label}
+            </li>
+          )
+        })}
+        {paddingEnd > 0 && (
+          <li role="presentation" className="dyn-select-listbox__spacer" style={{ height: paddingEnd }} />
+        )}
+      </>
+    )
+
+    // Ungrouped options render directly in the listbox, grouped options
+    // inside a labelled group
+    const renderOptions = () => {
+      if (virtualConfig) return renderVirtualRows()
+
+      const items: ReactNode[] = []
+      let index = 0
+
+      while (index < filteredOptions.length) {
+        const group = filteredOptions[index]?.group
+        const start = index
+        while (index < filteredOptions.length && filteredOptions[index]?.group === group) {
+          index++
+        }
+        const members = filteredOptions.slice(start, index)
+
+        if (group === undefined) {
+          members.forEach((option, offset) => items.push(renderOptionItem(option, start + offset)))
+        } else {
+          const labelId = `${idPrefix}-group-${items.length}`
+          items.push(
+            <li
+              key={`group:${group}`}
+              role="group"
+              aria-labelledby={labelId}
+              className="dyn-select-group"
+            >
+              <span id={labelId} role="presentation" className="dyn-select-group__label">
+                {group}
+              </span>
+              <ul role="presentation" className="dyn-select-group__options">
+                {members.map((option, offset) => renderOptionItem(option, start + offset))}
+              </ul>
+            </li>
+          )
+        }
+      }
+
+      return items
+    }
     
     return (
-      <div className={wrapperClasses} data-testid={dataTestId}>
+      <div ref={wrapperRef} className={wrapperClasses} data-testid={dataTestId}>
+        {showChips && (
+          <ul className="dyn-select-chips" aria-label="Selected options">
+            {selectedOptions.map(option => (
+              <li key={option.value} className="dyn-select-chip">
+                <span className="dyn-select-chip__label">{option.label}</span>
+                <button
+                  type="button"
+                  className="dyn-select-chip__remove"
+                  aria-label={`Remove ${option.label}`}
+                  disabled={disabled}
+                  onClick={() => handleChipRemove(option.value)}
+                >
+                  <span aria-hidden="true">×</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         <button
           ref={triggerRef}
           type="button"
@@ -210,11 +831,13 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
           disabled={disabled}
           className={triggerClasses}
           onClick={handleTriggerClick}
+          onKeyDown={handleTriggerKeyDown}
           aria-label={ariaLabel}
           aria-labelledby={ariaLabelledby}
           aria-describedby={ariaDescribedby}
           aria-expanded={isOpen}
           aria-haspopup="listbox"
+          aria-controls={isOpen ? listboxId : undefined}
           aria-invalid={dataState === 'error' ? 'true' : undefined}
           aria-required={required ? 'true' : undefined}
         >
@@ -225,61 +848,110 @@ export const DynSelect = forwardRef<DynSelectRef, DynSelectProps>(
         </button>
         
         {isOpen && (
-          <div className="dyn-select-dropdown">
-            {searchable && (
-              <input
-                type="text"
-                className="dyn-select-search"
-                placeholder="Search..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                autoFocus
-              />
-            )}
-            
-            <ul
-              ref={listboxRef}
-              className={listboxClasses}
-              role="listbox"
-              aria-multiselectable={multiple}
-            >
-              {filteredOptions.map((option, index) => {
-                const isSelected = multiple 
-                  ? Array.isArray(currentValue) && currentValue.includes(option.value)
-                  : currentValue === option.value
-                const isFocused = index === focusedIndex
-                
-                return (
+          <DynPortal>
+            <div ref={dropdownRef} className="dyn-select-dropdown" style={{ ...dropdownStyles, zIndex: dropdownZIndex }}>
+              {searchable && (
+                <input
+                  ref={searchRef}
+                  type="text"
+                  className="dyn-select-search"
+                  placeholder="Search..."
+                  role="combobox"
+                  aria-expanded={isOpen}
+                  aria-controls={listboxId}
+                  aria-autocomplete="list"
+                  aria-activedescendant={activeDescendant}
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value)
+                    setCreateError(null)
+                    setFocusedIndex(-1)
+                  }}
+                  onKeyDown={handleListKeyDown}
+                  {...(isCreatable ? { onPaste: handleSearchPaste } : {})}
+                  autoFocus
+                />
+              )}
+              
+              <ul
+                ref={listboxRef}
+                id={listboxId}
+                className={listboxClasses}
+                role="listbox"
+                aria-label={ariaLabel}
+                aria-labelledby={ariaLabelledby}
+                aria-multiselectable={multiple}
+                {...(searchable ? {} : {
+                  tabIndex: -1,
+                  'aria-activedescendant': activeDescendant,
+                  onKeyDown: handleListKeyDown
+                })}
+                aria-busy={remote.loading || isCreating || undefined}
+                onScroll={handleListboxScroll}
+              >
+                {renderOptions()}
+
+                {showCreateRow && (
                   <li
-                    key={option.value}
+                    ref={createRowRef}
+                    id={createRowId}
                     role="option"
+                    aria-selected={false}
                     className={classNames(
                       'dyn-select-option',
-                      isSelected && 'dyn-select-option--selected',
-                      isFocused && 'dyn-select-option--focused',
-                      option.disabled && 'dyn-select-option--disabled'
+                      'dyn-select-option--create',
+                      isCreateRowFocused && 'dyn-select-option--focused'
                     )}
-                    aria-selected={isSelected}
-                    aria-disabled={option.disabled}
-                    onClick={() => !option.disabled && handleOptionSelect(option.value)}
+                    onClick={() => void createEntries(splitEntries(createCandidate))}
                   >
-                    {option.label}
-                    {option.description && (
-                      <span className="dyn-select-option__description">
-                        {option.description}
-                      </span>
-                    )}
+                    {`Create "${createCandidate}"`}
                   </li>
-                )
-              })}
-              
-              {filteredOptions.length === 0 && (
-                <li className="dyn-select-option dyn-select-option--empty">
-                  No options found
-                </li>
-              )}
-            </ul>
-          </div>
+                )}
+
+                {filteredOptions.length === 0
+                  && !remote.loading
+                  && remote.error === undefined
+                  && !showCreateRow
+                  && !isCreating
+                  && !createError && (
+                  <li className="dyn-select-option dyn-select-option--empty">
+                    No options found
+                  </li>
+                )}
+              </ul>
+
+              {/* Status rows are not options, so they live next to the listbox */}
+              <div className="dyn-select-status" aria-live="polite">
+                {remote.loading && (
+                  <div className="dyn-select-status__row">Loading...</div>
+                )}
+
+                {remote.error !== undefined && (
+                  <div className="dyn-select-status__row dyn-select-status__row--error" role="alert">
+                    Could not load options
+                    <button
+                      ref={retryRef}
+                      type="button"
+                      className="dyn-select-status__retry"
+                      onClick={handleRetry}
+                    >
+                      Retry
+                    </button>
+                  </div>
+                )}
+
+                {isCreating && (
+                  <div className="dyn-select-status__row">Creating...</div>
+                )}
+
+                {createError && (
+                  <div className="dyn-select-status__row dyn-select-status__row--error" role="alert">
+                    {createError}
+                  </div>
+                )}
+              </div>
+            </div>
+          </DynPortal>
         )}
         
         {/* Hidden input for form submission */}
@@ -307,4 +979,14 @@ export function DynSelectOption(_props: DynSelectOptionProps) {
   return null // This component is used for type checking and API consistency
 }
 
-DynSelectOption.displayName = 'DynSelectOption'
\ No newline at end of file
+DynSelectOption.displayName = 'DynSelectOption'
+
+/**
+ * DynSelectOptionGroup - Groups DynSelectOption children under a label
+ */
+export function DynSelectOptionGroup(_props: DynSelectOptionGroupProps) {
+  // Like DynSelectOption, read by the parent DynSelect
+  return null
+}
+
+DynSelectOptionGroup.displayName = 'DynSelectOptionGroup'
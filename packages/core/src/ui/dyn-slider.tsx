@@ -0,0 +1,325 @@
+import { forwardRef, useId, useImperativeHandle, useRef, useState } from 'react'
+import type { CSSProperties, KeyboardEvent, PointerEvent } from 'react'
+import type {
+  DynSliderProps,
+  DynSliderRef,
+  SliderMark,
+  SliderValue
+} from '../types/components/dyn-slider.types'
+import { useControlled } from '../hooks/use-controlled'
+import type { UseControlledOptions } from '../hooks/use-controlled'
+import { classNames } from '../utils'
+
+// Default names of the lower and upper thumb in range mode
+const RANGE_THUMB_LABELS = ['Minimum', 'Maximum'] as const
+
+const clamp = (value: number, lower: number, upper: number) => Math.min(upper, Math.max(lower, value))
+
+// Decimal places of the step, so snapping 0.1 + 0.2 gives 0.3
+const getDecimals = (value: number) => (String(value).split('.')[1] ?? '').length
+
+/**
+ * DynSlider - Picks a number, or a range with two thumbs, on a scale
+ *
+ * Features:
+ * - Single and range mode, the thumbs of a range cannot cross
+ * - step/min/max, marks with optional labels
+ * - Horizontal and vertical orientation
+ * - Value tooltip on hover, focus and drag, or always
+ * - Keyboard: arrows by step, PageUp/PageDown by a tenth of the scale,
+ *   Home/End to the bounds
+ * - WAI-ARIA slider semantics with custom aria-valuetext
+ */
+export const DynSlider = forwardRef<DynSliderRef, DynSliderProps>(
+  (
+    {
+      id,
+      name,
+      value,
+      defaultValue,
+      onChange,
+      onChangeEnd,
+      disabled = false,
+      min = 0,
+      max = 100,
+      step = 1,
+      range = false,
+      marks,
+      orientation = 'horizontal',
+      size = 'md',
+      tooltip = false,
+      formatValue,
+      getAriaValueText,
+      getAriaLabel,
+      className,
+      'aria-label': ariaLabel,
+      'aria-labelledby': ariaLabelledby,
+      'aria-describedby': ariaDescribedby,
+      'data-testid': dataTestId,
+      'data-state': dataState
+    },
+    ref
+  ) => {
+    const controlRef = useRef<HTMLDivElement>(null)
+    const thumbRefs = useRef<Array<HTMLDivElement | null>>([])
+    // Thumb moved by the pointer, null while not dragging
+    const dragThumbRef = useRef<number | null>(null)
+    const [draggingThumb, setDraggingThumb] = useState<number | null>(null)
+    const idPrefix = useId()
+    const vertical = orientation === 'vertical'
+
+    const normalize = (input: SliderValue | undefined): number[] => {
+      if (range) return Array.isArray(input) ? [input[0], input[1]] : [min, max]
+      return [typeof input === 'number' ? input : min]
+    }
+
+    const toValue = (values: number[]): SliderValue =>
+      range ? [values[0] ?? min, values[1] ?? max] : values[0] ?? min
+
+    // Controlled/uncontrolled patterns
+    const controlOptions: UseControlledOptions<SliderValue> = {
+      defaultValue: toValue(normalize(defaultValue))
+    }
+
+    if (onChange) {
+      controlOptions.onChange = (newValue) => onChange(newValue)
+    }
+
+    if (value !== undefined) {
+      controlOptions.value = toValue(normalize(value))
+    }
+
+    const { value: currentValue, setValue } = useControlled(controlOptions)
+
+    const values = normalize(currentValue)
+    // Latest values between a change and the next render, e.g. while dragging
+    const valuesRef = useRef(values)
+    valuesRef.current = values
+
+    const decimals = getDecimals(step)
+    const snap = (raw: number) =>
+      clamp(Number((min + Math.round((raw - min) / step) * step).toFixed(decimals)), min, max)
+
+    const getPercent = (position: number) => (max > min ? ((position - min) / (max - min)) * 100 : 0)
+
+    const getPositionStyle = (position: number): CSSProperties =>
+      vertical ? { bottom: `${getPercent(position)}%` } : { left: `${getPercent(position)}%` }
+
+    // A tenth of the scale, in whole steps
+    const pageStep = step * Math.max(1, Math.round((max - min) / step / 10))
+
+    useImperativeHandle(ref, () => ({
+      focus: (thumbIndex = 0) => thumbRefs.current[thumbIndex]?.focus(),
+      blur: () => thumbRefs.current.forEach(thumb => thumb?.blur())
+    }))
+
+    // Moves one thumb; returns whether the value changed
+    const updateThumb = (index: number, position: number) => {
+      const current = valuesRef.current
+      const lower = range && index === 1 ? current[0] ?? min : min
+      const upper = range && index === 0 ? current[1] ?? max : max
+      const next = clamp(position, lower, upper)
+      if (next === current[index]) return false
+
+      const nextValues = current.map((item, itemIndex) => (itemIndex === index ? next : item))
+      valuesRef.current = nextValues
+      setValue(toValue(nextValues))
+      return true
+    }
+
+    const getPointerPosition = (event: PointerEvent<HTMLDivElement>) => {
+      const rect = controlRef.current?.getBoundingClientRect()
+      const length = vertical ? rect?.height : rect?.width
+      if (!rect || !length) return null
+      const ratio = vertical ? (rect.bottom - event.clientY) / length : (event.clientX - rect.left) / length
+      return snap(min + clamp(ratio, 0, 1) * (max - min))
+    }
+
+    const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+      if (disabled || event.button > 0) return
+      const position = getPointerPosition(event)
+      if (position === null) return
+
+      // Nearest thumb; the upper one when both sit below the pointer
+      const [lower = min, upper = max] = valuesRef.current
+      const index = range && (
+        Math.abs(position - upper) < Math.abs(position - lower) ||
+        (lower === upper && position > upper)
+      ) ? 1 : 0
+
+      // Keep the browser from selecting text; focus moves to the thumb instead
+      event.preventDefault()
+      event.currentTarget.setPointerCapture?.(event.pointerId)
+      dragThumbRef.current = index
+      setDraggingThumb(index)
+      thumbRefs.current[index]?.focus()
+      updateThumb(index, position)
+    }
+
+    const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+      if (dragThumbRef.current === null) return
+      const position = getPointerPosition(event)
+      if (position !== null) updateThumb(dragThumbRef.current, position)
+    }
+
+    const handlePointerUp = () => {
+      if (dragThumbRef.current === null) return
+      dragThumbRef.current = null
+      setDraggingThumb(null)
+      onChangeEnd?.(toValue(valuesRef.current))
+    }
+
+    const handleThumbKeyDown = (index: number) => (event: KeyboardEvent<HTMLDivElement>) => {
+      if (disabled) return
+      const current = valuesRef.current[index] ?? min
+      let position: number
+
+      switch (event.key) {
+        case 'ArrowRight':
+        case 'ArrowUp':
+          position = snap(current + step)
+          break
+        case 'ArrowLeft':
+        case 'ArrowDown':
+          position = snap(current - step)
+          break
+        case 'PageUp':
+          position = snap(current + pageStep)
+          break
+        case 'PageDown':
+          position = snap(current - pageStep)
+          break
+        case 'Home':
+          position = min
+          break
+        case 'End':
+          position = max
+          break
+        default:
+          return
+      }
+
+      event.preventDefault()
+      if (updateThumb(index, position)) {
+        onChangeEnd?.(toValue(valuesRef.current))
+      }
+    }
+
+    const format = (position: number) => formatValue?.(position) ?? String(position)
+
+    const markList: SliderMark[] = marks === true
+      ? Array.from({ length: Math.floor((max - min) / step) + 1 }, (_, index) => ({ value: snap(min + index * step) }))
+      : (marks || []).filter(mark => mark.value >= min && mark.value <= max)
+    const getMarkLabel = (mark: SliderMark) => mark.label ?? (formatValue ? formatValue(mark.value) : undefined)
+    const hasMarkLabels = markList.some(mark => getMarkLabel(mark) !== undefined)
+
+    const isMarkActive = (position: number) => {
+      const [lower = min, upper = max] = values
+      return range ? position >= lower && position <= upper : position <= lower
+    }
+
+    const fillStart = range ? getPercent(values[0] ?? min) : 0
+    const fillEnd = getPercent(range ? values[1] ?? max : values[0] ?? min)
+    const fillStyle: CSSProperties = vertical
+      ? { bottom: `${fillStart}%`, height: `${fillEnd - fillStart}%` }
+      : { left: `${fillStart}%`, width: `${fillEnd - fillStart}%` }
+
+    const getThumbLabel = (index: number) => {
+      if (!range) return ariaLabel
+      if (getAriaLabel) return getAriaLabel(index)
+      const label = RANGE_THUMB_LABELS[index] ?? ''
+      return ariaLabel ? `${ariaLabel}, ${label.toLowerCase()}` : label
+    }
+
+    const wrapperClasses = classNames(
+      'dyn-slider',
+      `dyn-slider--${orientation}`,
+      `dyn-slider--${size}`,
+      range && 'dyn-slider--range',
+      hasMarkLabels && 'dyn-slider--labeled-marks',
+      tooltip === 'always' && 'dyn-slider--tooltip-always',
+      draggingThumb !== null && 'dyn-slider--dragging',
+      disabled && 'dyn-slider--disabled',
+      dataState ? `dyn-slider--${dataState}` : undefined,
+      className
+    )
+
+    return (
+      <div className={wrapperClasses} data-testid={dataTestId}>
+        <div
+          ref={controlRef}
+          className="dyn-slider__control"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div className="dyn-slider__track">
+            <div className="dyn-slider__fill" style={fillStyle} />
+          </div>
+
+          {markList.length > 0 ? (
+            <div className="dyn-slider__marks" aria-hidden="true">
+              {markList.map(mark => (
+                <span
+                  key={mark.value}
+                  className={classNames('dyn-slider__mark', isMarkActive(mark.value) && 'dyn-slider__mark--active')}
+                  style={getPositionStyle(mark.value)}
+                >
+                  {getMarkLabel(mark) !== undefined
+                    ? <span className="dyn-slider__mark-label">{getMarkLabel(mark)}</span>
+                    : null}
+                </span>
+              ))}
+            </div>
+          ) : null}
+
+          {values.map((position, index) => {
+            // The thumbs of a range bound each other
+            const thumbMin = range && index === 1 ? values[0] ?? min : min
+            const thumbMax = range && index === 0 ? values[1] ?? max : max
+            const valueText = getAriaValueText?.(position, index) ?? formatValue?.(position)
+            const thumbId = (index === 0 ? id : undefined) ?? `${idPrefix}-thumb-${index}`
+
+            return (
+              <div
+                key={index}
+                ref={element => { thumbRefs.current[index] = element }}
+                id={thumbId}
+                role="slider"
+                tabIndex={disabled ? -1 : 0}
+                className={classNames('dyn-slider__thumb', draggingThumb === index && 'dyn-slider__thumb--active')}
+                style={getPositionStyle(position)}
+                aria-valuemin={thumbMin}
+                aria-valuemax={thumbMax}
+                aria-valuenow={position}
+                aria-valuetext={valueText}
+                aria-orientation={orientation}
+                aria-disabled={disabled || undefined}
+                aria-label={getThumbLabel(index)}
+                // In range mode the thumb's own label follows the shared one, e.g. "Price Minimum"
+                aria-labelledby={range && ariaLabelledby ? `${ariaLabelledby} ${thumbId}` : ariaLabelledby}
+                aria-describedby={ariaDescribedby}
+                onKeyDown={handleThumbKeyDown(index)}
+              >
+                {tooltip ? (
+                  <span className="dyn-slider__tooltip" aria-hidden="true">
+                    {format(position)}
+                  </span>
+                ) : null}
+              </div>
+            )
+          })}
+        </div>
+
+        {name
+          ? values.map((position, index) => (
+            <input key={index} type="hidden" name={name} value={position} disabled={disabled} />
+          ))
+          : null}
+      </div>
+    )
+  }
+)
+
+DynSlider.displayName = 'DynSlider'
@@ -0,0 +1,208 @@
+import React, { useEffect, useId, useRef, useState } from 'react'
+import { cn } from '../utils/classNames'
+import { DynInput } from './dyn-input'
+import { DynSelect } from './dyn-select'
+import { DynCheckboxEnhanced } from './dyn-checkbox-enhanced'
+import { useEnhancedValidation } from '../hooks/use-enhanced-validation'
+import type { ValidationRule } from '../hooks/use-enhanced-validation'
+import type { SelectOption } from '../types/components/dyn-select.types'
+
+// Editor control rendered for an editable cell
+type CellEditor =
+  | { type: 'text'; placeholder?: string }
+  | { type: 'number'; placeholder?: string }
+  | { type: 'select'; options: SelectOption[] }
+  | { type: 'checkbox' }
+
+// Where focus goes after a successful commit
+type CellEditMove = 'next' | 'previous' | 'none'
+
+// Cell editor props
+interface DynTableCellEditorProps {
+  /** Editor control */
+  editor: CellEditor
+  /** Cell value when editing started */
+  value: unknown
+  /** Accessible label, usually the column title */
+  label: string
+  /** Rules checked before the value is committed */
+  rules?: ValidationRule[] | undefined
+  /** Persists the value; rejecting keeps the editor open with the reason */
+  onCommit: (value: unknown, move: CellEditMove) => Promise<void>
+  /** Leaves the editor without saving */
+  onCancel: () => void
+}
+
+const NO_RULES: ValidationRule[] = []
+
+// Editor-native draft for a cell value
+function toDraft(editor: CellEditor, value: unknown): string | boolean {
+  if (editor.type === 'checkbox') return Boolean(value)
+  return value === null || value === undefined ? '' : String(value)
+}
+
+// Value emitted for a draft
+function fromDraft(editor: CellEditor, draft: string | boolean): unknown {
+  if (editor.type === 'checkbox') return Boolean(draft)
+  if (editor.type === 'number') {
+    const text = String(draft).trim()
+    return text === '' ? null : Number(text)
+  }
+  return draft
+}
+
+// Message shown when a commit is rejected
+function getRejectionMessage(reason: unknown): string {
+  if (reason instanceof Error && reason.message) return reason.message
+  if (typeof reason === 'string' && reason) return reason
+  return 'Change could not be saved'
+}
+
+/**
+ * DynTableCellEditor - Inline editor for a single table cell
+ *
+ * Enter commits, Tab and Shift+Tab commit and move to the neighbouring
+ * editable cell, Escape cancels.
+ */
+export function DynTableCellEditor({
+  editor,
+  value,
+  label,
+  rules = NO_RULES,
+  onCommit,
+  onCancel,
+}: DynTableCellEditorProps) {
+  const errorId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [draft, setDraft] = useState(() => toDraft(editor, value))
+  const [isSaving, setIsSaving] = useState(false)
+  const [commitRequested, setCommitRequested] = useState(false)
+  const [rejection, setRejection] = useState<string | null>(null)
+  const parsedValue = fromDraft(editor, draft)
+  const validation = useEnhancedValidation(parsedValue, rules, { validateOnBlur: false })
+  const errorMessage = rejection ?? validation.errorMessage
+
+  useEffect(() => {
+    containerRef.current?.querySelector<HTMLElement>('input, button')?.focus()
+  }, [])
+
+  const updateDraft = (next: string | boolean) => {
+    setRejection(null)
+    setDraft(next)
+  }
+
+  const commit = async (move: CellEditMove) => {
+    if (isSaving || !(await validation.validate())) return
+
+    setIsSaving(true)
+    setRejection(null)
+    try {
+      await onCommit(parsedValue, move)
+    } catch (reason) {
+      setRejection(getRejectionMessage(reason))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Picking an option is the commit gesture for selects; validation needs
+  // the picked value rendered first
+  useEffect(() => {
+    if (!commitRequested) return
+    setCommitRequested(false)
+    void commit('none')
+  }, [commitRequested])
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement
+    // Keys belong to an open select dropdown
+    if (target.getAttribute('aria-expanded') === 'true') return
+
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      event.stopPropagation()
+      onCancel()
+    } else if (event.key === 'Enter' && editor.type !== 'select') {
+      event.preventDefault()
+      event.stopPropagation()
+      void commit('none')
+    } else if (event.key === 'Tab') {
+      event.preventDefault()
+      event.stopPropagation()
+      void commit(event.shiftKey ? 'previous' : 'next')
+    }
+  }
+
+  const renderControl = () => {
+    const describedBy = errorMessage ? errorId : undefined
+
+    switch (editor.type) {
+      case 'select':
+        return (
+          <DynSelect
+            size="sm"
+            options={editor.options}
+            value={String(draft)}
+            disabled={isSaving}
+            aria-label={label}
+            {...(describedBy ? { 'aria-describedby': describedBy } : {})}
+            onChange={(next) => {
+              const selected = Array.isArray(next) ? next[0] ?? '' : next
+              updateDraft(selected)
+              setCommitRequested(true)
+            }}
+          />
+        )
+      case 'checkbox':
+        return (
+          <DynCheckboxEnhanced
+            size="sm"
+            checked={Boolean(draft)}
+            readonly={isSaving}
+            aria-label={label}
+            {...(describedBy ? { 'aria-describedby': describedBy } : {})}
+            onChange={(checked) => updateDraft(checked)}
+          />
+        )
+      default:
+        return (
+          <DynInput
+            size="sm"
+            type={editor.type}
+            value={String(draft)}
+            readonly={isSaving}
+            aria-label={label}
+            {...(editor.placeholder ? { placeholder: editor.placeholder } : {})}
+            {...(describedBy ? { 'aria-describedby': describedBy } : {})}
+            onChange={(next) => updateDraft(next)}
+          />
+        )
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        'dyn-table-cell-editor',
+        errorMessage && 'dyn-table-cell-editor--error'
+      )}
+      aria-busy={isSaving || undefined}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {renderControl()}
+
+      {errorMessage && (
+        <span id={errorId} role="alert" className="dyn-table-cell-editor__error">
+          {errorMessage}
+        </span>
+      )}
+    </div>
+  )
+}
+
+// Export types
+export type { DynTableCellEditorProps, CellEditor, CellEditMove }
+export default DynTableCellEditor
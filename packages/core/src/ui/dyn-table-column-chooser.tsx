@@ -0,0 +1,116 @@
+import { useId } from 'react'
+import type { MutableRefObject } from 'react'
+import { cn } from '../utils/classNames'
+import { useDropdown } from '../hooks/use-dropdown'
+
+// Column entry listed in the chooser, in display order
+interface ColumnChooserItem {
+  key: string
+  title: string
+  visible: boolean
+  /** Whether the user may hide this column */
+  hideable: boolean
+}
+
+// Column chooser props
+interface DynTableColumnChooserProps {
+  /** Columns in display order */
+  items: ColumnChooserItem[]
+  /** Called when a column is shown or hidden */
+  onToggle: (key: string, visible: boolean) => void
+  /** Called when a column is moved one position */
+  onMove?: ((key: string, offset: -1 | 1) => void) | undefined
+  /** Trigger label */
+  label?: string
+}
+
+/**
+ * DynTableColumnChooser - Menu for toggling and ordering table columns
+ */
+export function DynTableColumnChooser({
+  items,
+  onToggle,
+  onMove,
+  label = 'Columns',
+}: DynTableColumnChooserProps) {
+  const popoverId = useId()
+  const { isOpen, toggle, containerRef } = useDropdown()
+  const visibleCount = items.filter(item => item.visible).length
+
+  return (
+    <div
+      ref={containerRef as MutableRefObject<HTMLDivElement | null>}
+      className="dyn-table-column-chooser"
+    >
+      <button
+        type="button"
+        className="dyn-table-column-chooser__trigger"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? popoverId : undefined}
+        onClick={toggle}
+      >
+        {label}
+      </button>
+
+      {isOpen && (
+        <div
+          id={popoverId}
+          role="dialog"
+          aria-label="Choose columns"
+          className="dyn-table-column-chooser__popover"
+        >
+          <ul className="dyn-table-column-chooser__list">
+            {items.map((item, index) => (
+              <li
+                key={item.key}
+                className={cn(
+                  'dyn-table-column-chooser__item',
+                  !item.visible && 'dyn-table-column-chooser__item--hidden'
+                )}
+              >
+                <label className="dyn-table-column-chooser__label">
+                  <input
+                    type="checkbox"
+                    checked={item.visible}
+                    // Keep at least one column on screen
+                    disabled={!item.hideable || (item.visible && visibleCount === 1)}
+                    onChange={(e) => onToggle(item.key, e.target.checked)}
+                  />
+                  <span>{item.title}</span>
+                </label>
+
+                {onMove && (
+                  <span className="dyn-table-column-chooser__move">
+                    <button
+                      type="button"
+                      className="dyn-table-column-chooser__move-button"
+                      aria-label={`Move ${item.title} up`}
+                      disabled={index === 0}
+                      onClick={() => onMove(item.key, -1)}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="dyn-table-column-chooser__move-button"
+                      aria-label={`Move ${item.title} down`}
+                      disabled={index === items.length - 1}
+                      onClick={() => onMove(item.key, 1)}
+                    >
+                      ↓
+                    </button>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Export types
+export type { DynTableColumnChooserProps, ColumnChooserItem }
+export default DynTableColumnChooser
@@ -0,0 +1,334 @@
+import React, { useEffect, useId, useState } from 'react'
+import type { MutableRefObject } from 'react'
+import { cn } from '../utils/classNames'
+import { useDropdown } from '../hooks/use-dropdown'
+
+// Kind of filter control rendered for a column
+type ColumnFilterType = 'text' | 'number' | 'date' | 'enum'
+
+// Text filter operators
+type TextFilterOperator = 'contains' | 'equals'
+
+// Typed filter value for a single column
+type ColumnFilterValue =
+  | { type: 'text'; operator: TextFilterOperator; value: string }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'date'; from?: string; to?: string }
+  | { type: 'enum'; values: string[] }
+
+// Option shown in an enum filter
+interface ColumnFilterOption {
+  value: string
+  label: string
+}
+
+// Column filter popover props
+interface DynTableColumnFilterProps {
+  /** Column title, used for accessible labels */
+  title: string
+  /** Filter control type */
+  type: ColumnFilterType
+  /** Currently applied filter */
+  value?: ColumnFilterValue | undefined
+  /** Options for enum filters */
+  options?: ColumnFilterOption[]
+  /** Called with the new filter, or null when the filter is cleared */
+  onChange: (filter: ColumnFilterValue | null) => void
+}
+
+// Date-only key (YYYY-MM-DD) used to compare dates regardless of time
+function toDateKey(value: unknown): string | null {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value.slice(0, 10)
+  }
+
+  const date = value instanceof Date ? value : new Date(value as string | number)
+  if (value === null || value === undefined || Number.isNaN(date.getTime())) return null
+
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Whether a filter constrains anything
+ */
+export function isColumnFilterActive(filter: ColumnFilterValue | undefined): boolean {
+  if (!filter) return false
+
+  switch (filter.type) {
+    case 'text':
+      return filter.value.trim() !== ''
+    case 'number':
+      return filter.min !== undefined || filter.max !== undefined
+    case 'date':
+      return Boolean(filter.from || filter.to)
+    case 'enum':
+      return filter.values.length > 0
+  }
+}
+
+/**
+ * Tests a cell value against a column filter
+ */
+export function matchesColumnFilter(value: unknown, filter: ColumnFilterValue): boolean {
+  if (!isColumnFilterActive(filter)) return true
+
+  switch (filter.type) {
+    case 'text': {
+      const cell = String(value ?? '').toLowerCase()
+      const query = filter.value.trim().toLowerCase()
+      return filter.operator === 'equals' ? cell === query : cell.includes(query)
+    }
+    case 'number': {
+      const cell = typeof value === 'number' ? value : Number(value)
+      if (value === null || value === undefined || Number.isNaN(cell)) return false
+      if (filter.min !== undefined && cell < filter.min) return false
+      if (filter.max !== undefined && cell > filter.max) return false
+      return true
+    }
+    case 'date': {
+      const cell = toDateKey(value)
+      if (!cell) return false
+      if (filter.from && cell < filter.from) return false
+      if (filter.to && cell > filter.to) return false
+      return true
+    }
+    case 'enum':
+      return filter.values.includes(String(value ?? ''))
+  }
+}
+
+// Empty filter value for a filter type
+function createEmptyFilter(type: ColumnFilterType): ColumnFilterValue {
+  switch (type) {
+    case 'text':
+      return { type, operator: 'contains', value: '' }
+    case 'number':
+      return { type }
+    case 'date':
+      return { type }
+    case 'enum':
+      return { type, values: [] }
+  }
+}
+
+// Parses a number input, keeping empty input as "no bound"
+function parseBound(input: string): number | undefined {
+  if (input.trim() === '') return undefined
+  const parsed = Number(input)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * DynTableColumnFilter - Header filter button with a typed filter popover
+ */
+export function DynTableColumnFilter({
+  title,
+  type,
+  value,
+  options = [],
+  onChange,
+}: DynTableColumnFilterProps) {
+  const popoverId = useId()
+  const { isOpen, toggle, close, containerRef } = useDropdown()
+  const [draft, setDraft] = useState<ColumnFilterValue>(value ?? createEmptyFilter(type))
+  const isActive = isColumnFilterActive(value)
+
+  // Start from the applied filter whenever the popover opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(value && value.type === type ? value : createEmptyFilter(type))
+    }
+  }, [isOpen, value, type])
+
+  const handleApply = (event: React.FormEvent) => {
+    event.preventDefault()
+    onChange(isColumnFilterActive(draft) ? draft : null)
+    close()
+  }
+
+  const handleReset = () => {
+    onChange(null)
+    close()
+  }
+
+  const renderFields = () => {
+    switch (draft.type) {
+      case 'text':
+        return (
+          <>
+            <select
+              className="dyn-table-filter__select"
+              aria-label={`${title} filter operator`}
+              value={draft.operator}
+              onChange={(e) => setDraft({ ...draft, operator: e.target.value as TextFilterOperator })}
+            >
+              <option value="contains">Contains</option>
+              <option value="equals">Equals</option>
+            </select>
+            <input
+              type="text"
+              className="dyn-table-filter__input"
+              aria-label={`${title} filter value`}
+              value={draft.value}
+              onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+              autoFocus
+            />
+          </>
+        )
+      case 'number': {
+        const setBound = (bound: 'min' | 'max', input: string) => {
+          const next: ColumnFilterValue = { type: 'number' }
+          const min = bound === 'min' ? parseBound(input) : draft.min
+          const max = bound === 'max' ? parseBound(input) : draft.max
+          if (min !== undefined) next.min = min
+          if (max !== undefined) next.max = max
+          setDraft(next)
+        }
+
+        return (
+          <div className="dyn-table-filter__range">
+            <input
+              type="number"
+              className="dyn-table-filter__input"
+              aria-label={`${title} minimum`}
+              placeholder="Min"
+              value={draft.min ?? ''}
+              onChange={(e) => setBound('min', e.target.value)}
+              autoFocus
+            />
+            <input
+              type="number"
+              className="dyn-table-filter__input"
+              aria-label={`${title} maximum`}
+              placeholder="Max"
+              value={draft.max ?? ''}
+              onChange={(e) => setBound('max', e.target.value)}
+            />
+          </div>
+        )
+      }
+      case 'date': {
+        const setBound = (bound: 'from' | 'to', input: string) => {
+          const next: ColumnFilterValue = { type: 'date' }
+          const from = bound === 'from' ? input : draft.from
+          const to = bound === 'to' ? input : draft.to
+          if (from) next.from = from
+          if (to) next.to = to
+          setDraft(next)
+        }
+
+        return (
+          <div className="dyn-table-filter__range">
+            <input
+              type="date"
+              className="dyn-table-filter__input"
+              aria-label={`${title} from`}
+              value={draft.from ?? ''}
+              onChange={(e) => setBound('from', e.target.value)}
+              autoFocus
+            />
+            <input
+              type="date"
+              className="dyn-table-filter__input"
+              aria-label={`${title} to`}
+              value={draft.to ?? ''}
+              onChange={(e) => setBound('to', e.target.value)}
+            />
+          </div>
+        )
+      }
+      case 'enum':
+        return (
+          <fieldset className="dyn-table-filter__options">
+            <legend className="dyn-table-filter__legend">{title}</legend>
+            {options.map(option => (
+              <label key={option.value} className="dyn-table-filter__option">
+                <input
+                  type="checkbox"
+                  checked={draft.values.includes(option.value)}
+                  onChange={(e) => setDraft({
+                    type: 'enum',
+                    values: e.target.checked
+                      ? [...draft.values, option.value]
+                      : draft.values.filter(v => v !== option.value)
+                  })}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+            {options.length === 0 && (
+              <span className="dyn-table-filter__empty">No values</span>
+            )}
+          </fieldset>
+        )
+    }
+  }
+
+  return (
+    <span
+      ref={containerRef as MutableRefObject<HTMLSpanElement | null>}
+      className="dyn-table-filter"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        className={cn(
+          'dyn-table-filter__trigger',
+          isActive && 'dyn-table-filter__trigger--active'
+        )}
+        aria-label={`Filter ${title}`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? popoverId : undefined}
+        aria-pressed={isActive}
+        onClick={toggle}
+      >
+        <svg viewBox="0 0 16 16" fill="currentColor" aria-hidden="true">
+          <path d="M1.5 2h13a.5.5 0 01.39.81L10 9.02V13.5a.5.5 0 01-.28.45l-3 1.5A.5.5 0 016 15V9.02L1.11 2.81A.5.5 0 011.5 2z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <form
+          id={popoverId}
+          role="dialog"
+          aria-label={`Filter ${title}`}
+          className="dyn-table-filter__popover"
+          onSubmit={handleApply}
+        >
+          <div className="dyn-table-filter__fields">
+            {renderFields()}
+          </div>
+
+          <div className="dyn-table-filter__actions">
+            <button
+              type="button"
+              className="dyn-table-filter__button"
+              onClick={handleReset}
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="dyn-table-filter__button dyn-table-filter__button--primary"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+    </span>
+  )
+}
+
+// Export types
+export type {
+  DynTableColumnFilterProps,
+  ColumnFilterType,
+  ColumnFilterValue,
+  ColumnFilterOption,
+  TextFilterOperator
+}
+export default DynTableColumnFilter
@@ -1,8 +1,20 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react'
+import React, { forwardRef, useState, useCallback, useEffect, useId, useImperativeHandle, useMemo, useRef } from 'react'
 import { cn } from '../utils/classNames'
 import type { Size } from '../types/common.types'
 import { DynCheckboxEnhanced } from './dyn-checkbox-enhanced'
 import { DynIcon, ChevronDownIcon } from './dyn-icon'
+import { DynTableColumnFilter, matchesColumnFilter } from './dyn-table-column-filter'
+import { DynTableColumnChooser } from './dyn-table-column-chooser'
+import { DynTableCellEditor } from './dyn-table-cell-editor'
+import type { CellEditor, CellEditMove } from './dyn-table-cell-editor'
+import type { ColumnFilterType, ColumnFilterValue, ColumnFilterOption } from './dyn-table-column-filter'
+import { useVirtualList } from '../hooks/use-virtual-list'
+import { useRemoteData } from '../hooks/use-remote-data'
+import { useControlled } from '../hooks/use-controlled'
+import type { ValidationRule } from '../hooks/use-enhanced-validation'
+import { EXPORT_MIME_TYPES, downloadTextFile, serializeRecords } from '../utils/table-export'
+import type { ExportColumn, ExportFormat } from '../utils/table-export'
+import type { RemoteRequestOptions } from '../hooks/use-remote-data'
 
 // Table column definition
 interface TableColumn<T = any> {
@@ -16,29 +28,200 @@ interface TableColumn<T = any> {
   render?: (value: any, record: T, index: number) => React.ReactNode
   /** Column width */
   width?: number | string
+  /** Minimum width in pixels when resizing */
+  minWidth?: number
+  /** Maximum width in pixels when resizing */
+  maxWidth?: number
+  /** Whether the column can be resized when column resizing is enabled */
+  resizable?: boolean
+  /** Whether the column can be hidden from the column chooser */
+  hideable?: boolean
   /** Whether column is sortable */
   sortable?: boolean
+  /** Custom ascending comparator; the table applies the sort direction */
+  sorter?: (a: T, b: T) => number
   /** Whether column is filterable */
   filterable?: boolean
+  /** Filter control shown for filterable columns (defaults to text) */
+  filterType?: ColumnFilterType
+  /** Enum filter options; distinct column values are used when omitted */
+  filterOptions?: ColumnFilterOption[]
   /** Column alignment */
   align?: 'left' | 'center' | 'right'
-  /** Whether column is fixed */
+  /** Pin the column to the left or right edge while scrolling horizontally */
   fixed?: 'left' | 'right'
+  /** Allow inline editing (double-click, Enter or F2); requires `onCellEdit` */
+  editable?: boolean | ((record: T) => boolean)
+  /** Inline editor control (defaults to a text input) */
+  editor?: CellEditor
+  /** Rules checked before an edited value is committed */
+  validation?: ValidationRule[]
+  /** Value used to bucket records when grouping by this column (defaults to the cell value) */
+  groupValue?: (record: T) => unknown
+  /** Group header label (defaults to the group value) */
+  renderGroupLabel?: (value: unknown, records: T[]) => React.ReactNode
+  /** Aggregates shown in group subtotals and the grand total */
+  aggregate?: AggregateType | AggregateType[]
+  /** Formats an aggregate value; null means no numeric values were found */
+  formatAggregate?: (value: number | null, type: AggregateType) => React.ReactNode
+  /** Whether the column is included in exports (default true) */
+  exportable?: boolean
+  /** Value written to exports (defaults to the cell value) */
+  exportFormatter?: (value: unknown, record: T) => unknown
   /** Custom className for column */
   className?: string
 }
 
-// Sort configuration
+// Rows included in an export; in server mode only the loaded page is
+// available, so every scope is limited to it
+type TableExportScope = 'view' | 'selected' | 'all'
+
+// Export options
+interface TableExportOptions {
+  /** File format (default csv) */
+  format?: ExportFormat
+  /**
+   * Filtered and sorted rows, selected rows (including ones the filters
+   * hide) or every row (default view). In server mode every scope covers
+   * the loaded page only; fetch the full dataset through the adapter to
+   * export it.
+   */
+  scope?: TableExportScope
+  /** Column keys to export in order (defaults to the visible exportable columns) */
+  columns?: string[]
+  /** Write a header row (CSV and TSV only, default true) */
+  includeHeaders?: boolean
+  /** Prefix a byte order mark for Excel (CSV and TSV only) */
+  bom?: boolean
+  /** Neutralize text that spreadsheets would run as a formula */
+  escapeFormulas?: boolean
+}
+
+// Download options
+interface TableDownloadOptions extends TableExportOptions {
+  /** File name without extension (default "export") */
+  filename?: string
+}
+
+// Table reference methods
+interface DynTableEnhancedRef<T = any> {
+  /** Records in an export scope, in export order */
+  getExportRows: (scope?: TableExportScope) => T[]
+  /** Serializes rows to CSV, TSV or JSON */
+  exportData: (options?: TableExportOptions) => string
+  /** Serializes rows and downloads them as a file */
+  downloadData: (options?: TableDownloadOptions) => void
+}
+
+// Aggregate computed over a column for groups and the grand total
+type AggregateType = 'sum' | 'avg' | 'count' | 'min' | 'max'
+
+// Sort configuration (one entry per sorted column, in priority order)
 interface SortConfig {
   key: string
   direction: 'asc' | 'desc'
 }
 
-// Filter configuration  
+// Options for the built-in comparator
+interface SortOptions {
+  /** Locale(s) used to collate string values */
+  locale?: string | string[]
+  /** Intl.Collator options used for string values */
+  collatorOptions?: Intl.CollatorOptions
+  /** Where null and undefined values go, regardless of sort direction */
+  nulls?: 'first' | 'last'
+}
+
+// Filter configuration, keyed by column key
 interface FilterConfig {
-  [key: string]: string
+  [key: string]: ColumnFilterValue
+}
+
+// Inline edit submitted to onCellEdit
+interface CellEditChange<T> {
+  record: T
+  rowKey: string
+  rowIndex: number
+  columnKey: string
+  value: unknown
+  previousValue: unknown
+}
+
+// Cell currently being edited
+interface EditingCell {
+  rowKey: string
+  columnKey: string
+}
+
+// Expandable rows and tree data configuration
+interface ExpandableConfig<T> {
+  /** Detail panel rendered under an expanded row */
+  expandedRowRender?: (record: T, index: number) => React.ReactNode
+  /** Whether a record has a detail panel (defaults to every record) */
+  rowExpandable?: (record: T) => boolean
+  /** Expanded row keys (controlled) */
+  expandedRowKeys?: string[]
+  /** Initially expanded row keys (uncontrolled) */
+  defaultExpandedRowKeys?: string[]
+  /** Called with every expanded row key whenever rows expand or collapse */
+  onExpandedRowsChange?: (expandedKeys: string[]) => void
+  /** Called when a single row expands or collapses */
+  onExpand?: (expanded: boolean, record: T) => void
+  /** Record property holding child records for tree data */
+  childrenColumnName?: string
+  /** Indentation per tree level in pixels */
+  indentSize?: number
+}
+
+// Record row in the rendered body, flattened from tree data
+interface RecordDisplayRow<T> {
+  type: 'record'
+  record: T
+  rowKey: string
+  /** Position among sibling records */
+  index: number
+  /** 1-based position among all rendered record rows */
+  rowNumber: number
+  depth: number
+  isExpandable: boolean
+  isExpanded: boolean
+}
+
+// Detail panel row rendered under an expanded record
+interface DetailDisplayRow<T> {
+  type: 'detail'
+  record: T
+  rowKey: string
+  index: number
+}
+
+// Collapsible header opening a group of rows
+interface GroupDisplayRow<T> {
+  type: 'group'
+  /** Path of group values from the outermost grouping */
+  groupKey: string
+  column: TableColumn<T>
+  value: unknown
+  /** Every record in the group, across pages */
+  records: T[]
+  depth: number
+  isCollapsed: boolean
+}
+
+// Aggregates closing a group of rows
+interface SubtotalDisplayRow<T> {
+  type: 'subtotal'
+  groupKey: string
+  records: T[]
+  depth: number
 }
 
+type DisplayRow<T> =
+  | RecordDisplayRow<T>
+  | DetailDisplayRow<T>
+  | GroupDisplayRow<T>
+  | SubtotalDisplayRow<T>
+
 // Selection configuration
 interface SelectionConfig<T> {
   selectedRowKeys: string[]
@@ -46,6 +229,195 @@ interface SelectionConfig<T> {
   getRowKey: (record: T) => string
 }
 
+// Query describing the page the table needs in server mode
+interface TableQuery {
+  sort: SortConfig[]
+  filters: FilterConfig
+  pagination: { current: number; pageSize: number } | null
+}
+
+// One page of server data
+interface TableQueryResult<T> {
+  data: T[]
+  /** Total number of records matching the query */
+  total: number
+}
+
+// Adapter that loads pages from a server in server mode
+interface TableDataAdapter<T> {
+  fetch: (query: TableQuery, options: RemoteRequestOptions) => Promise<TableQueryResult<T>>
+}
+
+// Serializable column layout, suitable for persisting per user
+interface ColumnLayoutState {
+  /** Column keys in display order */
+  order: string[]
+  /** Widths in pixels set by resizing, keyed by column key */
+  widths: Record<string, number>
+  /** Keys of hidden columns */
+  hidden: string[]
+}
+
+// Layout key of the row selection column
+const SELECTION_COLUMN_KEY = '__selection__'
+
+// Layout key of the row expansion column
+const EXPAND_COLUMN_KEY = '__expand__'
+
+// Default indentation per tree level
+const DEFAULT_INDENT_SIZE = 16
+
+const AGGREGATE_LABELS: Record<AggregateType, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Min',
+  max: 'Max'
+}
+
+const aggregateFormatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 })
+
+// Sticky position of a pinned cell
+interface PinnedCellPosition {
+  side: 'left' | 'right'
+  /** Distance from the pinned edge in pixels */
+  offset: number
+  /** Whether the cell borders the scrolling columns */
+  edge: boolean
+}
+
+// Default minimum width of a resized column
+const MIN_COLUMN_WIDTH = 48
+
+// Width change per arrow key press on a resize handle
+const RESIZE_KEYBOARD_STEP = 10
+
+// Virtualized rendering configuration
+interface VirtualConfig {
+  /** Fixed row height in pixels; rows are measured when omitted */
+  rowHeight?: number
+  /** Row height assumed until a row has been measured */
+  estimatedRowHeight?: number
+  /** Number of rows rendered above and below the visible window */
+  overscan?: number
+}
+
+// Estimated row heights per size, used before rows are measured
+const ESTIMATED_ROW_HEIGHTS: Record<Size, number> = {
+  sm: 36,
+  md: 48,
+  lg: 56
+}
+
+// Reads the raw cell value of a record for a column
+function getCellValue<T>(record: T, column: TableColumn<T>): unknown {
+  if (typeof column.dataIndex === 'function') return column.dataIndex(record)
+  if (column.dataIndex !== undefined) return record[column.dataIndex]
+  return record[column.key as keyof T]
+}
+
+// Child records of a tree data record, if it has any
+function getChildRecords<T>(record: T, childrenKey: string): T[] | undefined {
+  const children = (record as Record<string, unknown>)[childrenKey]
+  return Array.isArray(children) && children.length > 0 ? children as T[] : undefined
+}
+
+// Computes an aggregate over the numeric cell values of a column
+function aggregateColumn<T>(records: T[], column: TableColumn<T>, type: AggregateType): number | null {
+  if (type === 'count') return records.length
+  
+  const values = records
+    .map(record => getCellValue(record, column))
+    .filter((value): value is number => typeof value === 'number' && !Number.isNaN(value))
+  if (values.length === 0) return null
+  
+  switch (type) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0)
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length
+    case 'min':
+      return Math.min(...values)
+    case 'max':
+      return Math.max(...values)
+  }
+}
+
+// Value used to bucket a record when grouping by a column
+function getGroupValue<T>(record: T, column: TableColumn<T>): unknown {
+  return column.groupValue ? column.groupValue(record) : getCellValue(record, column)
+}
+
+// Values without a meaningful order
+function isEmptySortValue(value: unknown): boolean {
+  return value === null || value === undefined || (value instanceof Date && Number.isNaN(value.getTime()))
+}
+
+// Ascending comparison of two non-empty cell values
+function compareCellValues(a: unknown, b: unknown, collator: Intl.Collator): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime()
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'bigint' && typeof b === 'bigint') return a < b ? -1 : a > b ? 1 : 0
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b)
+  return collator.compare(String(a), String(b))
+}
+
+// Stable multi-key sort of records
+function sortRecords<T>(
+  records: T[],
+  sorts: SortConfig[],
+  columns: TableColumn<T>[],
+  { locale, collatorOptions, nulls = 'last' }: SortOptions
+): T[] {
+  const criteria = sorts
+    .map(sort => ({ sort, column: columns.find(col => col.key === sort.key) }))
+    .filter((entry): entry is { sort: SortConfig; column: TableColumn<T> } => Boolean(entry.column))
+  
+  if (criteria.length === 0) return records
+  
+  const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base', ...collatorOptions })
+  
+  return [...records].sort((a, b) => {
+    for (const { sort, column } of criteria) {
+      const factor = sort.direction === 'asc' ? 1 : -1
+      let result: number
+      
+      if (column.sorter) {
+        result = column.sorter(a, b) * factor
+      } else {
+        const aValue = getCellValue(a, column)
+        const bValue = getCellValue(b, column)
+        const aEmpty = isEmptySortValue(aValue)
+        const bEmpty = isEmptySortValue(bValue)
+        
+        if (aEmpty || bEmpty) {
+          result = aEmpty === bEmpty ? 0 : (aEmpty ? 1 : -1) * (nulls === 'last' ? 1 : -1)
+        } else {
+          result = compareCellValues(aValue, bValue, collator) * factor
+        }
+      }
+      
+      if (result !== 0) return result
+    }
+    return 0
+  })
+}
+
+// Reconciles a stored layout with the current column definitions
+function normalizeColumnLayout<T>(columns: TableColumn<T>[], layout: ColumnLayoutState): ColumnLayoutState {
+  const keys = columns.map(column => column.key)
+  const order = layout.order.filter(key => keys.includes(key))
+  keys.forEach(key => {
+    if (!order.includes(key)) order.push(key)
+  })
+  
+  return {
+    order,
+    widths: layout.widths,
+    hidden: layout.hidden.filter(key => keys.includes(key))
+  }
+}
+
 // Enhanced DynTable props
 interface DynTableEnhancedProps<T = any> {
   /** Table data */
@@ -69,15 +441,22 @@ interface DynTableEnhancedProps<T = any> {
   
   /** Row selection configuration */
   rowSelection?: SelectionConfig<T>
-  /** Sorting configuration */
-  sortConfig?: SortConfig
-  /** Sort change handler */
-  onSortChange?: (sortConfig: SortConfig | null) => void
+  /** Initial sorting; pass an array to sort by several columns */
+  sortConfig?: SortConfig | SortConfig[]
+  /** Sort change handler, called with the primary sort and all sort keys */
+  onSortChange?: (sortConfig: SortConfig | null, sorts: SortConfig[]) => void
+  /** Comparator options for the built-in sorting */
+  sortOptions?: SortOptions
   /** Filter configuration */
   filterConfig?: FilterConfig
   /** Filter change handler */
   onFilterChange?: (filters: FilterConfig) => void
   
+  /** Column keys to group rows by, outermost first */
+  groupBy?: string[]
+  /** Show a grand-total footer when columns define aggregates */
+  showGrandTotal?: boolean
+  
   /** Pagination configuration */
   pagination?: {
     current: number
@@ -88,23 +467,59 @@ interface DynTableEnhancedProps<T = any> {
     onChange: (page: number, pageSize: number) => void
   }
   
+  /** Stable key for each record; falls back to `rowSelection.getRowKey`, then the row position */
+  rowKey?: (record: T) => string
+  
+  /** Expandable detail rows and tree data (`children` on records) */
+  expandable?: ExpandableConfig<T>
+  
   /** Row click handler */
   onRow?: {
     onClick?: (record: T, index: number) => void
     onDoubleClick?: (record: T, index: number) => void
   }
   
+  /** Persists an inline edit; reject to refuse the change and keep the editor open */
+  onCellEdit?: (change: CellEditChange<T>) => void | Promise<void>
+  
   /** Scroll configuration */
   scroll?: {
     x?: number | string
     y?: number | string
   }
   
+  /** Render only the rows inside the `scroll.y` viewport */
+  virtual?: boolean | VirtualConfig
+  
+  /** Whether sorting, filtering and pagination run locally or on the server */
+  mode?: 'client' | 'server'
+  /** Loads pages in server mode; without it `dataSource` is rendered as given */
+  dataAdapter?: TableDataAdapter<T>
+  /** Called whenever the server query changes in server mode */
+  onQueryChange?: (query: TableQuery) => void
+  /** Called when `dataAdapter.fetch` rejects (superseded requests are ignored) */
+  onDataError?: (error: unknown) => void
+  /** Message shown in place of the rows when loading fails */
+  errorText?: string
+  
+  /** Let users drag column edges to resize columns */
+  resizableColumns?: boolean
+  /** Let users drag headers to reorder columns */
+  reorderableColumns?: boolean
+  /** Show a column chooser for toggling column visibility */
+  columnChooser?: boolean
+  /** Column layout (controlled) */
+  columnLayout?: ColumnLayoutState
+  /** Initial column layout (uncontrolled) */
+  defaultColumnLayout?: Partial<ColumnLayoutState>
+  /** Called with the serializable layout whenever it changes */
+  onColumnLayoutChange?: (layout: ColumnLayoutState) => void
+  
   /** Test identifier */
   'data-testid'?: string
 }
 
-export function DynTableEnhanced<T = any>({
+function DynTableEnhancedInner<T = any>({
   dataSource,
   columns,
   loading = false,
@@ -118,133 +533,592 @@ export function DynTableEnhanced<T = any>({
   rowSelection,
   sortConfig,
   onSortChange,
+  sortOptions,
   filterConfig,
   onFilterChange,
   
   pagination,
+  rowKey: getRecordKey,
+  expandable,
+  groupBy,
+  showGrandTotal = true,
   onRow,
+  onCellEdit,
   scroll,
+  virtual = false,
+  
+  mode = 'client',
+  dataAdapter,
+  onQueryChange,
+  onDataError,
+  errorText = 'Could not load data',
+  
+  resizableColumns = false,
+  reorderableColumns = false,
+  columnChooser = false,
+  columnLayout,
+  defaultColumnLayout,
+  onColumnLayoutChange,
   
   'data-testid': dataTestId,
-}: DynTableEnhancedProps<T>) {
+}: DynTableEnhancedProps<T>, ref: React.ForwardedRef<DynTableEnhancedRef<T>>) {
   const tableRef = useRef<HTMLTableElement>(null)
-  const [internalSortConfig, setInternalSortConfig] = useState<SortConfig | null>(sortConfig || null)
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const headerRef = useRef<HTMLTableSectionElement>(null)
+  const [headerHeight, setHeaderHeight] = useState(0)
+  const [sorts, setSorts] = useState<SortConfig[]>(
+    Array.isArray(sortConfig) ? sortConfig : sortConfig ? [sortConfig] : []
+  )
   const [internalFilters, setInternalFilters] = useState<FilterConfig>(filterConfig || {})
   
+  // Column layout: order, resized widths and visibility
+  const { value: layoutValue, setValue: setLayoutValue } = useControlled<ColumnLayoutState>({
+    value: columnLayout,
+    defaultValue: { order: [], widths: {}, hidden: [], ...defaultColumnLayout },
+    onChange: onColumnLayoutChange
+  })
+  const layout = useMemo(() => normalizeColumnLayout(columns, layoutValue), [columns, layoutValue])
+  const layoutRef = useRef(layout)
+  layoutRef.current = layout
+  
+  const orderedColumns = useMemo(() => (
+    layout.order
+      .map(key => columns.find(column => column.key === key))
+      .filter((column): column is TableColumn<T> => Boolean(column))
+  ), [columns, layout.order])
+  
+  // Pinned columns stay at the table edges regardless of the user's order
+  const visibleColumns = useMemo(() => {
+    const shown = orderedColumns.filter(column => !layout.hidden.includes(column.key))
+    return [
+      ...shown.filter(column => column.fixed === 'left'),
+      ...shown.filter(column => !column.fixed),
+      ...shown.filter(column => column.fixed === 'right')
+    ]
+  }, [orderedColumns, layout.hidden])
+  
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null)
+  const focusCellRef = useRef<EditingCell | null>(null)
+  
+  // Focus returns to the edited cell once its editor closes
+  useEffect(() => {
+    const target = focusCellRef.current
+    if (editingCell || !target || !tableRef.current) return
+    focusCellRef.current = null
+    
+    const id = `${target.rowKey}:${target.columnKey}`
+    Array.from(tableRef.current.querySelectorAll<HTMLElement>('[data-edit-cell]'))
+      .find(cell => cell.dataset.editCell === id)
+      ?.focus()
+  }, [editingCell])
+  
+  const [dragColumnKey, setDragColumnKey] = useState<string | null>(null)
+  const [dropColumnKey, setDropColumnKey] = useState<string | null>(null)
+  const isResizingRef = useRef(false)
+  
+  const updateLayout = useCallback((patch: Partial<ColumnLayoutState>) => {
+    setLayoutValue({ ...layoutRef.current, ...patch })
+  }, [setLayoutValue])
+  
+  const setColumnWidth = useCallback((column: TableColumn<T>, width: number) => {
+    const clamped = Math.round(Math.min(
+      column.maxWidth ?? Infinity,
+      Math.max(column.minWidth ?? MIN_COLUMN_WIDTH, width)
+    ))
+    if (layoutRef.current.widths[column.key] === clamped) return
+    updateLayout({ widths: { ...layoutRef.current.widths, [column.key]: clamped } })
+  }, [updateLayout])
+  
+  // Moves a column to the position currently held by another column
+  const moveColumn = useCallback((sourceKey: string, targetKey: string) => {
+    if (sourceKey === targetKey) return
+    const order = layoutRef.current.order.filter(key => key !== sourceKey)
+    const targetIndex = layoutRef.current.order.indexOf(targetKey)
+    if (targetIndex === -1) return
+    order.splice(targetIndex, 0, sourceKey)
+    updateLayout({ order })
+  }, [updateLayout])
+  
+  // Moves a column one step among the given neighbours
+  const moveColumnBy = useCallback((key: string, offset: -1 | 1, neighbours: string[]) => {
+    const target = neighbours[neighbours.indexOf(key) + offset]
+    if (target !== undefined) moveColumn(key, target)
+  }, [moveColumn])
+  
+  const toggleColumn = useCallback((key: string, visible: boolean) => {
+    const hidden = layoutRef.current.hidden.filter(hiddenKey => hiddenKey !== key)
+    updateLayout({ hidden: visible ? hidden : [...hidden, key] })
+  }, [updateLayout])
+  
+  const startColumnResize = (event: React.PointerEvent<HTMLElement>, column: TableColumn<T>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    
+    const headerCell = event.currentTarget.closest('th')
+    const startX = event.clientX
+    const startWidth = headerCell?.getBoundingClientRect().width ?? 0
+    isResizingRef.current = true
+    
+    const handleMove = (moveEvent: PointerEvent) => {
+      setColumnWidth(column, startWidth + moveEvent.clientX - startX)
+    }
+    const handleUp = () => {
+      isResizingRef.current = false
+      document.removeEventListener('pointermove', handleMove)
+      document.removeEventListener('pointerup', handleUp)
+    }
+    
+    document.addEventListener('pointermove', handleMove)
+    document.addEventListener('pointerup', handleUp)
+  }
+  
+  const handleResizeKeyDown = (event: React.KeyboardEvent<HTMLElement>, column: TableColumn<T>) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return
+    event.preventDefault()
+    event.stopPropagation()
+    
+    const currentWidth = layoutRef.current.widths[column.key]
+      ?? event.currentTarget.closest('th')?.getBoundingClientRect().width
+      ?? 0
+    const step = event.shiftKey ? RESIZE_KEYBOARD_STEP * 5 : RESIZE_KEYBOARD_STEP
+    setColumnWidth(column, currentWidth + (event.key === 'ArrowRight' ? step : -step))
+  }
+  
+  // In server mode the table only describes the data it needs
+  const isServerMode = mode === 'server'
+  const serverQuery = useMemo<TableQuery>(() => ({
+    sort: sorts,
+    filters: internalFilters,
+    pagination: pagination
+      ? { current: pagination.current, pageSize: pagination.pageSize }
+      : null
+  }), [sorts, internalFilters, pagination])
+  
+  const remote = useRemoteData({
+    query: serverQuery,
+    fetcher: dataAdapter
+      ? (query: TableQuery, options: RemoteRequestOptions) => dataAdapter.fetch(query, options)
+      : undefined,
+    enabled: isServerMode && Boolean(dataAdapter),
+    onError: onDataError
+  })
+  
+  // Notify about query changes after the initial render
+  const serverQueryKey = JSON.stringify(serverQuery)
+  const lastQueryKeyRef = useRef(serverQueryKey)
+  useEffect(() => {
+    if (!isServerMode || lastQueryKeyRef.current === serverQueryKey) return
+    lastQueryKeyRef.current = serverQueryKey
+    onQueryChange?.(serverQuery)
+  }, [isServerMode, serverQueryKey, serverQuery, onQueryChange])
+  
+  const remoteRows = remote.data?.data
+  const rows = useMemo(
+    () => (isServerMode && dataAdapter ? remoteRows ?? [] : dataSource),
+    [isServerMode, dataAdapter, remoteRows, dataSource]
+  )
+  const totalCount = isServerMode && remote.data ? remote.data.total : pagination?.total ?? 0
+  const isLoading = loading || remote.loading
+  // The rows of the previous response no longer match the query
+  const loadFailed = isServerMode && Boolean(dataAdapter) && remote.error !== undefined
+  
+  // A new sort order or filter invalidates the current server page
+  const resetServerPage = useCallback(() => {
+    if (isServerMode && pagination && pagination.current !== 1) {
+      pagination.onChange(1, pagination.pageSize)
+    }
+  }, [isServerMode, pagination])
+  
   // Handle sorting
-  const handleSort = useCallback((columnKey: string) => {
-    const newSortConfig: SortConfig = {
-      key: columnKey,
-      direction: 
-        internalSortConfig?.key === columnKey && internalSortConfig.direction === 'asc'
-          ? 'desc'
-          : 'asc'
+  // Plain activation sorts by one column; additive (shift) activation
+  // appends the column, flips it, and finally removes it from the sort keys
+  const handleSort = useCallback((columnKey: string, additive = false) => {
+    const existing = sorts.find(sort => sort.key === columnKey)
+    let nextSorts: SortConfig[]
+    
+    if (!additive) {
+      nextSorts = [{
+        key: columnKey,
+        direction: sorts.length === 1 && existing?.direction === 'asc' ? 'desc' : 'asc'
+      }]
+    } else if (!existing) {
+      nextSorts = [...sorts, { key: columnKey, direction: 'asc' }]
+    } else if (existing.direction === 'asc') {
+      nextSorts = sorts.map(sort => sort.key === columnKey ? { key: columnKey, direction: 'desc' } : sort)
+    } else {
+      nextSorts = sorts.filter(sort => sort.key !== columnKey)
+    }
+    
+    setSorts(nextSorts)
+    onSortChange?.(nextSorts[0] ?? null, nextSorts)
+    resetServerPage()
+  }, [sorts, onSortChange, resetServerPage])
+  
+  // Handle column filter changes from the header popovers
+  const handleFilterChange = useCallback((columnKey: string, filter: ColumnFilterValue | null) => {
+    const nextFilters: FilterConfig = { ...internalFilters }
+    if (filter) {
+      nextFilters[columnKey] = filter
+    } else {
+      delete nextFilters[columnKey]
+    }
+    
+    setInternalFilters(nextFilters)
+    onFilterChange?.(nextFilters)
+    resetServerPage()
+  }, [internalFilters, onFilterChange, resetServerPage])
+  
+  // Enum filter options default to the distinct values of the column
+  const filterOptions = useMemo(() => {
+    const optionsByColumn: Record<string, ColumnFilterOption[]> = {}
+    
+    columns.forEach(column => {
+      if (!column.filterable || column.filterType !== 'enum') return
+      
+      if (column.filterOptions) {
+        optionsByColumn[column.key] = column.filterOptions
+        return
+      }
+      
+      const distinct = new Set<string>()
+      rows.forEach(record => {
+        const value = getCellValue(record, column)
+        if (value !== null && value !== undefined && value !== '') {
+          distinct.add(String(value))
+        }
+      })
+      optionsByColumn[column.key] = Array.from(distinct)
+        .sort((a, b) => a.localeCompare(b))
+        .map(value => ({ value, label: value }))
+    })
+    
+    return optionsByColumn
+  }, [columns, rows])
+  
+  // Expandable rows and tree data
+  const childrenKey = expandable?.childrenColumnName ?? 'children'
+  const isTreeData = Boolean(expandable) && rows.some(record => getChildRecords(record, childrenKey))
+  const hasExpandColumn = Boolean(expandable?.expandedRowRender)
+  const detailIdPrefix = useId()
+  
+  const { value: expandedRowKeys, setValue: setExpandedRowKeys } = useControlled<string[]>({
+    value: expandable?.expandedRowKeys,
+    defaultValue: expandable?.defaultExpandedRowKeys ?? [],
+    onChange: expandable?.onExpandedRowsChange
+  })
+  
+  const toggleRowExpanded = (row: RecordDisplayRow<T>) => {
+    const expanded = !row.isExpanded
+    setExpandedRowKeys(expanded
+      ? [...expandedRowKeys, row.rowKey]
+      : expandedRowKeys.filter(key => key !== row.rowKey))
+    expandable?.onExpand?.(expanded, row.record)
+  }
+  
+  // Parent/child relations used to cascade selection through tree data
+  const selectionTree = useMemo(() => {
+    if (!rowSelection || !isTreeData) return null
+    
+    const parents = new Map<string, string>()
+    const children = new Map<string, string[]>()
+    const records = new Map<string, T>()
+    
+    const visit = (list: T[], parentKey: string | null) => {
+      list.forEach(record => {
+        const key = rowSelection.getRowKey(record)
+        records.set(key, record)
+        if (parentKey !== null) parents.set(key, parentKey)
+        
+        const childRecords = getChildRecords(record, childrenKey)
+        if (childRecords) {
+          children.set(key, childRecords.map(rowSelection.getRowKey))
+          visit(childRecords, key)
+        }
+      })
     }
+    visit(rows, null)
+    
+    return { parents, children, records }
+  }, [rowSelection, isTreeData, rows, childrenKey])
+  
+  // Parents with some, but not all, descendants selected
+  const partiallySelectedKeys = useMemo(() => {
+    const partial = new Set<string>()
+    if (!rowSelection || !selectionTree) return partial
+    
+    const selected = new Set(rowSelection.selectedRowKeys)
+    rowSelection.selectedRowKeys.forEach(key => {
+      let parent = selectionTree.parents.get(key)
+      while (parent !== undefined && !selected.has(parent) && !partial.has(parent)) {
+        partial.add(parent)
+        parent = selectionTree.parents.get(parent)
+      }
+    })
     
-    setInternalSortConfig(newSortConfig)
-    onSortChange?.(newSortConfig)
-  }, [internalSortConfig, onSortChange])
+    return partial
+  }, [rowSelection, selectionTree])
   
   // Handle row selection
   const handleRowSelect = useCallback((rowKey: string, selected: boolean) => {
     if (!rowSelection) return
     
+    if (selectionTree) {
+      const next = new Set(rowSelection.selectedRowKeys)
+      
+      // Selection flows down to every descendant...
+      const cascade = (key: string) => {
+        if (selected) next.add(key)
+        else next.delete(key)
+        selectionTree.children.get(key)?.forEach(cascade)
+      }
+      cascade(rowKey)
+      
+      // ...and up to ancestors whose children are now all selected
+      let parent = selectionTree.parents.get(rowKey)
+      while (parent !== undefined) {
+        const siblings = selectionTree.children.get(parent) ?? []
+        if (siblings.every(key => next.has(key))) next.add(parent)
+        else next.delete(parent)
+        parent = selectionTree.parents.get(parent)
+      }
+      
+      const keys = Array.from(next)
+      rowSelection.onSelect?.(keys, keys.flatMap(key => {
+        const record = selectionTree.records.get(key)
+        return record === undefined ? [] : [record]
+      }))
+      return
+    }
+    
     const newSelectedKeys = selected
       ? [...rowSelection.selectedRowKeys, rowKey]
       : rowSelection.selectedRowKeys.filter(key => key !== rowKey)
     
-    const selectedRows = dataSource.filter(record => 
+    const selectedRows = rows.filter(record => 
       newSelectedKeys.includes(rowSelection.getRowKey(record))
     )
     
     rowSelection.onSelect?.(newSelectedKeys, selectedRows)
-  }, [rowSelection, dataSource])
+  }, [rowSelection, rows, selectionTree])
   
   // Handle select all
   const handleSelectAll = useCallback((selected: boolean) => {
     if (!rowSelection) return
     
-    const allRowKeys = dataSource.map(rowSelection.getRowKey)
-    const newSelectedKeys = selected ? allRowKeys : []
-    const selectedRows = selected ? dataSource : []
+    const allRows = selectionTree ? Array.from(selectionTree.records.values()) : rows
+    const newSelectedKeys = selected ? allRows.map(rowSelection.getRowKey) : []
+    const selectedRows = selected ? allRows : []
     
     rowSelection.onSelect?.(newSelectedKeys, selectedRows)
-  }, [rowSelection, dataSource])
+  }, [rowSelection, rows, selectionTree])
   
   // Calculate selection state
   const selectionState = useMemo(() => {
-    if (!rowSelection || dataSource.length === 0) {
+    if (!rowSelection || rows.length === 0) {
       return { checked: false, indeterminate: false }
     }
     
     const selectedCount = rowSelection.selectedRowKeys.length
-    const totalCount = dataSource.length
+    const rowCount = selectionTree ? selectionTree.records.size : rows.length
     
     return {
-      checked: selectedCount === totalCount,
-      indeterminate: selectedCount > 0 && selectedCount < totalCount
+      checked: selectedCount === rowCount,
+      indeterminate: selectedCount > 0 && selectedCount < rowCount
     }
-  }, [rowSelection, dataSource])
+  }, [rowSelection, rows, selectionTree])
   
   // Apply sorting and filtering
   const processedData = useMemo(() => {
-    let result = [...dataSource]
+    if (isServerMode) return rows
+    
+    let result = [...rows]
     
     // Apply filters
     Object.entries(internalFilters).forEach(([key, filterValue]) => {
-      if (!filterValue) return
+      const column = columns.find(col => col.key === key)
+      if (!column || !filterValue) return
       
-      result = result.filter(record => {
-        const column = columns.find(col => col.key === key)
-        if (!column) return true
-        
-        const value = column.dataIndex
-          ? typeof column.dataIndex === 'function'
-            ? column.dataIndex(record)
-            : record[column.dataIndex]
-          : record[key as keyof T]
-          
-        return String(value).toLowerCase().includes(filterValue.toLowerCase())
-      })
+      result = result.filter(record => matchesColumnFilter(getCellValue(record, column), filterValue))
     })
     
     // Apply sorting
-    if (internalSortConfig) {
-      const { key, direction } = internalSortConfig
-      const column = columns.find(col => col.key === key)
-      
-      if (column) {
-        result.sort((a, b) => {
-          const aValue = column.dataIndex
-            ? typeof column.dataIndex === 'function'
-              ? column.dataIndex(a)
-              : a[column.dataIndex]
-            : a[key as keyof T]
-            
-          const bValue = column.dataIndex
-            ? typeof column.dataIndex === 'function'
-              ? column.dataIndex(b)
-              : b[column.dataIndex]
-            : b[key as keyof T]
-          
-          if (aValue < bValue) return direction === 'asc' ? -1 : 1
-          if (aValue > bValue) return direction === 'asc' ? 1 : -1
-          return 0
-        })
-      }
-    }
-    
-    return result
-  }, [dataSource, internalFilters, internalSortConfig, columns])
+    return sortRecords(result, sorts, columns, sortOptions ?? {})
+  }, [isServerMode, rows, internalFilters, sorts, columns, sortOptions])
   
   // Pagination slice
   const paginatedData = useMemo(() => {
-    if (!pagination) return processedData
+    if (!pagination || isServerMode) return processedData
     
     const start = (pagination.current - 1) * pagination.pageSize
     const end = start + pagination.pageSize
     return processedData.slice(start, end)
-  }, [processedData, pagination])
+  }, [processedData, pagination, isServerMode])
+  
+  // Grouping runs after filtering and sorting, so groups appear in the
+  // order of their first row; pagination counts records, not group headers
+  const groupColumns = useMemo(() => (
+    (groupBy ?? [])
+      .map(key => columns.find(column => column.key === key))
+      .filter((column): column is TableColumn<T> => Boolean(column))
+  ), [groupBy, columns])
+  
+  const hasAggregates = columns.some(column => column.aggregate)
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([])
+  
+  const toggleGroupCollapsed = (groupKey: string) => {
+    setCollapsedGroups(current => current.includes(groupKey)
+      ? current.filter(key => key !== groupKey)
+      : [...current, groupKey])
+  }
+  
+  // Records of every group across all pages, keyed by group path
+  const groupedRecords = useMemo(() => {
+    const groups = new Map<string, T[]>()
+    
+    processedData.forEach(record => {
+      const path: string[] = []
+      groupColumns.forEach(column => {
+        path.push(String(getGroupValue(record, column) ?? ''))
+        const groupKey = JSON.stringify(path)
+        const records = groups.get(groupKey)
+        if (records) records.push(record)
+        else groups.set(groupKey, [record])
+      })
+    })
+    
+    return groups
+  }, [processedData, groupColumns])
+  
+  // Rows as rendered: group headers and subtotals wrap their records, and
+  // expanded children and detail panels follow their parent
+  const displayRows = useMemo(() => {
+    const result: DisplayRow<T>[] = []
+    const expandedKeys = new Set(expandedRowKeys)
+    let rowNumber = 0
+    
+    // Grouping reorders the page; callbacks still get each record's position in it
+    const pagePositions = groupColumns.length > 0
+      ? new Map(paginatedData.map((record, position) => [record, position]))
+      : null
+    
+    const visit = (records: T[], depth: number, parentKey: string | null) => {
+      records.forEach((record, siblingIndex) => {
+        const index = depth === 0 ? pagePositions?.get(record) ?? siblingIndex : siblingIndex
+        const fallbackKey = parentKey === null ? String(siblingIndex) : `${parentKey}-${siblingIndex}`
+        const rowKey = getRecordKey?.(record) ?? rowSelection?.getRowKey(record) ?? fallbackKey
+        const children = isTreeData ? getChildRecords(record, childrenKey) : undefined
+        const hasDetail = hasExpandColumn && (expandable?.rowExpandable?.(record) ?? true)
+        const isExpandable = Boolean(children) || hasDetail
+        const isExpanded = isExpandable && expandedKeys.has(rowKey)
+        
+        rowNumber += 1
+        result.push({ type: 'record', record, rowKey, index, rowNumber, depth, isExpandable, isExpanded })
+        if (!isExpanded) return
+        
+        if (hasDetail) result.push({ type: 'detail', record, rowKey, index })
+        if (children) {
+          // Children follow the table sort within their parent
+          const sortedChildren = isServerMode ? children : sortRecords(children, sorts, columns, sortOptions ?? {})
+          visit(sortedChildren, depth + 1, rowKey)
+        }
+      })
+    }
+    
+    const visitGroups = (records: T[], depth: number, path: string[]) => {
+      const column = groupColumns[depth]
+      if (!column) {
+        visit(records, 0, JSON.stringify(path))
+        return
+      }
+      
+      const buckets = new Map<string, { value: unknown; records: T[] }>()
+      records.forEach(record => {
+        const value = getGroupValue(record, column)
+        const bucketKey = String(value ?? '')
+        const bucket = buckets.get(bucketKey)
+        if (bucket) bucket.records.push(record)
+        else buckets.set(bucketKey, { value, records: [record] })
+      })
+      
+      buckets.forEach((bucket, bucketKey) => {
+        const groupPath = [...path, bucketKey]
+        const groupKey = JSON.stringify(groupPath)
+        const groupRecords = groupedRecords.get(groupKey) ?? bucket.records
+        const isCollapsed = collapsedGroups.includes(groupKey)
+        
+        result.push({ type: 'group', groupKey, column, value: bucket.value, records: groupRecords, depth, isCollapsed })
+        if (!isCollapsed) visitGroups(bucket.records, depth + 1, groupPath)
+        if (hasAggregates) result.push({ type: 'subtotal', groupKey, records: groupRecords, depth })
+      })
+    }
+    
+    if (groupColumns.length > 0) {
+      visitGroups(paginatedData, 0, [])
+    } else {
+      visit(paginatedData, 0, null)
+    }
+    
+    return result
+  }, [
+    paginatedData,
+    groupColumns,
+    groupedRecords,
+    collapsedGroups,
+    hasAggregates,
+    expandedRowKeys,
+    getRecordKey,
+    rowSelection,
+    isTreeData,
+    childrenKey,
+    hasExpandColumn,
+    expandable,
+    isServerMode,
+    sorts,
+    columns,
+    sortOptions
+  ])
+  
+  // Virtualization only applies when the body scrolls vertically
+  const virtualConfig: VirtualConfig | null = virtual ? (virtual === true ? {} : virtual) : null
+  const isVirtual = Boolean(virtualConfig && scroll?.y)
+  
+  const getVirtualRowKey = useCallback((index: number) => {
+    const row = displayRows[index]
+    if (!row) return index
+    
+    switch (row.type) {
+      case 'record':
+        return row.rowKey
+      case 'detail':
+        return `${row.rowKey}:detail`
+      case 'group':
+        return `group:${row.groupKey}`
+      case 'subtotal':
+        return `subtotal:${row.groupKey}`
+    }
+  }, [displayRows])
+  
+  const {
+    virtualItems,
+    paddingStart,
+    paddingEnd,
+    measureElement
+  } = useVirtualList({
+    count: displayRows.length,
+    scrollRef: scrollContainerRef,
+    itemHeight: virtualConfig?.rowHeight,
+    estimatedItemHeight: virtualConfig?.estimatedRowHeight ?? ESTIMATED_ROW_HEIGHTS[size],
+    overscan: virtualConfig?.overscan,
+    scrollMargin: headerHeight,
+    getItemKey: getVirtualRowKey,
+    enabled: isVirtual
+  })
+  
+  // The sticky header sits above the first row inside the scroll container
+  useEffect(() => {
+    if (!isVirtual || !headerRef.current) return
+    setHeaderHeight(headerRef.current.offsetHeight)
+  }, [isVirtual, size, visibleColumns])
   
   const tableClasses = cn(
     'dyn-table',
@@ -252,15 +1126,523 @@ export function DynTableEnhanced<T = any>({
     bordered && 'dyn-table--bordered',
     striped && 'dyn-table--striped',
     hoverable && 'dyn-table--hoverable',
-    loading && 'dyn-table--loading',
+    isLoading && 'dyn-table--loading',
+    isVirtual && 'dyn-table--virtual',
+    resizableColumns && 'dyn-table--resizable',
     className
   )
   
   const hasSelection = Boolean(rowSelection)
+  const columnCount = visibleColumns.length + (hasSelection ? 1 : 0) + (hasExpandColumn ? 1 : 0)
+  const hasPinnedColumns = visibleColumns.some(column => column.fixed)
+  
+  // Columns can only be reordered among columns pinned to the same edge
+  const getPinGroupKeys = (fixed: TableColumn<T>['fixed']) =>
+    visibleColumns.filter(column => column.fixed === fixed).map(column => column.key)
+  
+  const isSamePinGroup = (sourceKey: string, target: TableColumn<T>) =>
+    visibleColumns.find(column => column.key === sourceKey)?.fixed === target.fixed
+  
+  // Rendered widths of header cells, used to stack pinned columns
+  const [renderedWidths, setRenderedWidths] = useState<Record<string, number>>({})
+  const [scrollShadows, setScrollShadows] = useState({ left: false, right: false })
+  
+  useEffect(() => {
+    const header = headerRef.current
+    if (!hasPinnedColumns || !header) return
+    
+    const measure = () => {
+      const next: Record<string, number> = {}
+      header.querySelectorAll<HTMLElement>('th[data-column-key]').forEach(cell => {
+        next[cell.dataset.columnKey as string] = cell.getBoundingClientRect().width
+      })
+      setRenderedWidths(current => {
+        const keys = Object.keys(next)
+        const unchanged = keys.length === Object.keys(current).length
+          && keys.every(key => current[key] === next[key])
+        return unchanged ? current : next
+      })
+    }
+    
+    measure()
+    if (typeof ResizeObserver === 'undefined') return
+    
+    const observer = new ResizeObserver(measure)
+    header.querySelectorAll('th').forEach(cell => observer.observe(cell))
+    return () => observer.disconnect()
+  }, [hasPinnedColumns, hasSelection, hasExpandColumn, visibleColumns, layout.widths])
+  
+  // Shadows show while scrolling content passes underneath pinned columns
+  useEffect(() => {
+    const container = scrollContainerRef.current
+    if (!hasPinnedColumns || !container) return
+    
+    const update = () => {
+      const left = container.scrollLeft > 0
+      const right = container.scrollLeft + container.clientWidth < container.scrollWidth - 1
+      setScrollShadows(current => (
+        current.left === left && current.right === right ? current : { left, right }
+      ))
+    }
+    
+    update()
+    container.addEventListener('scroll', update, { passive: true })
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update)
+    observer?.observe(container)
+    
+    return () => {
+      container.removeEventListener('scroll', update)
+      observer?.disconnect()
+    }
+  }, [hasPinnedColumns])
+  
+  const pinnedPositions = useMemo(() => {
+    const positions: Record<string, PinnedCellPosition> = {}
+    if (!hasPinnedColumns) return positions
+    
+    const widthOf = (key: string, width?: number | string) =>
+      renderedWidths[key] ?? layout.widths[key] ?? (typeof width === 'number' ? width : 0)
+    
+    const leftColumns = visibleColumns.filter(column => column.fixed === 'left')
+    const rightColumns = visibleColumns.filter(column => column.fixed === 'right')
+    
+    // Selection and expansion columns travel with the left-pinned columns
+    let offset = 0
+    if (leftColumns.length > 0) {
+      const leadingKeys = [
+        ...(hasSelection ? [SELECTION_COLUMN_KEY] : []),
+        ...(hasExpandColumn ? [EXPAND_COLUMN_KEY] : [])
+      ]
+      leadingKeys.forEach(key => {
+        positions[key] = { side: 'left', offset, edge: false }
+        offset += widthOf(key)
+      })
+    }
+    leftColumns.forEach((column, index) => {
+      positions[column.key] = { side: 'left', offset, edge: index === leftColumns.length - 1 }
+      offset += widthOf(column.key, column.width)
+    })
+    
+    offset = 0
+    for (let index = rightColumns.length - 1; index >= 0; index--) {
+      const column = rightColumns[index] as TableColumn<T>
+      positions[column.key] = { side: 'right', offset, edge: index === 0 }
+      offset += widthOf(column.key, column.width)
+    }
+    
+    return positions
+  }, [hasPinnedColumns, hasSelection, hasExpandColumn, visibleColumns, renderedWidths, layout.widths])
+  
+  const getPinnedClassName = (key: string) => {
+    const position = pinnedPositions[key]
+    return position && cn(
+      'dyn-table__cell--pinned',
+      `dyn-table__cell--pinned-${position.side}`,
+      position.edge && `dyn-table__cell--pinned-${position.side}-edge`
+    )
+  }
+  
+  const getPinnedStyle = (key: string): React.CSSProperties | undefined => {
+    const position = pinnedPositions[key]
+    return position && { [position.side]: position.offset }
+  }
+  
+  const isCellEditable = (column: TableColumn<T>, record: T) => {
+    if (!onCellEdit || !column.editable) return false
+    return typeof column.editable === 'function' ? column.editable(record) : true
+  }
+  
+  // Next editable cell in reading order, wrapping across rows
+  const findAdjacentEditableCell = (displayIndex: number, columnKey: string, direction: 1 | -1): EditingCell | null => {
+    let columnIndex = visibleColumns.findIndex(column => column.key === columnKey) + direction
+    
+    for (let index = displayIndex; index >= 0 && index < displayRows.length; index += direction) {
+      const row = displayRows[index] as DisplayRow<T>
+      if (row.type === 'record') {
+        for (; columnIndex >= 0 && columnIndex < visibleColumns.length; columnIndex += direction) {
+          const column = visibleColumns[columnIndex] as TableColumn<T>
+          if (isCellEditable(column, row.record)) {
+            return { rowKey: row.rowKey, columnKey: column.key }
+          }
+        }
+      }
+      columnIndex = direction === 1 ? 0 : visibleColumns.length - 1
+    }
+    
+    return null
+  }
+  
+  const finishEditing = (cell: EditingCell | null, returnFocusTo: EditingCell | null) => {
+    focusCellRef.current = returnFocusTo
+    setEditingCell(cell)
+  }
+  
+  const handleCellCommit = async (
+    row: RecordDisplayRow<T>,
+    displayIndex: number,
+    column: TableColumn<T>,
+    value: unknown,
+    move: CellEditMove
+  ) => {
+    const { record, rowKey } = row
+    const previousValue = getCellValue(record, column)
+    
+    if (!Object.is(value, previousValue)) {
+      await onCellEdit?.({ record, rowKey, rowIndex: row.index, columnKey: column.key, value, previousValue })
+    }
+    
+    const current = { rowKey, columnKey: column.key }
+    const next = move === 'none' ? null : findAdjacentEditableCell(displayIndex, column.key, move === 'next' ? 1 : -1)
+    finishEditing(next, next ? null : current)
+  }
+  
+  const getDetailId = (rowKey: string) => `${detailIdPrefix}-detail-${rowKey}`
+  
+  const renderExpandToggle = (row: RecordDisplayRow<T>) => (
+    <button
+      type="button"
+      className={cn(
+        'dyn-table__expand-toggle',
+        row.isExpanded && 'dyn-table__expand-toggle--expanded'
+      )}
+      aria-expanded={row.isExpanded}
+      aria-controls={row.isExpanded && hasExpandColumn ? getDetailId(row.rowKey) : undefined}
+      aria-label={row.isExpanded ? 'Collapse row' : 'Expand row'}
+      onClick={(e) => {
+        e.stopPropagation()
+        toggleRowExpanded(row)
+      }}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        // Tree convention: right opens, left closes
+        if ((e.key === 'ArrowRight' && !row.isExpanded) || (e.key === 'ArrowLeft' && row.isExpanded)) {
+          e.preventDefault()
+          toggleRowExpanded(row)
+        }
+      }}
+    >
+      <ChevronDownIcon className="dyn-table__expand-icon" />
+    </button>
+  )
+  
+  const renderDetailRow = (row: DetailDisplayRow<T>, displayIndex: number) => (
+    <tr
+      key={`${row.rowKey}:detail`}
+      id={getDetailId(row.rowKey)}
+      ref={isVirtual ? measureElement : undefined}
+      data-index={isVirtual ? displayIndex : undefined}
+      aria-rowindex={isVirtual ? displayIndex + 2 : undefined}
+      className="dyn-table__expanded-row"
+    >
+      <td className="dyn-table__expanded-cell" colSpan={columnCount}>
+        {expandable?.expandedRowRender?.(row.record, row.index)}
+      </td>
+    </tr>
+  )
+  
+  const renderRow = (row: RecordDisplayRow<T>, displayIndex: number) => {
+    const { record, rowKey, index } = row
+    const isSelected = rowSelection ? rowSelection.selectedRowKeys.includes(rowKey) : false
+    const isPartiallySelected = partiallySelectedKeys.has(rowKey)
+    const indentSize = expandable?.indentSize ?? DEFAULT_INDENT_SIZE
+    
+    return (
+      <tr
+        key={rowKey}
+        ref={isVirtual ? measureElement : undefined}
+        data-index={isVirtual ? displayIndex : undefined}
+        aria-rowindex={isVirtual ? displayIndex + 2 : undefined}
+        className={cn(
+          'dyn-table__body-row',
+          isSelected && 'dyn-table__body-row--selected',
+          row.isExpanded && 'dyn-table__body-row--expanded',
+          row.depth > 0 && 'dyn-table__body-row--nested',
+          isVirtual && displayIndex % 2 === 1 && 'dyn-table__body-row--even'
+        )}
+        style={isVirtual && virtualConfig?.rowHeight ? { height: virtualConfig.rowHeight } : undefined}
+        onClick={() => onRow?.onClick?.(record, index)}
+        onDoubleClick={() => onRow?.onDoubleClick?.(record, index)}
+      >
+        {hasSelection && (
+          <td
+            className={cn('dyn-table__body-cell dyn-table__selection-cell', getPinnedClassName(SELECTION_COLUMN_KEY))}
+            style={getPinnedStyle(SELECTION_COLUMN_KEY)}
+          >
+            <DynCheckboxEnhanced
+              checked={isSelected}
+              indeterminate={isPartiallySelected}
+              onChange={(checked) => handleRowSelect(rowKey, checked)}
+              aria-label={`Select row ${row.rowNumber}`}
+            />
+          </td>
+        )}
+        
+        {hasExpandColumn && (
+          <td
+            className={cn('dyn-table__body-cell dyn-table__expand-cell', getPinnedClassName(EXPAND_COLUMN_KEY))}
+            style={getPinnedStyle(EXPAND_COLUMN_KEY)}
+          >
+            {row.isExpandable && renderExpandToggle(row)}
+          </td>
+        )}
+        
+        {visibleColumns.map((column, columnIndex) => {
+          const value = getCellValue(record, column)
+          
+          const renderedContent = column.render
+            ? column.render(value, record, index)
+            : String(value ?? '')
+          
+          // Tree data indents the first column and carries the toggle there
+          const cellContent = isTreeData && columnIndex === 0 ? (
+            <span className="dyn-table__tree-cell" style={{ paddingLeft: row.depth * indentSize }}>
+              {!hasExpandColumn && (row.isExpandable
+                ? renderExpandToggle(row)
+                : <span className="dyn-table__expand-spacer" aria-hidden="true" />)}
+              {renderedContent}
+            </span>
+          ) : renderedContent
+          const isEditable = isCellEditable(column, record)
+          const isEditing = isEditable
+            && editingCell?.rowKey === rowKey
+            && editingCell.columnKey === column.key
+          
+          return (
+            <td
+              key={column.key}
+              className={cn(
+                'dyn-table__body-cell',
+                column.align && `dyn-table__body-cell--${column.align}`,
+                isEditable && 'dyn-table__body-cell--editable',
+                isEditing && 'dyn-table__body-cell--editing',
+                getPinnedClassName(column.key),
+                column.className
+              )}
+              style={getPinnedStyle(column.key)}
+              data-edit-cell={isEditable ? `${rowKey}:${column.key}` : undefined}
+              tabIndex={isEditable && !isEditing ? 0 : undefined}
+              onDoubleClick={isEditable && !isEditing
+                ? () => setEditingCell({ rowKey, columnKey: column.key })
+                : undefined}
+              onKeyDown={isEditable && !isEditing ? (e) => {
+                if (e.target !== e.currentTarget) return
+                if (e.key === 'Enter' || e.key === 'F2') {
+                  e.preventDefault()
+                  setEditingCell({ rowKey, columnKey: column.key })
+                }
+              } : undefined}
+            >
+              {isEditing ? (
+                <DynTableCellEditor
+                  editor={column.editor ?? { type: 'text' }}
+                  value={value}
+                  label={column.title}
+                  rules={column.validation}
+                  onCommit={(nextValue, move) => handleCellCommit(row, displayIndex, column, nextValue, move)}
+                  onCancel={() => finishEditing(null, { rowKey, columnKey: column.key })}
+                />
+              ) : cellContent}
+            </td>
+          )
+        })}
+      </tr>
+    )
+  }
+  
+  const renderAggregates = (column: TableColumn<T>, records: T[]) => {
+    if (!column.aggregate) return null
+    const types = Array.isArray(column.aggregate) ? column.aggregate : [column.aggregate]
+    
+    return types.map(type => {
+      const value = aggregateColumn(records, column, type)
+      return (
+        <span key={type} className="dyn-table__aggregate">
+          <span className="dyn-table__aggregate-label">{AGGREGATE_LABELS[type]}</span>
+          <span className="dyn-table__aggregate-value">
+            {column.formatAggregate
+              ? column.formatAggregate(value, type)
+              : value === null ? '–' : aggregateFormatter.format(value)}
+          </span>
+        </span>
+      )
+    })
+  }
+  
+  // Cells of a subtotal or grand-total row; the label leads the first column
+  const renderAggregateCells = (records: T[], label: string) => (
+    <>
+      {hasSelection && (
+        <td
+          className={cn('dyn-table__body-cell dyn-table__selection-cell', getPinnedClassName(SELECTION_COLUMN_KEY))}
+          style={getPinnedStyle(SELECTION_COLUMN_KEY)}
+        />
+      )}
+      {hasExpandColumn && (
+        <td
+          className={cn('dyn-table__body-cell dyn-table__expand-cell', getPinnedClassName(EXPAND_COLUMN_KEY))}
+          style={getPinnedStyle(EXPAND_COLUMN_KEY)}
+        />
+      )}
+      {visibleColumns.map((column, columnIndex) => (
+        <td
+          key={column.key}
+          className={cn(
+            'dyn-table__body-cell',
+            'dyn-table__aggregate-cell',
+            column.align && `dyn-table__body-cell--${column.align}`,
+            getPinnedClassName(column.key),
+            column.className
+          )}
+          style={getPinnedStyle(column.key)}
+        >
+          {columnIndex === 0 && <span className="dyn-table__aggregate-title">{label}</span>}
+          {renderAggregates(column, records)}
+        </td>
+      ))}
+    </>
+  )
+  
+  const renderGroupRow = (row: GroupDisplayRow<T>, displayIndex: number) => {
+    const label = row.column.renderGroupLabel
+      ? row.column.renderGroupLabel(row.value, row.records)
+      : row.value === null || row.value === undefined || row.value === '' ? '(Empty)' : String(row.value)
+    
+    return (
+      <tr
+        key={`group:${row.groupKey}`}
+        ref={isVirtual ? measureElement : undefined}
+        data-index={isVirtual ? displayIndex : undefined}
+        aria-rowindex={isVirtual ? displayIndex + 2 : undefined}
+        className={cn('dyn-table__group-row', row.isCollapsed && 'dyn-table__group-row--collapsed')}
+      >
+        <td className="dyn-table__group-cell" colSpan={columnCount}>
+          <button
+            type="button"
+            className="dyn-table__group-toggle"
+            style={{ marginLeft: row.depth * (expandable?.indentSize ?? DEFAULT_INDENT_SIZE) }}
+            aria-expanded={!row.isCollapsed}
+            onClick={() => toggleGroupCollapsed(row.groupKey)}
+          >
+            <ChevronDownIcon
+              className={cn('dyn-table__expand-icon', !row.isCollapsed && 'dyn-table__expand-icon--expanded')}
+            />
+            <span className="dyn-table__group-title">{row.column.title}:</span>
+            <span className="dyn-table__group-label">{label}</span>
+            <span className="dyn-table__group-count">({row.records.length})</span>
+          </button>
+        </td>
+      </tr>
+    )
+  }
+  
+  const renderSubtotalRow = (row: SubtotalDisplayRow<T>, displayIndex: number) => (
+    <tr
+      key={`subtotal:${row.groupKey}`}
+      ref={isVirtual ? measureElement : undefined}
+      data-index={isVirtual ? displayIndex : undefined}
+      aria-rowindex={isVirtual ? displayIndex + 2 : undefined}
+      className="dyn-table__subtotal-row"
+    >
+      {renderAggregateCells(row.records, 'Subtotal')}
+    </tr>
+  )
+  
+  const renderDisplayRow = (row: DisplayRow<T>, displayIndex: number) => {
+    switch (row.type) {
+      case 'record':
+        return renderRow(row, displayIndex)
+      case 'detail':
+        return renderDetailRow(row, displayIndex)
+      case 'group':
+        return renderGroupRow(row, displayIndex)
+      case 'subtotal':
+        return renderSubtotalRow(row, displayIndex)
+    }
+  }
+  
+  // Exports read cells through the same accessors as rendering
+  const flattenRecords = (records: T[]): T[] => (
+    isTreeData
+      ? records.flatMap(record => [record, ...flattenRecords(getChildRecords(record, childrenKey) ?? [])])
+      : records
+  )
+  
+  const getExportRows = (scope: TableExportScope = 'view'): T[] => {
+    switch (scope) {
+      case 'view':
+        return flattenRecords(processedData)
+      case 'selected': {
+        if (!rowSelection) return []
+        // Selected rows hidden by a filter are still exported, in view order
+        const selectedKeys = new Set(rowSelection.selectedRowKeys)
+        const sortedRows = isServerMode ? rows : sortRecords(rows, sorts, columns, sortOptions ?? {})
+        return flattenRecords(sortedRows).filter(record => selectedKeys.has(rowSelection.getRowKey(record)))
+      }
+      case 'all':
+        return flattenRecords(rows)
+    }
+  }
+  
+  const exportData = ({ format = 'csv', scope, columns: columnKeys, ...options }: TableExportOptions = {}) => {
+    const exportColumns = (columnKeys
+      ? columnKeys.map(key => columns.find(column => column.key === key))
+      : visibleColumns.filter(column => column.exportable !== false)
+    )
+      .filter((column): column is TableColumn<T> => Boolean(column))
+      .map((column): ExportColumn<T> => ({
+        key: column.key,
+        title: column.title,
+        getValue: record => {
+          const value = getCellValue(record, column)
+          return column.exportFormatter ? column.exportFormatter(value, record) : value
+        }
+      }))
+    
+    return serializeRecords(getExportRows(scope), exportColumns, { format, ...options })
+  }
+  
+  useImperativeHandle(ref, () => ({
+    getExportRows,
+    exportData,
+    downloadData: ({ filename = 'export', ...options } = {}) => {
+      const format = options.format ?? 'csv'
+      downloadTextFile(exportData(options), `${filename}.${format}`, EXPORT_MIME_TYPES[format])
+    }
+  }))
+  
+  const renderSpacer = (height: number, position: 'start' | 'end') => (
+    height > 0 ? (
+      <tr
+        key={`virtual-spacer-${position}`}
+        className="dyn-table__virtual-spacer"
+        aria-hidden="true"
+        style={{ height }}
+      >
+        <td colSpan={columnCount} />
+      </tr>
+    ) : null
+  )
   
   return (
     <div className="dyn-table-container" data-testid={dataTestId}>
-      {loading && (
+      {columnChooser && (
+        <div className="dyn-table__toolbar">
+          <DynTableColumnChooser
+            items={orderedColumns.map(column => ({
+              key: column.key,
+              title: column.title,
+              visible: !layout.hidden.includes(column.key),
+              hideable: column.hideable !== false
+            }))}
+            onToggle={toggleColumn}
+            onMove={reorderableColumns
+              ? (key, offset) => moveColumnBy(key, offset, layout.order)
+              : undefined}
+          />
+        </div>
+      )}
+      
+      {isLoading && (
         <div className="dyn-table__loading-overlay">
           <div className="dyn-table__loading-content">
             <svg className="dyn-table__loading-spinner" viewBox="0 0 50 50">
@@ -283,7 +1665,13 @@ export function DynTableEnhanced<T = any>({
       )}
       
       <div 
-        className="dyn-table__scroll-container"
+        ref={scrollContainerRef}
+        className={cn(
+          'dyn-table__scroll-container',
+          scroll?.y !== undefined && 'dyn-table__scroll-container--sticky-header',
+          scrollShadows.left && 'dyn-table__scroll-container--shadow-left',
+          scrollShadows.right && 'dyn-table__scroll-container--shadow-right'
+        )}
         style={{
           overflowX: scroll?.x ? 'auto' : undefined,
           overflowY: scroll?.y ? 'auto' : undefined,
@@ -296,11 +1684,16 @@ export function DynTableEnhanced<T = any>({
           style={{
             minWidth: scroll?.x,
           }}
+          aria-rowcount={isVirtual ? displayRows.length + 1 : undefined}
         >
-          <thead className="dyn-table__header">
+          <thead ref={headerRef} className="dyn-table__header">
             <tr className="dyn-table__header-row">
               {hasSelection && (
-                <th className="dyn-table__header-cell dyn-table__selection-cell">
+                <th
+                  data-column-key={SELECTION_COLUMN_KEY}
+                  className={cn('dyn-table__header-cell dyn-table__selection-cell', getPinnedClassName(SELECTION_COLUMN_KEY))}
+                  style={getPinnedStyle(SELECTION_COLUMN_KEY)}
+                >
                   <DynCheckboxEnhanced
                     checked={selectionState.checked}
                     indeterminate={selectionState.indeterminate}
@@ -310,49 +1703,169 @@ export function DynTableEnhanced<T = any>({
                 </th>
               )}
               
-              {columns.map((column) => (
+              {hasExpandColumn && (
                 <th
-                  key={column.key}
-                  className={cn(
-                    'dyn-table__header-cell',
-                    column.align && `dyn-table__header-cell--${column.align}`,
-                    column.sortable && 'dyn-table__header-cell--sortable',
-                    column.className
-                  )}
-                  style={{ width: column.width }}
-                  onClick={column.sortable ? () => handleSort(column.key) : undefined}
-                >
-                  <div className="dyn-table__header-content">
-                    <span className="dyn-table__header-title">
-                      {column.title}
-                    </span>
-                    
-                    {column.sortable && (
-                      <span className="dyn-table__sort-indicator">
-                        {internalSortConfig?.key === column.key ? (
-                          <ChevronDownIcon
-                            className={cn(
-                              'dyn-table__sort-icon',
-                              internalSortConfig.direction === 'asc' && 'dyn-table__sort-icon--asc'
-                            )}
-                          />
-                        ) : (
-                          <div className="dyn-table__sort-icon-placeholder" />
-                        )}
+                  data-column-key={EXPAND_COLUMN_KEY}
+                  className={cn('dyn-table__header-cell dyn-table__expand-cell', getPinnedClassName(EXPAND_COLUMN_KEY))}
+                  style={getPinnedStyle(EXPAND_COLUMN_KEY)}
+                  aria-label="Row details"
+                />
+              )}
+              
+              {visibleColumns.map((column) => {
+                const sortIndex = sorts.findIndex(sort => sort.key === column.key)
+                const columnSort = sorts[sortIndex]
+                const columnWidth = layout.widths[column.key]
+                const isInteractive = column.sortable || reorderableColumns
+                
+                return (
+                  <th
+                    key={column.key}
+                    data-column-key={column.key}
+                    className={cn(
+                      'dyn-table__header-cell',
+                      column.align && `dyn-table__header-cell--${column.align}`,
+                      column.sortable && 'dyn-table__header-cell--sortable',
+                      reorderableColumns && 'dyn-table__header-cell--reorderable',
+                      dragColumnKey === column.key && 'dyn-table__header-cell--dragging',
+                      dropColumnKey === column.key && dragColumnKey !== column.key && 'dyn-table__header-cell--drop-target',
+                      getPinnedClassName(column.key),
+                      column.className
+                    )}
+                    style={{ width: columnWidth ?? column.width, ...getPinnedStyle(column.key) }}
+                    tabIndex={isInteractive ? 0 : undefined}
+                    aria-sort={
+                      column.sortable
+                        ? sortIndex === 0 && columnSort
+                          ? columnSort.direction === 'asc' ? 'ascending' : 'descending'
+                          : 'none'
+                        : undefined
+                    }
+                    onClick={column.sortable ? (e) => handleSort(column.key, e.shiftKey) : undefined}
+                    onKeyDown={isInteractive ? (e) => {
+                      if (e.target !== e.currentTarget) return
+                      if (column.sortable && (e.key === 'Enter' || e.key === ' ')) {
+                        e.preventDefault()
+                        handleSort(column.key, e.shiftKey)
+                      } else if (reorderableColumns && e.altKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+                        e.preventDefault()
+                        moveColumnBy(column.key, e.key === 'ArrowLeft' ? -1 : 1, getPinGroupKeys(column.fixed))
+                      }
+                    } : undefined}
+                    draggable={reorderableColumns || undefined}
+                    onDragStart={reorderableColumns ? (e) => {
+                      if (isResizingRef.current) {
+                        e.preventDefault()
+                        return
+                      }
+                      e.dataTransfer?.setData('text/plain', column.key)
+                      setDragColumnKey(column.key)
+                    } : undefined}
+                    onDragOver={reorderableColumns ? (e) => {
+                      if (!dragColumnKey || !isSamePinGroup(dragColumnKey, column)) return
+                      e.preventDefault()
+                      setDropColumnKey(column.key)
+                    } : undefined}
+                    onDragLeave={reorderableColumns ? () => setDropColumnKey(null) : undefined}
+                    onDrop={reorderableColumns ? (e) => {
+                      e.preventDefault()
+                      if (dragColumnKey && isSamePinGroup(dragColumnKey, column)) {
+                        moveColumn(dragColumnKey, column.key)
+                      }
+                      setDragColumnKey(null)
+                      setDropColumnKey(null)
+                    } : undefined}
+                    onDragEnd={reorderableColumns ? () => {
+                      setDragColumnKey(null)
+                      setDropColumnKey(null)
+                    } : undefined}
+                  >
+                    <div className="dyn-table__header-content">
+                      <span className="dyn-table__header-title">
+                        {column.title}
                       </span>
+                    
+                      {column.sortable && (
+                        <span className="dyn-table__sort-indicator">
+                          {columnSort ? (
+                            <>
+                              <ChevronDownIcon
+                                className={cn(
+                                  'dyn-table__sort-icon',
+                                  columnSort.direction === 'asc' && 'dyn-table__sort-icon--asc'
+                                )}
+                              />
+                              {sorts.length > 1 && (
+                                <span
+                                  className="dyn-table__sort-priority"
+                                  aria-label={`Sort priority ${sortIndex + 1}`}
+                                >
+                                  {sortIndex + 1}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <div className="dyn-table__sort-icon-placeholder" />
+                          )}
+                        </span>
+                      )}
+                    
+                      {column.filterable && (
+                        <DynTableColumnFilter
+                          title={column.title}
+                          type={column.filterType ?? 'text'}
+                          value={internalFilters[column.key]}
+                          options={filterOptions[column.key] ?? []}
+                          onChange={(filter) => handleFilterChange(column.key, filter)}
+                        />
+                      )}
+                    </div>
+                    
+                    {resizableColumns && column.resizable !== false && (
+                      <span
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={`Resize ${column.title}`}
+                        aria-valuenow={columnWidth}
+                        aria-valuemin={column.minWidth ?? MIN_COLUMN_WIDTH}
+                        aria-valuemax={column.maxWidth}
+                        tabIndex={0}
+                        className="dyn-table__resize-handle"
+                        onPointerDown={(e) => startColumnResize(e, column)}
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => handleResizeKeyDown(e, column)}
+                      />
                     )}
-                  </div>
-                </th>
-              ))}
+                  </th>
+                )
+              })}
             </tr>
           </thead>
           
           <tbody className="dyn-table__body">
-            {paginatedData.length === 0 ? (
+            {loadFailed ? (
+              <tr className="dyn-table__error-row">
+                <td
+                  className="dyn-table__error-cell"
+                  colSpan={columnCount}
+                >
+                  <div className="dyn-table__error-content" role="alert">
+                    <span className="dyn-table__error-text">{errorText}</span>
+                    <button
+                      type="button"
+                      className="dyn-table__error-retry"
+                      onClick={remote.reload}
+                    >
+                      Retry
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ) : paginatedData.length === 0 ? (
               <tr className="dyn-table__empty-row">
                 <td 
                   className="dyn-table__empty-cell"
-                  colSpan={columns.length + (hasSelection ? 1 : 0)}
+                  colSpan={columnCount}
                 >
                   <div className="dyn-table__empty-content">
                     <div className="dyn-table__empty-icon">
@@ -366,68 +1879,37 @@ export function DynTableEnhanced<T = any>({
                 </td>
               </tr>
             ) : (
-              paginatedData.map((record, index) => {
-                const rowKey = rowSelection ? rowSelection.getRowKey(record) : String(index)
-                const isSelected = rowSelection ? rowSelection.selectedRowKeys.includes(rowKey) : false
-                
-                return (
-                  <tr
-                    key={rowKey}
-                    className={cn(
-                      'dyn-table__body-row',
-                      isSelected && 'dyn-table__body-row--selected'
-                    )}
-                    onClick={() => onRow?.onClick?.(record, index)}
-                    onDoubleClick={() => onRow?.onDoubleClick?.(record, index)}
-                  >
-                    {hasSelection && (
-                      <td className="dyn-table__body-cell dyn-table__selection-cell">
-                        <DynCheckboxEnhanced
-                          checked={isSelected}
-                          onChange={(checked) => handleRowSelect(rowKey, checked)}
-                          aria-label={`Select row ${index + 1}`}
-                        />
-                      </td>
-                    )}
-                    
-                    {columns.map((column) => {
-                      const value = column.dataIndex
-                        ? typeof column.dataIndex === 'function'
-                          ? column.dataIndex(record)
-                          : record[column.dataIndex]
-                        : record[column.key as keyof T]
-                      
-                      const cellContent = column.render
-                        ? column.render(value, record, index)
-                        : String(value ?? '')
-                      
-                      return (
-                        <td
-                          key={column.key}
-                          className={cn(
-                            'dyn-table__body-cell',
-                            column.align && `dyn-table__body-cell--${column.align}`,
-                            column.className
-                          )}
-                        >
-                          {cellContent}
-                        </td>
-                      )
-                    })}
-                  </tr>
-                )
-              })
+              isVirtual ? (
+                <>
+                  {renderSpacer(paddingStart, 'start')}
+                  {virtualItems.map(item => {
+                    const row = displayRows[item.index]
+                    return row === undefined ? null : renderDisplayRow(row, item.index)
+                  })}
+                  {renderSpacer(paddingEnd, 'end')}
+                </>
+              ) : (
+                displayRows.map(renderDisplayRow)
+              )
             )}
           </tbody>
+          
+          {hasAggregates && showGrandTotal && processedData.length > 0 && (
+            <tfoot className="dyn-table__footer">
+              <tr className="dyn-table__total-row">
+                {renderAggregateCells(processedData, 'Total')}
+              </tr>
+            </tfoot>
+          )}
         </table>
       </div>
       
       {pagination && (
         <div className="dyn-table__pagination">
           <div className="dyn-table__pagination-info">
-            Showing {Math.min((pagination.current - 1) * pagination.pageSize + 1, pagination.total)} to{' '}
-            {Math.min(pagination.current * pagination.pageSize, pagination.total)} of{' '}
-            {pagination.total} entries
+            Showing {Math.min((pagination.current - 1) * pagination.pageSize + 1, totalCount)} to{' '}
+            {Math.min(pagination.current * pagination.pageSize, totalCount)} of{' '}
+            {totalCount} entries
           </div>
           
           <div className="dyn-table__pagination-controls">
@@ -462,12 +1944,12 @@ export function DynTableEnhanced<T = any>({
               </button>
               
               <span className="dyn-table__page-info">
-                Page {pagination.current} of {Math.ceil(pagination.total / pagination.pageSize)}
+                Page {pagination.current} of {Math.ceil(totalCount / pagination.pageSize)}
               </span>
               
               <button
                 className="dyn-table__page-button"
-                disabled={pagination.current >= Math.ceil(pagination.total / pagination.pageSize)}
+                disabled={pagination.current >= Math.ceil(totalCount / pagination.pageSize)}
                 onClick={() => pagination.onChange(pagination.current + 1, pagination.pageSize)}
                 aria-label="Next page"
               >
@@ -481,6 +1963,37 @@ export function DynTableEnhanced<T = any>({
   )
 }
 
+const ForwardedTable = forwardRef(DynTableEnhancedInner)
+ForwardedTable.displayName = 'DynTableEnhanced'
+
+// forwardRef drops the record type parameter, so restore it on the export
+export const DynTableEnhanced = ForwardedTable as <T = any>(
+  props: DynTableEnhancedProps<T> & { ref?: React.Ref<DynTableEnhancedRef<T>> }
+) => React.ReactElement | null
+
 // Export types
-export type { DynTableEnhancedProps, TableColumn, SortConfig, FilterConfig, SelectionConfig }
+export type {
+  DynTableEnhancedProps,
+  DynTableEnhancedRef,
+  TableExportScope,
+  TableExportOptions,
+  TableDownloadOptions,
+  TableColumn,
+  SortConfig,
+  SortOptions,
+  FilterConfig,
+  SelectionConfig,
+  ExpandableConfig,
+  AggregateType,
+  CellEditor,
+  CellEditChange,
+  VirtualConfig,
+  ColumnLayoutState,
+  TableQuery,
+  TableQueryResult,
+  TableDataAdapter,
+  ColumnFilterType,
+  ColumnFilterValue,
+  ColumnFilterOption
+}
 export default DynTableEnhanced
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { forwardRef, useEffect, useMemo, useRef, useState, useSyncExternalStore, type PointerEvent } from 'react';
+import type { DynToastProps, DynToasterProps, ToastData } from '../types/components/dyn-toast.types';
+import type { Color } from '../types/common.types';
+import { getToasts, subscribeToToasts, toast } from '../utils/toast-store';
+import { classNames } from '../utils';
+import { CloseIcon } from './dyn-icon';
+import { DynPortal } from './dyn-portal';
+
+// Horizontal distance in px a toast must be dragged to dismiss it
+const SWIPE_THRESHOLD = 64;
+
+// Problems interrupt the screen reader, everything else waits
+const isAssertive = (color: Color) => color === 'warning' || color === 'danger';
+
+// A toast is announced again when it is updated, e.g. by toast.promise
+const getAnnouncementKey = (item: ToastData) => `${item.id}:${item.updatedAt}`;
+
+interface Announcements {
+  polite: ToastData[];
+  assertive: ToastData[];
+}
+
+const renderAnnouncement = (item: ToastData) => (
+  <p key={getAnnouncementKey(item)}>
+    {item.message}
+    {item.description ? <> {item.description}</> : null}
+  </p>
+);
+
+/**
+ * DynToast - A single notification
+ *
+ * Closes after its duration unless paused or loading, and can be swiped
+ * away horizontally.
+ */
+export const DynToast = forwardRef<HTMLLIElement, DynToastProps>(
+  ({
+    toast: data,
+    paused = false,
+    onDismiss,
+    className,
+    style,
+    'data-testid': testId,
+    ...props
+  }, ref) => {
+    const { id, message, description, color, duration, dismissible, loading, action, updatedAt } = data;
+    const remainingRef = useRef(duration);
+    const swipeStartRef = useRef<number | null>(null);
+    const [swipeOffset, setSwipeOffset] = useState(0);
+
+    // Showing the toast again restarts its timer
+    useEffect(() => {
+      remainingRef.current = duration;
+    }, [updatedAt, duration]);
+
+    // Pausing keeps the time left for when the timer resumes
+    useEffect(() => {
+      if (paused || loading || !Number.isFinite(duration)) return;
+      const startedAt = Date.now();
+      const timer = setTimeout(() => onDismiss(id), Math.max(0, remainingRef.current));
+      return () => {
+        clearTimeout(timer);
+        remainingRef.current -= Date.now() - startedAt;
+      };
+    }, [paused, loading, duration, updatedAt, id, onDismiss]);
+
+    const handlePointerDown = (event: PointerEvent<HTMLLIElement>) => {
+      if (event.button > 0 || (event.target as Element).closest('button')) return;
+      swipeStartRef.current = event.clientX;
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+    };
+
+    const handlePointerMove = (event: PointerEvent<HTMLLIElement>) => {
+      if (swipeStartRef.current === null) return;
+      setSwipeOffset(event.clientX - swipeStartRef.current);
+    };
+
+    const handlePointerUp = () => {
+      if (swipeStartRef.current === null) return;
+      swipeStartRef.current = null;
+      if (Math.abs(swipeOffset) >= SWIPE_THRESHOLD) {
+        onDismiss(id);
+      } else {
+        setSwipeOffset(0);
+      }
+    };
+
+    const handlePointerCancel = () => {
+      swipeStartRef.current = null;
+      setSwipeOffset(0);
+    };
+
+    return (
+      <li
+        {...props}
+        ref={ref}
+        aria-busy={loading || undefined}
+        className={classNames(
+          'dyn-toast',
+          `dyn-toast--${color}`,
+          loading && 'dyn-toast--loading',
+          swipeOffset !== 0 && 'dyn-toast--swiping',
+          className
+        )}
+        style={swipeOffset !== 0
+          ? {
+            ...style,
+            transform: `translateX(${swipeOffset}px)`,
+            opacity: Math.max(0, 1 - Math.abs(swipeOffset) / (SWIPE_THRESHOLD * 2))
+          }
+          : style}
+        data-testid={testId}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      >
+        {loading ? <span className="dyn-toast__spinner" aria-hidden="true" /> : null}
+        <div className="dyn-toast__content">
+          <div className="dyn-toast__message">{message}</div>
+          {description ? <div className="dyn-toast__description">{description}</div> : null}
+        </div>
+        {action ? (
+          <button
+            type="button"
+            className="dyn-toast__action"
+            onClick={() => {
+              action.onClick();
+              onDismiss(id);
+            }}
+          >
+            {action.label}
+          </button>
+        ) : null}
+        {dismissible ? (
+          <button
+            type="button"
+            className="dyn-toast__close"
+            aria-label="Dismiss notification"
+            onClick={() => onDismiss(id)}
+          >
+            <CloseIcon />
+          </button>
+        ) : null}
+      </li>
+    );
+  }
+);
+
+DynToast.displayName = 'DynToast';
+
+/**
+ * DynToaster - Region showing the toasts created with `toast(...)`
+ *
+ * Render it once near the root of the app. Hovering or focusing the region
+ * pauses every timer so toasts do not close while being read. Toasts are
+ * announced through two live regions that stay mounted, since screen readers
+ * often skip a live region that appears together with its content.
+ */
+export function DynToaster({
+  placement = 'bottom-right',
+  visibleToasts = 3,
+  label = 'Notifications',
+  className,
+  'data-testid': testId
+}: DynToasterProps) {
+  const toasts = useSyncExternalStore(subscribeToToasts, getToasts, getToasts);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [announcements, setAnnouncements] = useState<Announcements>({ polite: [], assertive: [] });
+  const announcedRef = useRef(new Set<string>());
+
+  // The oldest toasts hold the slots and later ones wait, so a waiting
+  // toast's timer only starts once it is shown; displayed newest first.
+  // Memoized so hovering or pausing does not re-run the announcements
+  const shown = useMemo(() => toasts.slice(0, visibleToasts).reverse(), [toasts, visibleToasts]);
+
+  // Toasts are announced once they get a slot
+  useEffect(() => {
+    const fresh = shown.filter(item => !announcedRef.current.has(getAnnouncementKey(item)));
+    announcedRef.current = new Set(shown.map(getAnnouncementKey));
+    if (fresh.length === 0) return;
+    setAnnouncements({
+      polite: fresh.filter(item => !isAssertive(item.color)),
+      assertive: fresh.filter(item => isAssertive(item.color))
+    });
+  }, [shown]);
+
+  return (
+    <DynPortal>
+      <section
+        aria-label={label}
+        className={classNames('dyn-toaster', `dyn-toaster--${placement}`, className)}
+        data-testid={testId}
+        onMouseEnter={() => setHovered(true)}
+        onMouseLeave={() => setHovered(false)}
+        onFocus={() => setFocused(true)}
+        onBlur={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setFocused(false);
+        }}
+      >
+        <div className="dyn-toaster__announcer" role="status" aria-live="polite">
+          {announcements.polite.map(renderAnnouncement)}
+        </div>
+        <div className="dyn-toaster__announcer" role="alert" aria-live="assertive">
+          {announcements.assertive.map(renderAnnouncement)}
+        </div>
+
+        <ol className="dyn-toaster__list">
+          {shown.map(item => (
+            <DynToast
+              key={item.id}
+              toast={item}
+              paused={hovered || focused}
+              onDismiss={toast.dismiss}
+            />
+          ))}
+        </ol>
+      </section>
+    </DynPortal>
+  );
+}
@@ -0,0 +1,154 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import type { DynToggleProps, DynToggleRef } from '../types/components/dyn-toggle.types'
+import { useControlled } from '../hooks/use-controlled'
+import type { UseControlledOptions } from '../hooks/use-controlled'
+import { classNames } from '../utils'
+import { DynFieldContainer } from './dyn-field-container'
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function'
+
+/**
+ * DynToggle - On/off switch
+ *
+ * Features:
+ * - `role="switch"` with aria-checked, toggled by click, Space and Enter
+ * - Optional on/off text inside the track
+ * - Loading state, also while a promise returned by onChange is pending;
+ *   the switch flips back when that promise rejects
+ * - Label, description and error through DynFieldContainer
+ */
+export const DynToggle = forwardRef<DynToggleRef, DynToggleProps>(
+  (
+    {
+      id,
+      name,
+      value,
+      defaultValue = false,
+      onChange,
+      disabled = false,
+      required = false,
+      onLabel,
+      offLabel,
+      size = 'md',
+      loading = false,
+      label,
+      description,
+      error,
+      className,
+      'aria-label': ariaLabel,
+      'aria-labelledby': ariaLabelledby,
+      'aria-describedby': ariaDescribedby,
+      'aria-invalid': ariaInvalid,
+      'aria-required': ariaRequired,
+      'data-testid': dataTestId,
+      'data-state': dataState
+    },
+    ref
+  ) => {
+    const buttonRef = useRef<HTMLButtonElement>(null)
+    // State shown while an async onChange is pending
+    const [pendingValue, setPendingValue] = useState<boolean | null>(null)
+
+    // onChange is called here rather than by useControlled to see its result
+    const controlOptions: UseControlledOptions<boolean> = { defaultValue }
+
+    if (value !== undefined) {
+      controlOptions.value = value
+    }
+
+    const { value: checked, setValue: setChecked } = useControlled(controlOptions)
+
+    const isOn = pendingValue ?? checked
+    const busy = loading || pendingValue !== null
+
+    const toggle = () => {
+      if (disabled || busy) return
+      const next = !checked
+      const result = onChange?.(next)
+
+      if (!isPromiseLike(result)) {
+        setChecked(next)
+        return
+      }
+
+      setPendingValue(next)
+      result.then(
+        () => {
+          setPendingValue(null)
+          setChecked(next)
+        },
+        // The rejection is handled by reverting; callers report their own errors
+        () => setPendingValue(null)
+      )
+    }
+
+    useImperativeHandle(ref, () => ({
+      focus: () => buttonRef.current?.focus(),
+      blur: () => buttonRef.current?.blur(),
+      toggle
+    }))
+
+    const hasError = Boolean(Array.isArray(error) ? error.length : error)
+    const hasField = Boolean(label || description || hasError)
+    const stateLabel = isOn ? onLabel : offLabel
+
+    const toggleElement = (
+      <button
+        ref={buttonRef}
+        type="button"
+        role="switch"
+        id={id}
+        aria-checked={isOn}
+        aria-busy={busy || undefined}
+        aria-disabled={busy || undefined}
+        aria-label={ariaLabel}
+        aria-labelledby={ariaLabelledby}
+        aria-describedby={ariaDescribedby}
+        aria-invalid={ariaInvalid}
+        aria-required={ariaRequired ?? (required || undefined)}
+        disabled={disabled}
+        className={classNames(
+          'dyn-toggle',
+          `dyn-toggle--${size}`,
+          isOn && 'dyn-toggle--checked',
+          busy && 'dyn-toggle--loading',
+          (ariaInvalid || hasError) && 'dyn-toggle--error',
+          disabled && 'dyn-toggle--disabled',
+          dataState ? `dyn-toggle--${dataState}` : undefined,
+          !hasField && className
+        )}
+        data-testid={dataTestId}
+        onClick={toggle}
+      >
+        <span className="dyn-toggle__track" aria-hidden="true">
+          {stateLabel !== undefined ? <span className="dyn-toggle__state">{stateLabel}</span> : null}
+          <span className="dyn-toggle__thumb">
+            {busy ? <span className="dyn-toggle__spinner" /> : null}
+          </span>
+        </span>
+        {/* Hidden inputs are not interactive content, so this is valid inside a button */}
+        {name && checked ? <input type="hidden" name={name} value="on" /> : null}
+      </button>
+    )
+
+    if (!hasField) return toggleElement
+
+    return (
+      <DynFieldContainer
+        {...(label ? { label } : {})}
+        {...(description ? { description } : {})}
+        {...(hasError && error ? { error } : {})}
+        {...(ariaDescribedby ? { 'aria-describedby': ariaDescribedby } : {})}
+        {...(className ? { className } : {})}
+        required={required}
+        disabled={disabled}
+        size={size}
+      >
+        {toggleElement}
+      </DynFieldContainer>
+    )
+  }
+)
+
+DynToggle.displayName = 'DynToggle'
@@ -0,0 +1,392 @@
+import React, {
+  createContext,
+  forwardRef,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useRef,
+  useState
+} from 'react';
+import type { FocusEvent, KeyboardEvent, MouseEvent } from 'react';
+import type {
+  DynToolbarProps,
+  DynToolbarItemProps,
+  DynToolbarSeparatorProps
+} from '../types/components/dyn-toolbar.types';
+import type { DynMenuItemConfig } from '../types/components/dyn-menu.types';
+import { useArrowNavigation } from '../hooks/use-arrow-navigation';
+import { usePosition } from '../hooks/use-position';
+import { useLayer } from '../hooks/use-layer';
+import { classNames } from '../utils';
+import { DynMenu, MENU_ITEM_SELECTOR } from './dyn-menu';
+import { DynPortal } from './dyn-portal';
+
+// Controls taking part in the roving focus, inside items still shown in the toolbar
+const CONTROL_SELECTORS = [
+  'button:not(:disabled)',
+  'input:not([type="hidden"]):not(:disabled)',
+  'select:not(:disabled)',
+  'textarea:not(:disabled)',
+  'a[href]',
+  '[role="slider"]:not([aria-disabled="true"])'
+];
+const NAVIGATION_SELECTOR = [
+  ...CONTROL_SELECTORS.map(control => `.dyn-toolbar__item:not([hidden]) ${control}`),
+  '.dyn-toolbar__overflow:not([hidden]) > button'
+].join(', ');
+
+const ToolbarOrientationContext = createContext<'horizontal' | 'vertical'>('horizontal');
+
+/**
+ * DynToolbarItem - A toolbar control and its overflow menu entry
+ */
+export function DynToolbarItem({ children }: DynToolbarItemProps) {
+  return <>{children}</>;
+}
+
+/**
+ * DynToolbarSeparator - Divides groups of toolbar controls
+ */
+export function DynToolbarSeparator({ className }: DynToolbarSeparatorProps) {
+  const orientation = useContext(ToolbarOrientationContext);
+
+  return (
+    <div
+      role="separator"
+      aria-orientation={orientation === 'horizontal' ? 'vertical' : 'horizontal'}
+      className={classNames('dyn-toolbar__separator', className)}
+    />
+  );
+}
+
+// Menu entries of the items moved out of the toolbar, with the action of each entry
+function buildOverflowMenu(nodes: React.ReactNode[]) {
+  const actions = new Map<string, () => void>();
+  const entries: DynMenuItemConfig[] = [];
+
+  nodes.forEach((node, index) => {
+    if (!React.isValidElement(node)) return;
+
+    if (node.type === DynToolbarSeparator) {
+      if (entries.length > 0 && entries[entries.length - 1]?.type !== 'divider') {
+        entries.push({ type: 'divider' });
+      }
+      return;
+    }
+
+    const { overflowLabel, onOverflowAction, overflowItems, disabled } = node.props as DynToolbarItemProps;
+    if (node.type !== DynToolbarItem || !overflowLabel) return;
+
+    // Values are made unique across items; the action receives the entry's own value
+    const mapEntries = (items: DynMenuItemConfig[], path: string): DynMenuItemConfig[] =>
+      items.map((item, itemIndex) => {
+        if (item.type === 'divider') return item;
+        const value = `${path}.${itemIndex}`;
+        actions.set(value, () => onOverflowAction?.(item.value));
+        return { ...item, value, ...(item.items ? { items: mapEntries(item.items, value) } : {}) };
+      });
+
+    const value = String(index);
+    actions.set(value, () => onOverflowAction?.());
+    entries.push({
+      type: 'item',
+      value,
+      label: overflowLabel,
+      ...(disabled ? { disabled } : {}),
+      ...(overflowItems?.length ? { items: mapEntries(overflowItems, value) } : {})
+    });
+  });
+
+  if (entries[entries.length - 1]?.type === 'divider') entries.pop();
+
+  return { entries, actions };
+}
+
+/**
+ * DynToolbar - Row of controls with a single tab stop
+ *
+ * Arrow keys move focus between the controls (roving tabindex). Items that
+ * do not fit, measured with ResizeObserver, move into an overflow menu.
+ */
+export const DynToolbar = forwardRef<HTMLDivElement, DynToolbarProps>(
+  ({
+    children,
+    orientation = 'horizontal',
+    loop = true,
+    overflow = true,
+    overflowLabel = 'More',
+    className,
+    onFocus,
+    'data-testid': testId,
+    ...props
+  }, ref) => {
+    const toolbarRef = useRef<HTMLDivElement | null>(null);
+    const overflowRef = useRef<HTMLDivElement>(null);
+    const moreButtonRef = useRef<HTMLButtonElement>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+    // Sizes of items measured while shown, kept while they are in the overflow menu
+    const itemSizesRef = useRef(new WeakMap<Element, number>());
+    const overflowSizeRef = useRef(0);
+    // Control holding the tab stop
+    const activeControlRef = useRef<HTMLElement | null>(null);
+    // Opening from the keyboard moves focus into the menu
+    const focusMenuRef = useRef(false);
+    const [visibleCount, setVisibleCount] = useState(Infinity);
+    const [menuOpen, setMenuOpen] = useState(false);
+    const menuId = useId();
+    const vertical = orientation === 'vertical';
+
+    const items = React.Children.toArray(children);
+    const shownCount = overflow ? Math.min(visibleCount, items.length) : items.length;
+    const hasOverflow = shownCount < items.length;
+
+    const { setContainerRef, getFocusableElements } = useArrowNavigation({
+      orientation,
+      loop,
+      selector: NAVIGATION_SELECTOR
+    });
+
+    const assignRefs = useCallback(
+      (node: HTMLDivElement | null) => {
+        toolbarRef.current = node;
+        setContainerRef(node);
+        if (typeof ref === 'function') {
+          ref(node);
+        } else if (ref) {
+          ref.current = node;
+        }
+      },
+      [ref, setContainerRef]
+    );
+
+    // Only the active control is tabbable; controls render with their own tabindex
+    const syncTabStops = useCallback(() => {
+      const controls = getFocusableElements();
+      const active = controls.find(control => control === activeControlRef.current) ?? controls[0];
+      controls.forEach(control => {
+        control.tabIndex = control === active ? 0 : -1;
+      });
+    }, [getFocusableElements]);
+
+    useLayoutEffect(() => {
+      syncTabStops();
+    });
+
+    const measure = useCallback(() => {
+      const toolbar = toolbarRef.current;
+      if (!toolbar || !overflow || typeof ResizeObserver === 'undefined') return;
+
+      const getSize = (element: Element) => {
+        const rect = element.getBoundingClientRect();
+        return vertical ? rect.height : rect.width;
+      };
+      const style = getComputedStyle(toolbar);
+      const padding = vertical
+        ? (parseFloat(style.paddingTop) || 0) + (parseFloat(style.paddingBottom) || 0)
+        : (parseFloat(style.paddingLeft) || 0) + (parseFloat(style.paddingRight) || 0);
+      const available = getSize(toolbar) - padding;
+      // Not laid out, e.g. inside a hidden panel
+      if (available <= 0) return;
+      const gap = parseFloat(vertical ? style.rowGap : style.columnGap) || 0;
+
+      const itemElements = Array.from(toolbar.children).filter(
+        (child): child is HTMLElement => child.classList.contains('dyn-toolbar__item')
+      );
+      const sizes: number[] = [];
+      for (const element of itemElements) {
+        if (!element.hidden) itemSizesRef.current.set(element, getSize(element));
+        const size = itemSizesRef.current.get(element);
+        // Items added while others are hidden are shown once to measure them
+        if (size === undefined) {
+          setVisibleCount(Infinity);
+          return;
+        }
+        sizes.push(size);
+      }
+
+      if (overflowRef.current && !overflowRef.current.hidden) {
+        overflowSizeRef.current = getSize(overflowRef.current);
+      }
+
+      const total = sizes.reduce((sum, size) => sum + size, 0) + gap * Math.max(0, sizes.length - 1);
+      if (total <= available) {
+        setVisibleCount(Infinity);
+        return;
+      }
+
+      // Fill the space left next to the overflow button
+      const budget = available - overflowSizeRef.current - gap;
+      let used = 0;
+      let count = 0;
+      for (const size of sizes) {
+        const next = used + (count > 0 ? gap : 0) + size;
+        if (next > budget) break;
+        used = next;
+        count += 1;
+      }
+      setVisibleCount(count);
+    }, [overflow, vertical]);
+
+    useLayoutEffect(() => {
+      measure();
+    }, [measure, visibleCount, items.length]);
+
+    useEffect(() => {
+      const toolbar = toolbarRef.current;
+      if (!toolbar || !overflow || typeof ResizeObserver === 'undefined') return;
+
+      const observer = new ResizeObserver(() => measure());
+      observer.observe(toolbar);
+      Array.from(toolbar.children).forEach(child => observer.observe(child));
+      return () => observer.disconnect();
+    }, [measure, overflow, items.length]);
+
+    const { entries: menuEntries, actions: menuActions } = buildOverflowMenu(items.slice(shownCount));
+
+    const { floatingStyles: menuStyles } = usePosition({
+      referenceRef: moreButtonRef,
+      floatingRef: menuRef,
+      open: menuOpen,
+      placement: vertical ? 'right-start' : 'bottom-end',
+      offset: 4
+    });
+
+    const closeMenu = (restoreFocus: boolean) => {
+      setMenuOpen(false);
+      if (restoreFocus) moreButtonRef.current?.focus();
+    };
+
+    const { zIndex: menuZIndex } = useLayer({
+      open: menuOpen,
+      refs: [overflowRef, menuRef],
+      onEscape: () => closeMenu(true),
+      onOutsideClick: () => closeMenu(false)
+    });
+
+    const openMenu = (focusFirstItem: boolean) => {
+      focusMenuRef.current = focusFirstItem;
+      setMenuOpen(true);
+    };
+
+    useEffect(() => {
+      if (!menuOpen || !focusMenuRef.current) return;
+      focusMenuRef.current = false;
+      menuRef.current?.querySelector<HTMLElement>(MENU_ITEM_SELECTOR)?.focus();
+    }, [menuOpen]);
+
+    // Everything fits again
+    useEffect(() => {
+      if (!hasOverflow) setMenuOpen(false);
+    }, [hasOverflow]);
+
+    const handleFocus = (event: FocusEvent<HTMLDivElement>) => {
+      onFocus?.(event);
+      const target = event.target as HTMLElement;
+      if (getFocusableElements().includes(target)) {
+        activeControlRef.current = target;
+        syncTabStops();
+      }
+    };
+
+    const handleMoreClick = (event: MouseEvent<HTMLButtonElement>) => {
+      if (menuOpen) {
+        closeMenu(false);
+      } else {
+        // detail is 0 for clicks from Enter or Space
+        openMenu(event.detail === 0);
+      }
+    };
+
+    const handleMoreKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+      if (vertical || (event.key !== 'ArrowDown' && event.key !== 'ArrowUp')) return;
+      event.preventDefault();
+      openMenu(true);
+    };
+
+    const handleMenuAction = (value: string | undefined) => {
+      closeMenu(true);
+      if (value !== undefined) menuActions.get(value)?.();
+    };
+
+    // Focus moving on from the menu closes it
+    const handleMenuBlur = (event: FocusEvent<HTMLDivElement>) => {
+      const next = event.relatedTarget as Node | null;
+      if (next && !event.currentTarget.contains(next) && !overflowRef.current?.contains(next)) {
+        closeMenu(false);
+      }
+    };
+
+    return (
+      <ToolbarOrientationContext.Provider value={orientation}>
+        <div
+          {...props}
+          ref={assignRefs}
+          role="toolbar"
+          aria-orientation={orientation}
+          className={classNames(
+            'dyn-toolbar',
+            `dyn-toolbar--${orientation}`,
+            hasOverflow && 'dyn-toolbar--overflowing',
+            className
+          )}
+          data-testid={testId}
+          onFocus={handleFocus}
+        >
+          {items.map((item, index) => (
+            <div
+              key={React.isValidElement(item) && item.key !== null ? item.key : index}
+              className={classNames(
+                'dyn-toolbar__item',
+                React.isValidElement(item) && item.type === DynToolbarSeparator && 'dyn-toolbar__item--separator'
+              )}
+              hidden={index >= shownCount}
+            >
+              {item}
+            </div>
+          ))}
+
+          {overflow ? (
+            <div ref={overflowRef} className="dyn-toolbar__overflow" hidden={!hasOverflow}>
+              <button
+                ref={moreButtonRef}
+                type="button"
+                className="dyn-toolbar__overflow-button"
+                aria-label={overflowLabel}
+                aria-haspopup="menu"
+                aria-expanded={menuOpen}
+                aria-controls={menuOpen ? menuId : undefined}
+                onClick={handleMoreClick}
+                onKeyDown={handleMoreKeyDown}
+              >
+                <svg viewBox="0 0 16 16" fill="currentColor" aria-hidden="true">
+                  <circle cx="3" cy="8" r="1.5" />
+                  <circle cx="8" cy="8" r="1.5" />
+                  <circle cx="13" cy="8" r="1.5" />
+                </svg>
+              </button>
+            </div>
+          ) : null}
+        </div>
+
+        {menuOpen && hasOverflow ? (
+          <DynPortal>
+            <DynMenu
+              ref={menuRef}
+              id={menuId}
+              items={menuEntries}
+              aria-label={overflowLabel}
+              className="dyn-toolbar__menu"
+              style={{ ...menuStyles, zIndex: menuZIndex }}
+              onAction={handleMenuAction}
+              onBlur={handleMenuBlur}
+            />
+          </DynPortal>
+        ) : null}
+      </ToolbarOrientationContext.Provider>
+    );
+  }
+);
+
+DynToolbar.displayName = 'DynToolbar';
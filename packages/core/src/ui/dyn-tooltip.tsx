@@ -0,0 +1,318 @@
+import React, { createContext, forwardRef, useCallback, useContext, useEffect, useId, useMemo, useRef } from 'react';
+import type { FocusEvent, KeyboardEvent, SyntheticEvent } from 'react';
+import type { DynTooltipGroupProps, DynTooltipProps, TooltipTrigger } from '../types/components/dyn-tooltip.types';
+import { useTooltip } from '../hooks/use-tooltip';
+import { useLayer } from '../hooks/use-layer';
+import { classNames, getSide } from '../utils';
+import { DynPortal } from './dyn-portal';
+
+const DEFAULT_DELAY = 300;
+const DEFAULT_TRIGGERS: TooltipTrigger[] = ['hover', 'focus', 'longpress'];
+// Time to move the pointer from the trigger onto an interactive tooltip
+const INTERACTIVE_HIDE_DELAY = 100;
+// A tooltip shown by a long press stays up briefly after the finger lifts
+const LONG_PRESS_HIDE_DELAY = 1500;
+// Browsers emulate mouse events after a tap; ignore them for this long
+const TOUCH_MOUSE_GUARD = 1000;
+const FOCUSABLE_SELECTOR = [
+  'button:not([disabled])',
+  '[href]',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+const getFocusableElements = (root: ParentNode) =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
+interface TooltipGroupContextValue {
+  delay: number | undefined;
+  /** Whether a group tooltip is open or just closed */
+  isWarm: () => boolean;
+  onOpen: (close: () => void) => void;
+  onClose: (close: () => void) => void;
+}
+
+const TooltipGroupContext = createContext<TooltipGroupContextValue | null>(null);
+
+/**
+ * DynTooltipGroup - Shares a delay between tooltips, e.g. of toolbar buttons
+ *
+ * Once one tooltip in the group is shown, moving to another trigger shows its
+ * tooltip right away and closes the previous one.
+ */
+export function DynTooltipGroup({ children, delay, timeout = 300 }: DynTooltipGroupProps) {
+  const stateRef = useRef<{ close: (() => void) | null; closedAt: number }>({
+    close: null,
+    closedAt: Number.NEGATIVE_INFINITY
+  });
+
+  const value = useMemo<TooltipGroupContextValue>(() => ({
+    delay,
+    isWarm: () => stateRef.current.close !== null || Date.now() - stateRef.current.closedAt < timeout,
+    onOpen: (close) => {
+      const previous = stateRef.current.close;
+      stateRef.current.close = close;
+      if (previous && previous !== close) previous();
+    },
+    onClose: (close) => {
+      if (stateRef.current.close !== close) return;
+      stateRef.current.close = null;
+      stateRef.current.closedAt = Date.now();
+    }
+  }), [delay, timeout]);
+
+  return <TooltipGroupContext.Provider value={value}>{children}</TooltipGroupContext.Provider>;
+}
+
+/**
+ * DynTooltip - Short description shown next to an element on hover, focus
+ * and long press
+ *
+ * The tooltip is portaled, stays in the viewport (flipping and shifting as
+ * needed), closes on Escape and is linked to the trigger through
+ * aria-describedby while visible. Interactive tooltips join the tab order
+ * right after the trigger, since the portal puts them at the end of the page.
+ */
+export const DynTooltip = forwardRef<HTMLDivElement, DynTooltipProps>(
+  ({
+    content,
+    children,
+    placement = 'top',
+    triggers = DEFAULT_TRIGGERS,
+    delay: delayProp,
+    hideDelay = 0,
+    longPressDelay = 500,
+    arrow = true,
+    interactive = false,
+    disabled = false,
+    className,
+    style,
+    id,
+    onMouseEnter,
+    onMouseLeave,
+    'data-testid': testId,
+    ...props
+  }, ref) => {
+    const group = useContext(TooltipGroupContext);
+    const delay = delayProp ?? group?.delay ?? DEFAULT_DELAY;
+    const generatedId = useId();
+    const tooltipId = id ?? `${generatedId}-tooltip`;
+    const {
+      isVisible,
+      show,
+      hide,
+      triggerRef,
+      tooltipRef,
+      arrowRef,
+      floatingStyles,
+      arrowStyles,
+      placement: currentPlacement
+    } = useTooltip({ placement, delay, hideDelay });
+
+    const open = isVisible && !disabled;
+    const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const lastTouchRef = useRef(Number.NEGATIVE_INFINITY);
+    // Trigger element focus came from when it moved into the tooltip
+    const returnFocusRef = useRef<HTMLElement | null>(null);
+
+    const hideNow = useCallback(() => hide(0), [hide]);
+    const leaveDelay = interactive ? Math.max(hideDelay, INTERACTIVE_HIDE_DELAY) : hideDelay;
+
+    const hasFocusInside = () => Boolean(tooltipRef.current?.contains(document.activeElement));
+    // Events inside the tooltip bubble to the trigger through the portal
+    const isFromTooltip = (event: SyntheticEvent) => Boolean(tooltipRef.current?.contains(event.target as Node));
+
+    // Focus inside the tooltip would be lost with it, so it goes back to the trigger
+    const handleEscape = useCallback(() => {
+      if (tooltipRef.current?.contains(document.activeElement)) {
+        returnFocusRef.current?.focus();
+      }
+      hideNow();
+    }, [tooltipRef, hideNow]);
+
+    const { zIndex } = useLayer({ open, onEscape: handleEscape });
+
+    // Only one tooltip of a group is open at a time
+    useEffect(() => {
+      if (!group) return;
+      if (open) {
+        group.onOpen(hideNow);
+      } else {
+        group.onClose(hideNow);
+      }
+    }, [group, open, hideNow]);
+
+    useEffect(() => () => {
+      if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+    }, []);
+
+    const showTooltip = () => {
+      if (disabled) return;
+      show(group?.isWarm() ? 0 : delay);
+    };
+
+    const has = (trigger: TooltipTrigger) => triggers.includes(trigger);
+
+    const cancelLongPress = () => {
+      if (longPressTimerRef.current) {
+        clearTimeout(longPressTimerRef.current);
+        longPressTimerRef.current = null;
+      }
+    };
+
+    const triggerHandlers = {
+      ...(has('hover') ? {
+        onMouseEnter: () => {
+          if (Date.now() - lastTouchRef.current < TOUCH_MOUSE_GUARD) return;
+          showTooltip();
+        },
+        onMouseLeave: () => {
+          if (!hasFocusInside()) hide(leaveDelay);
+        }
+      } : {}),
+      ...(has('focus') ? {
+        onFocus: (event: FocusEvent) => {
+          if (!isFromTooltip(event)) showTooltip();
+        },
+        onBlur: (event: FocusEvent) => {
+          if (!isFromTooltip(event)) hide(leaveDelay);
+        }
+      } : {}),
+      ...(has('longpress') ? {
+        onTouchStart: () => {
+          lastTouchRef.current = Date.now();
+          if (disabled) return;
+          cancelLongPress();
+          longPressTimerRef.current = setTimeout(() => show(0), longPressDelay);
+        },
+        onTouchMove: cancelLongPress,
+        onTouchEnd: () => {
+          lastTouchRef.current = Date.now();
+          cancelLongPress();
+          if (isVisible) hide(LONG_PRESS_HIDE_DELAY);
+        },
+        onTouchCancel: cancelLongPress
+      } : {}),
+      // Tab from the trigger moves into an interactive tooltip's controls
+      ...(interactive ? {
+        onKeyDown: (event: KeyboardEvent) => {
+          if (event.key !== 'Tab' || event.shiftKey || !open || isFromTooltip(event)) return;
+          const tooltip = tooltipRef.current;
+          const [first] = tooltip ? getFocusableElements(tooltip) : [];
+          if (!first) return;
+          event.preventDefault();
+          returnFocusRef.current = event.target as HTMLElement;
+          first.focus();
+        }
+      } : {})
+    };
+
+    // Tabbing past either end of the tooltip continues around the trigger
+    const handleTooltipKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+      if (event.key !== 'Tab') return;
+      const tooltip = event.currentTarget;
+      const focusable = getFocusableElements(tooltip);
+
+      if (event.shiftKey) {
+        if (event.target !== focusable[0]) return;
+        event.preventDefault();
+        returnFocusRef.current?.focus();
+        return;
+      }
+
+      if (event.target !== focusable[focusable.length - 1]) return;
+      const triggerElement = triggerRef.current;
+      const next = triggerElement && getFocusableElements(document).find(element =>
+        !triggerElement.contains(element)
+        && !tooltip.contains(element)
+        && Boolean(triggerElement.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+      );
+      event.preventDefault();
+      (next ?? returnFocusRef.current)?.focus();
+      hideNow();
+    };
+
+    // Focus leaving for anywhere but the trigger closes the tooltip
+    const handleTooltipBlur = (event: FocusEvent<HTMLDivElement>) => {
+      const target = event.relatedTarget as Node | null;
+      if (target && (event.currentTarget.contains(target) || triggerRef.current?.contains(target))) return;
+      hide(leaveDelay);
+    };
+
+    const assignRefs = useCallback(
+      (node: HTMLDivElement | null) => {
+        tooltipRef.current = node;
+        if (!ref) return;
+        if (typeof ref === 'function') {
+          ref(node);
+        } else {
+          (ref as React.MutableRefObject<HTMLDivElement | null>).current = node;
+        }
+      },
+      [tooltipRef, ref]
+    );
+
+    const trigger = React.isValidElement<{ 'aria-describedby'?: string }>(children) && open
+      ? React.cloneElement(children, {
+        'aria-describedby': classNames(children.props['aria-describedby'], tooltipId)
+      })
+      : children;
+
+    return (
+      <span
+        ref={triggerRef as React.MutableRefObject<HTMLSpanElement | null>}
+        className="dyn-tooltip-trigger"
+        {...triggerHandlers}
+      >
+        {trigger}
+        {open ? (
+          <DynPortal>
+            <div
+              {...props}
+              ref={assignRefs}
+              id={tooltipId}
+              role="tooltip"
+              className={classNames(
+                'dyn-tooltip',
+                `dyn-tooltip--${getSide(currentPlacement)}`,
+                interactive && 'dyn-tooltip--interactive',
+                className
+              )}
+              style={{ ...style, ...floatingStyles, zIndex }}
+              data-testid={testId}
+              // Hovering an interactive tooltip keeps it open
+              onMouseEnter={(event) => {
+                onMouseEnter?.(event);
+                if (interactive) show(0);
+              }}
+              onMouseLeave={(event) => {
+                onMouseLeave?.(event);
+                if (interactive && !hasFocusInside()) hide(leaveDelay);
+              }}
+              // So does focus inside it
+              {...(interactive ? {
+                onFocus: () => show(0),
+                onBlur: handleTooltipBlur,
+                onKeyDown: handleTooltipKeyDown
+              } : {})}
+            >
+              {content}
+              {arrow ? (
+                <span
+                  ref={arrowRef as React.MutableRefObject<HTMLSpanElement | null>}
+                  className="dyn-tooltip__arrow"
+                  style={arrowStyles}
+                  aria-hidden="true"
+                />
+              ) : null}
+            </div>
+          </DynPortal>
+        ) : null}
+      </span>
+    );
+  }
+);
+
+DynTooltip.displayName = 'DynTooltip';
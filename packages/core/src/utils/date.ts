@@ -0,0 +1,195 @@
+/**
+ * Calendar date helpers working on ISO date strings (YYYY-MM-DD)
+ *
+ * Dates are calendar days without a time zone; arithmetic goes through UTC
+ * so daylight saving changes never shift a day.
+ */
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export interface DateParts {
+  year: number
+  /** 1-12 */
+  month: number
+  day: number
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Parses an ISO date string; returns null for malformed or non-existent dates
+ */
+export function parseISODate(value: string | null | undefined): DateParts | null {
+  const match = value ? ISO_DATE.exec(value) : null
+  if (!match) return null
+  const year = Number(match[1])
+  const month = Number(match[2])
+  const day = Number(match[3])
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null
+  return { year, month, day }
+}
+
+export function toISODate({ year, month, day }: DateParts): string {
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`
+}
+
+const toUTCDate = ({ year, month, day }: DateParts) => new Date(Date.UTC(year, month - 1, day))
+
+const fromUTCDate = (date: Date): DateParts => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate()
+})
+
+/**
+ * Today in the local time zone
+ */
+export function getTodayISO(): string {
+  const now = new Date()
+  return toISODate({ year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() })
+}
+
+export function addDays(iso: string, days: number): string {
+  const parts = parseISODate(iso)
+  if (!parts) return iso
+  const date = toUTCDate(parts)
+  date.setUTCDate(date.getUTCDate() + days)
+  return toISODate(fromUTCDate(date))
+}
+
+/**
+ * Moves by whole months, keeping the day where the target month allows
+ * (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonths(iso: string, months: number): string {
+  const parts = parseISODate(iso)
+  if (!parts) return iso
+  const monthIndex = parts.year * 12 + (parts.month - 1) + months
+  const year = Math.floor(monthIndex / 12)
+  const month = monthIndex - year * 12 + 1
+  return toISODate({ year, month, day: Math.min(parts.day, getDaysInMonth(year, month)) })
+}
+
+/**
+ * Day of the week, 0 (Sunday) to 6 (Saturday)
+ */
+export function getDayOfWeek(iso: string): number {
+  const parts = parseISODate(iso)
+  return parts ? toUTCDate(parts).getUTCDay() : 0
+}
+
+/**
+ * Whether `iso` lies between `start` and `end`, inclusive, in either order
+ */
+export function isDateBetween(iso: string, start: string, end: string): boolean {
+  const [from, to] = start <= end ? [start, end] : [end, start]
+  return iso >= from && iso <= to
+}
+
+/**
+ * Formats an ISO date with Intl; the date is formatted as a UTC day so the
+ * local time zone cannot move it
+ */
+export function formatISODate(iso: string, locale: string | undefined, options: Intl.DateTimeFormatOptions): string {
+  const parts = parseISODate(iso)
+  if (!parts) return ''
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(toUTCDate(parts))
+}
+
+// Regions whose weeks start on Sunday or Saturday; Monday elsewhere
+const SUNDAY_FIRST_REGIONS = new Set([
+  'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU', 'HK', 'HN',
+  'ID', 'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX', 'MZ', 'NI', 'NP', 'PA',
+  'PE', 'PH', 'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW', 'UM', 'US', 'VE', 'VI', 'WS', 'YE',
+  'ZA', 'ZW'
+])
+const SATURDAY_FIRST_REGIONS = new Set(['AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY'])
+
+/**
+ * First day of the week for a locale, 0 (Sunday) to 6 (Saturday)
+ */
+export function getFirstDayOfWeek(locale?: string): number {
+  const resolved = new Intl.DateTimeFormat(locale).resolvedOptions().locale
+  const intlLocale = new Intl.Locale(resolved) as Intl.Locale & {
+    getWeekInfo?: () => { firstDay: number }
+    weekInfo?: { firstDay: number }
+  }
+
+  // Week info is reported with 1 (Monday) to 7 (Sunday)
+  const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo
+  if (weekInfo) return weekInfo.firstDay % 7
+
+  const region = intlLocale.maximize().region ?? ''
+  if (SUNDAY_FIRST_REGIONS.has(region)) return 0
+  if (SATURDAY_FIRST_REGIONS.has(region)) return 6
+  return 1
+}
+
+export type DateSegment = 'day' | 'month' | 'year'
+
+export interface DateInputFormat {
+  /** Order of the segments in the locale */
+  order: DateSegment[]
+  /** Separator between the segments */
+  separator: string
+  /** Mask pattern for `applyMask`, e.g. '99/99/9999' */
+  mask: string
+  /** Placeholder, e.g. 'MM/DD/YYYY' */
+  placeholder: string
+}
+
+const SEGMENT_LENGTHS: Record<DateSegment, number> = { day: 2, month: 2, year: 4 }
+const SEGMENT_PLACEHOLDERS: Record<DateSegment, string> = { day: 'DD', month: 'MM', year: 'YYYY' }
+
+/**
+ * Numeric date entry format of a locale, with two digit day and month and a
+ * four digit year
+ */
+export function getDateInputFormat(locale?: string): DateInputFormat {
+  const parts = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' })
+    .formatToParts(new Date(Date.UTC(2000, 10, 22)))
+
+  const order = parts
+    .map(part => part.type)
+    .filter((type): type is DateSegment => type === 'day' || type === 'month' || type === 'year')
+  const separator = parts.find(part => part.type === 'literal')?.value.trim().charAt(0) || '/'
+
+  return {
+    order,
+    separator,
+    mask: order.map(segment => '9'.repeat(SEGMENT_LENGTHS[segment])).join(separator),
+    placeholder: order.map(segment => SEGMENT_PLACEHOLDERS[segment]).join(separator)
+  }
+}
+
+/**
+ * Formats an ISO date as typed in the input
+ */
+export function formatDateInput(iso: string, format: DateInputFormat): string {
+  const parts = parseISODate(iso)
+  if (!parts) return ''
+  return format.order.map(segment => pad(parts[segment], SEGMENT_LENGTHS[segment])).join(format.separator)
+}
+
+/**
+ * Parses a fully typed date; returns null while incomplete or invalid
+ */
+export function parseDateInput(text: string, format: DateInputFormat): string | null {
+  const digits = text.replace(/\D/g, '')
+  if (digits.length !== 8) return null
+
+  const parts: DateParts = { year: 0, month: 0, day: 0 }
+  let index = 0
+  for (const segment of format.order) {
+    const length = SEGMENT_LENGTHS[segment]
+    parts[segment] = Number(digits.slice(index, index + length))
+    index += length
+  }
+
+  const iso = toISODate(parts)
+  return parseISODate(iso) ? iso : null
+}
@@ -6,6 +6,12 @@ import type { CSSProperties } from 'react'
 export * from './class-names'
 export * from './generate-initials'
 export * from './style-props'
+export * from './table-export'
+export * from './positioning'
+export * from './layer-stack'
+export * from './toast-store'
+export * from './mask'
+export * from './date'
 
 // Back-compat helpers used by components
 export function classNames(...classes: Array<string | number | false | null | undefined>) {
@@ -0,0 +1,143 @@
+/**
+ * Stack of open overlays (modals, dropdowns, popovers)
+ *
+ * Each overlay registers a layer while open. Layers get increasing z-indexes
+ * in the order they open, Escape and clicks outside are only reported to the
+ * topmost layer handling them, and the page scroll is locked once while any
+ * layer asks for it, however deeply overlays are nested. Layers without a
+ * handler, such as tooltips, let the event through to the layer below.
+ */
+
+/** z-index of the first layer */
+export const LAYER_BASE_Z_INDEX = 1000
+/** z-index gap between stacked layers, leaving room inside each layer */
+export const LAYER_Z_INDEX_STEP = 10
+
+export interface LayerOptions {
+  /** Elements belonging to the layer; clicks inside them are not outside clicks */
+  getElements?: (() => Array<Element | null | undefined>) | undefined
+  /** Called when Escape is pressed and no layer above handles it */
+  onEscape?: ((event: KeyboardEvent) => void) | undefined
+  /** Called on a mousedown outside the layer when no layer above handles it */
+  onOutsideClick?: ((event: MouseEvent) => void) | undefined
+  /** Prevent the page from scrolling while the layer is open */
+  lockScroll?: boolean | undefined
+}
+
+export interface LayerHandle {
+  /** z-index assigned to the layer */
+  readonly zIndex: number
+  /** Whether no layer opened after this one is still open */
+  isTopmost: () => boolean
+  /** Replace the layer options, e.g. with fresh handlers */
+  update: (options: LayerOptions) => void
+  /** Remove the layer from the stack */
+  remove: () => void
+}
+
+interface LayerEntry {
+  zIndex: number
+  options: LayerOptions
+}
+
+const layers: LayerEntry[] = []
+
+// Body styles to restore when the scroll lock is released
+let scrollLock: { overflow: string, paddingRight: string } | null = null
+
+function syncScrollLock() {
+  const shouldLock = layers.some(layer => layer.options.lockScroll)
+  const { body } = document
+
+  if (shouldLock && !scrollLock) {
+    scrollLock = { overflow: body.style.overflow, paddingRight: body.style.paddingRight }
+    // Keep the layout from shifting when the scrollbar disappears
+    const scrollbarWidth = window.innerWidth - document.documentElement.clientWidth
+    if (scrollbarWidth > 0) {
+      const currentPadding = parseFloat(getComputedStyle(body).paddingRight) || 0
+      body.style.paddingRight = `${currentPadding + scrollbarWidth}px`
+    }
+    body.style.overflow = 'hidden'
+  } else if (!shouldLock && scrollLock) {
+    body.style.overflow = scrollLock.overflow
+    body.style.paddingRight = scrollLock.paddingRight
+    scrollLock = null
+  }
+}
+
+// Whether an event happened inside the layer; the composed path also
+// covers elements inside shadow roots
+function isInsideLayer(event: Event, layer: LayerEntry) {
+  const elements = layer.options.getElements?.().filter((element): element is Element => Boolean(element)) ?? []
+  const path = event.composedPath?.() ?? []
+  return elements.some(element =>
+    path.includes(element) || (event.target instanceof Node && element.contains(event.target))
+  )
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.key !== 'Escape' || event.defaultPrevented) return
+  for (let index = layers.length - 1; index >= 0; index--) {
+    const { onEscape } = (layers[index] as LayerEntry).options
+    if (onEscape) {
+      onEscape(event)
+      return
+    }
+  }
+}
+
+function handleMouseDown(event: MouseEvent) {
+  for (let index = layers.length - 1; index >= 0; index--) {
+    const layer = layers[index] as LayerEntry
+    // A click inside any open overlay is not outside the ones below it
+    if (isInsideLayer(event, layer)) return
+    if (layer.options.onOutsideClick) {
+      layer.options.onOutsideClick(event)
+      return
+    }
+  }
+}
+
+/**
+ * Adds a layer on top of the stack
+ */
+export function pushLayer(options: LayerOptions = {}): LayerHandle {
+  const top = layers[layers.length - 1]
+  const entry: LayerEntry = {
+    zIndex: top ? top.zIndex + LAYER_Z_INDEX_STEP : LAYER_BASE_Z_INDEX,
+    options
+  }
+
+  if (layers.length === 0) {
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+  }
+  layers.push(entry)
+  syncScrollLock()
+
+  return {
+    zIndex: entry.zIndex,
+    isTopmost: () => layers[layers.length - 1] === entry,
+    update: (nextOptions) => {
+      entry.options = nextOptions
+      syncScrollLock()
+    },
+    remove: () => {
+      const index = layers.indexOf(entry)
+      if (index < 0) return
+      layers.splice(index, 1)
+      syncScrollLock()
+      if (layers.length === 0) {
+        document.removeEventListener('keydown', handleKeyDown)
+        document.removeEventListener('mousedown', handleMouseDown)
+      }
+    }
+  }
+}
+
+/**
+ * Number of open layers
+ */
+export function getLayerCount(): number {
+  return layers.length
+}
@@ -0,0 +1,51 @@
+/**
+ * Input mask engine shared by the inputs and the date picker
+ *
+ * Pattern characters: `9` digit, `A` letter (uppercased), `*` any character;
+ * everything else is a literal inserted as the user types.
+ */
+
+const MASK_PLACEHOLDERS = /[9A*]/
+
+/**
+ * Formats raw input with a mask pattern, stopping at the first character
+ * that does not fit
+ */
+export function applyMask(value: string, mask: string): string {
+  let maskedValue = ''
+  let valueIndex = 0
+
+  for (let i = 0; i < mask.length && valueIndex < value.length; i++) {
+    const maskChar = mask.charAt(i)
+    const inputChar = value.charAt(valueIndex)
+
+    if (maskChar === '9') {
+      // Digit placeholder
+      if (!/\d/.test(inputChar)) break
+      maskedValue += inputChar
+      valueIndex++
+    } else if (maskChar === 'A') {
+      // Letter placeholder
+      if (!/[A-Za-z]/.test(inputChar)) break
+      maskedValue += inputChar.toUpperCase()
+      valueIndex++
+    } else if (maskChar === '*') {
+      // Any character placeholder
+      maskedValue += inputChar
+      valueIndex++
+    } else {
+      // Literal character
+      maskedValue += maskChar
+    }
+  }
+
+  return maskedValue
+}
+
+/**
+ * Removes the literal characters of a mask pattern from a value
+ */
+export function removeMask(value: string, mask: string): string {
+  const maskChars = new Set([...mask].filter(char => !MASK_PLACEHOLDERS.test(char)))
+  return value.split('').filter(char => !maskChars.has(char)).join('')
+}
@@ -0,0 +1,216 @@
+/**
+ * Positions floating elements (dropdowns, menus, tooltips) next to a
+ * reference element while keeping them inside a boundary
+ */
+
+export type Side = 'top' | 'right' | 'bottom' | 'left'
+export type Alignment = 'start' | 'end'
+export type Placement = Side | `${Side}-${Alignment}`
+
+/** Rectangle in viewport coordinates */
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ComputePositionOptions {
+  /** Preferred side and alignment (default 'bottom') */
+  placement?: Placement | undefined
+  /** Gap between the reference and the floating element, in pixels */
+  offset?: number | undefined
+  /** Move to the opposite side when the preferred side lacks room (default true) */
+  flip?: boolean | undefined
+  /** Slide along the reference to stay inside the boundary (default true) */
+  shift?: boolean | undefined
+  /** Minimum distance kept from the boundary edges (default 8) */
+  padding?: number | undefined
+  /** Length of the arrow along the floating edge, to keep it off the corners */
+  arrowSize?: number | undefined
+}
+
+export interface PositionResult {
+  /** Left edge of the floating element */
+  x: number
+  /** Top edge of the floating element */
+  y: number
+  /** Placement after flipping */
+  placement: Placement
+  /** Room on the chosen side, for sizing the floating element to fit */
+  availableWidth: number
+  availableHeight: number
+  /** Arrow position along the floating edge facing the reference */
+  arrowOffset: number
+}
+
+const OPPOSITE_SIDES: Record<Side, Side> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left'
+}
+
+export function getSide(placement: Placement): Side {
+  return placement.split('-')[0] as Side
+}
+
+export function getAlignment(placement: Placement): Alignment | undefined {
+  return placement.split('-')[1] as Alignment | undefined
+}
+
+const isVertical = (side: Side) => side === 'top' || side === 'bottom'
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), Math.max(min, max))
+
+// Room between the reference and the boundary edge on a side
+function getSpace(side: Side, reference: Rect, boundary: Rect): number {
+  switch (side) {
+    case 'top':
+      return reference.y - boundary.y
+    case 'bottom':
+      return boundary.y + boundary.height - (reference.y + reference.height)
+    case 'left':
+      return reference.x - boundary.x
+    case 'right':
+      return boundary.x + boundary.width - (reference.x + reference.width)
+  }
+}
+
+// Unclamped coordinates for a placement
+function getCoords(placement: Placement, reference: Rect, floating: Pick<Rect, 'width' | 'height'>, offset: number) {
+  const side = getSide(placement)
+  const alignment = getAlignment(placement)
+  let x = 0
+  let y = 0
+
+  if (isVertical(side)) {
+    y = side === 'top' ? reference.y - floating.height - offset : reference.y + reference.height + offset
+    x = alignment === 'start'
+      ? reference.x
+      : alignment === 'end'
+        ? reference.x + reference.width - floating.width
+        : reference.x + (reference.width - floating.width) / 2
+  } else {
+    x = side === 'left' ? reference.x - floating.width - offset : reference.x + reference.width + offset
+    y = alignment === 'start'
+      ? reference.y
+      : alignment === 'end'
+        ? reference.y + reference.height - floating.height
+        : reference.y + (reference.height - floating.height) / 2
+  }
+
+  return { x, y }
+}
+
+/**
+ * Computes where to put a floating element of the given size
+ */
+export function computePosition(
+  reference: Rect,
+  floating: Pick<Rect, 'width' | 'height'>,
+  boundary: Rect,
+  {
+    placement = 'bottom',
+    offset = 0,
+    flip = true,
+    shift = true,
+    padding = 8,
+    arrowSize = 0
+  }: ComputePositionOptions = {}
+): PositionResult {
+  let finalPlacement = placement
+  let side = getSide(placement)
+  const floatingLength = isVertical(side) ? floating.height : floating.width
+
+  if (flip) {
+    const opposite = OPPOSITE_SIDES[side]
+    const space = getSpace(side, reference, boundary) - padding
+    const oppositeSpace = getSpace(opposite, reference, boundary) - padding
+    if (floatingLength + offset > space && oppositeSpace > space) {
+      side = opposite
+      const alignment = getAlignment(placement)
+      finalPlacement = alignment ? `${side}-${alignment}` : side
+    }
+  }
+
+  let { x, y } = getCoords(finalPlacement, reference, floating, offset)
+
+  if (shift) {
+    if (isVertical(side)) {
+      x = clamp(x, boundary.x + padding, boundary.x + boundary.width - padding - floating.width)
+    } else {
+      y = clamp(y, boundary.y + padding, boundary.y + boundary.height - padding - floating.height)
+    }
+  }
+
+  const sideSpace = Math.max(0, getSpace(side, reference, boundary) - offset - padding)
+  const crossSpace = Math.max(0, (isVertical(side) ? boundary.width : boundary.height) - padding * 2)
+
+  // Arrow points at the reference center, away from the rounded corners
+  const referenceCenter = isVertical(side)
+    ? reference.x + reference.width / 2 - x
+    : reference.y + reference.height / 2 - y
+  const crossLength = isVertical(side) ? floating.width : floating.height
+  const arrowOffset = clamp(referenceCenter - arrowSize / 2, arrowSize / 2, crossLength - arrowSize * 1.5)
+
+  return {
+    x,
+    y,
+    placement: finalPlacement,
+    availableWidth: isVertical(side) ? crossSpace : sideSpace,
+    availableHeight: isVertical(side) ? sideSpace : crossSpace,
+    arrowOffset
+  }
+}
+
+/**
+ * Visible part of the viewport
+ */
+export function getViewportRect(): Rect {
+  const { documentElement } = document
+  return {
+    x: 0,
+    y: 0,
+    width: documentElement.clientWidth || window.innerWidth,
+    height: documentElement.clientHeight || window.innerHeight
+  }
+}
+
+const CLIPPING_OVERFLOW = /auto|scroll|hidden|clip/
+
+/**
+ * Part of the viewport in which an element can be seen, i.e. the viewport
+ * intersected with every ancestor that clips its overflow
+ */
+export function getClippingRect(element: Element): Rect {
+  let left = 0
+  let top = 0
+  const viewport = getViewportRect()
+  let right = viewport.width
+  let bottom = viewport.height
+
+  for (let ancestor = element.parentElement; ancestor && ancestor !== document.body; ancestor = ancestor.parentElement) {
+    const style = getComputedStyle(ancestor)
+    if (!CLIPPING_OVERFLOW.test(`${style.overflow}${style.overflowX}${style.overflowY}`)) continue
+
+    const rect = ancestor.getBoundingClientRect()
+    left = Math.max(left, rect.left)
+    top = Math.max(top, rect.top)
+    right = Math.min(right, rect.right)
+    bottom = Math.min(bottom, rect.bottom)
+  }
+
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) }
+}
+
+/**
+ * Whether a rectangle lies entirely outside a clipping rectangle
+ */
+export function isRectHidden(rect: Rect, clip: Rect): boolean {
+  return rect.x + rect.width < clip.x
+    || rect.x > clip.x + clip.width
+    || rect.y + rect.height < clip.y
+    || rect.y > clip.y + clip.height
+}
@@ -0,0 +1,114 @@
+/**
+ * Serializes tabular records to CSV, TSV or JSON
+ */
+
+export type ExportFormat = 'csv' | 'tsv' | 'json'
+
+export interface ExportColumn<T> {
+  /** Key used for JSON properties */
+  key: string
+  /** Header text for CSV and TSV */
+  title: string
+  /** Reads the exported value of a record */
+  getValue: (record: T) => unknown
+}
+
+export interface SerializeRecordsOptions {
+  format: ExportFormat
+  /** Write a header row (CSV and TSV only, default true) */
+  includeHeaders?: boolean | undefined
+  /** Prefix a UTF-8 byte order mark so Excel detects the encoding (CSV and TSV only) */
+  bom?: boolean | undefined
+  /** Neutralize text starting with =, +, - or @ so spreadsheets do not run it as a formula */
+  escapeFormulas?: boolean | undefined
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  json: 'application/json;charset=utf-8'
+}
+
+const BOM = '\uFEFF'
+const LINE_BREAK = '\r\n'
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Plain text for a delimited cell
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Quotes a value for a delimited file (RFC 4180) when it contains the
+ * delimiter, quotes, line breaks or surrounding whitespace
+ */
+export function escapeDelimitedValue(value: string, delimiter: string): string {
+  const needsQuotes = value.includes(delimiter)
+    || /["\r\n]/.test(value)
+    || value !== value.trim()
+
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serializes records with the given columns
+ */
+export function serializeRecords<T>(
+  records: T[],
+  columns: ExportColumn<T>[],
+  { format, includeHeaders = true, bom = false, escapeFormulas = false }: SerializeRecordsOptions
+): string {
+  if (format === 'json') {
+    const rows = records.map(record => {
+      const row: Record<string, unknown> = {}
+      columns.forEach(column => {
+        row[column.key] = column.getValue(record) ?? null
+      })
+      return row
+    })
+    return JSON.stringify(rows, null, 2)
+  }
+
+  const delimiter = format === 'tsv' ? '\t' : ','
+
+  const formatCell = (value: unknown) => {
+    let text = toCellText(value)
+    if (escapeFormulas && typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`
+    }
+    return escapeDelimitedValue(text, delimiter)
+  }
+
+  const lines = records.map(record =>
+    columns.map(column => formatCell(column.getValue(record))).join(delimiter)
+  )
+  if (includeHeaders) {
+    lines.unshift(columns.map(column => formatCell(column.title)).join(delimiter))
+  }
+
+  return (bom ? BOM : '') + lines.join(LINE_BREAK)
+}
+
+/**
+ * Offers text content to the user as a file download
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+
+  // Some browsers start the download asynchronously and cancel it when the
+  // URL is revoked right away
+  setTimeout(() => {
+    link.remove()
+    URL.revokeObjectURL(url)
+  }, 0)
+}
@@ -0,0 +1,117 @@
+/**
+ * Store behind the `toast` API
+ *
+ * Toasts can be shown from anywhere, including code outside React
+ * components; DynToaster subscribes to the store and renders them.
+ */
+import type { ReactNode } from 'react'
+import type { Color } from '../types/common.types'
+import type { ToastData, ToastOptions, ToastPromiseMessages } from '../types/components/dyn-toast.types'
+
+/** Milliseconds a toast stays open by default */
+export const TOAST_DEFAULT_DURATION = 5000
+
+type Listener = () => void
+
+let toasts: readonly ToastData[] = []
+let toastCount = 0
+let lastUpdate = 0
+const listeners = new Set<Listener>()
+
+function emit(next: readonly ToastData[]) {
+  toasts = next
+  listeners.forEach(listener => listener())
+}
+
+// Strictly increasing, so updating a toast within the same millisecond
+// still restarts its timer
+function nextUpdateTime() {
+  lastUpdate = Math.max(Date.now(), lastUpdate + 1)
+  return lastUpdate
+}
+
+/**
+ * Subscribes to toast changes; returns the unsubscribe function
+ */
+export function subscribeToToasts(listener: Listener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Open toasts, oldest first
+ */
+export function getToasts(): readonly ToastData[] {
+  return toasts
+}
+
+function showToast(
+  message: ReactNode,
+  { id: idOption, color = 'neutral', duration = TOAST_DEFAULT_DURATION, dismissible = true, ...options }: ToastOptions = {},
+  loading = false
+): string {
+  const id = idOption ?? `toast-${++toastCount}`
+  const data: ToastData = { ...options, id, message, color, duration, dismissible, loading, updatedAt: nextUpdateTime() }
+
+  // Deduplicate by id: an open toast is updated in place
+  const exists = toasts.some(item => item.id === id)
+  emit(exists ? toasts.map(item => (item.id === id ? data : item)) : [...toasts, data])
+  return id
+}
+
+function dismissToast(id?: string) {
+  const removed = id === undefined ? toasts : toasts.filter(item => item.id === id)
+  if (removed.length === 0) return
+  emit(id === undefined ? [] : toasts.filter(item => item.id !== id))
+  removed.forEach(item => item.onDismiss?.(item.id))
+}
+
+const withColor = (color: Color) =>
+  (message: ReactNode, options?: ToastOptions) => showToast(message, { ...options, color })
+
+function promiseToast<T>(
+  promise: Promise<T>,
+  messages: ToastPromiseMessages<T>,
+  options: ToastOptions = {}
+): Promise<T> {
+  const id = showToast(messages.loading, { ...options, color: options.color ?? 'info' }, true)
+
+  promise.then(
+    value => {
+      const message = typeof messages.success === 'function' ? messages.success(value) : messages.success
+      showToast(message, { ...options, id, color: 'success' })
+    },
+    error => {
+      const message = typeof messages.error === 'function' ? messages.error(error) : messages.error
+      showToast(message, { ...options, id, color: 'danger' })
+    }
+  )
+
+  return promise
+}
+
+/**
+ * Shows a toast and returns its id
+ *
+ * @example
+ * toast.success('Saved')
+ * toast.error('Upload failed', { action: { label: 'Retry', onClick: retry } })
+ * toast.promise(save(), { loading: 'Saving...', success: 'Saved', error: 'Could not save' })
+ */
+export const toast = Object.assign(
+  (message: ReactNode, options?: ToastOptions) => showToast(message, options),
+  {
+    info: withColor('info'),
+    success: withColor('success'),
+    warning: withColor('warning'),
+    error: withColor('danger'),
+    /** Toast that stays open until updated through its id or dismissed */
+    loading: (message: ReactNode, options?: ToastOptions) => showToast(message, options, true),
+    /** Follows a promise: loading, then success or error; returns the promise */
+    promise: promiseToast,
+    /** Closes one toast, or all toasts without an id */
+    dismiss: dismissToast
+  }
+)
@@ -0,0 +1,118 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynDatepicker } from '../../src/ui/dyn-datepicker'
+
+const getCell = (iso: string) => document.querySelector(`[data-date="${iso}"]`) as HTMLElement
+
+describe('DynDatepicker', () => {
+  it('masks typed dates in the locale order and emits ISO strings', () => {
+    const onChange = vi.fn()
+    render(<DynDatepicker locale="en-US" onChange={onChange} aria-label="Due date" />)
+
+    const input = screen.getByRole('textbox', { name: 'Due date' })
+    expect(input).toHaveAttribute('placeholder', 'MM/DD/YYYY')
+
+    fireEvent.change(input, { target: { value: '0315' } })
+    expect(input).toHaveValue('03/15')
+    expect(onChange).not.toHaveBeenCalled()
+
+    fireEvent.change(input, { target: { value: '03152024' } })
+    expect(input).toHaveValue('03/15/2024')
+    expect(onChange).toHaveBeenCalledWith('2024-03-15')
+
+    // Invalid dates are not committed and revert on blur
+    fireEvent.change(input, { target: { value: '02302024' } })
+    expect(onChange).toHaveBeenCalledTimes(1)
+    fireEvent.blur(input)
+    expect(input).toHaveValue('03/15/2024')
+  })
+
+  it('uses the locale for the date order, names and first day of the week', () => {
+    render(<DynDatepicker locale="de-DE" defaultValue="2024-03-15" aria-label="Datum" />)
+
+    expect(screen.getByRole('textbox', { name: 'Datum' })).toHaveValue('15.03.2024')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Choose date' }))
+    expect(screen.getByRole('heading')).toHaveTextContent('März 2024')
+    expect(screen.getAllByRole('columnheader')[0]).toHaveAttribute('abbr', 'Montag')
+  })
+
+  it('navigates the grid with the keyboard and selects with Enter', () => {
+    const onChange = vi.fn()
+    render(<DynDatepicker locale="en-US" defaultValue="2024-03-15" onChange={onChange} aria-label="Due date" />)
+
+    const toggle = screen.getByRole('button', { name: 'Choose date' })
+    fireEvent.click(toggle)
+
+    const grid = screen.getByRole('grid')
+    expect(getCell('2024-03-15')).toHaveFocus()
+    expect(getCell('2024-03-15')).toHaveAttribute('aria-selected', 'true')
+    expect(screen.getAllByRole('columnheader')[0]).toHaveAttribute('abbr', 'Sunday')
+
+    fireEvent.keyDown(grid, { key: 'ArrowRight' })
+    fireEvent.keyDown(grid, { key: 'ArrowDown' })
+    expect(getCell('2024-03-23')).toHaveFocus()
+
+    fireEvent.keyDown(grid, { key: 'PageDown' })
+    expect(screen.getByRole('heading')).toHaveTextContent('April 2024')
+    expect(getCell('2024-04-23')).toHaveFocus()
+
+    fireEvent.keyDown(grid, { key: 'Home' })
+    expect(getCell('2024-04-21')).toHaveFocus()
+
+    fireEvent.keyDown(grid, { key: 'Enter' })
+    expect(onChange).toHaveBeenCalledWith('2024-04-21')
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+    expect(toggle).toHaveFocus()
+  })
+
+  it('keeps dates outside min/max and disabled dates from being selected', () => {
+    const onChange = vi.fn()
+    const isWeekend = (iso: string) => [0, 6].includes(new Date(`${iso}T00:00:00Z`).getUTCDay())
+    render(
+      <DynDatepicker
+        locale="en-US"
+        defaultValue="2024-03-15"
+        max="2024-03-20"
+        isDateDisabled={isWeekend}
+        onChange={onChange}
+        aria-label="Due date"
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Choose date' }))
+    expect(getCell('2024-03-16')).toHaveAttribute('aria-disabled', 'true')
+    expect(getCell('2024-03-21')).toHaveAttribute('aria-disabled', 'true')
+
+    fireEvent.click(getCell('2024-03-16'))
+    expect(onChange).not.toHaveBeenCalled()
+
+    fireEvent.keyDown(screen.getByRole('grid'), { key: 'ArrowDown' })
+    expect(getCell('2024-03-20')).toHaveFocus()
+  })
+
+  it('selects a range in either order', () => {
+    const onChange = vi.fn()
+    render(<DynDatepicker range locale="en-US" defaultValue={['2024-03-12', '2024-03-14']} onChange={onChange} aria-label="Stay" name="stay" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Choose dates' }))
+    expect(getCell('2024-03-13')).toHaveClass('dyn-datepicker-day--in-range')
+
+    fireEvent.click(getCell('2024-03-10'))
+    expect(onChange).toHaveBeenLastCalledWith(['2024-03-10', ''])
+    expect(screen.getByRole('dialog')).toBeInTheDocument()
+
+    fireEvent.click(getCell('2024-03-05'))
+    expect(onChange).toHaveBeenLastCalledWith(['2024-03-05', '2024-03-10'])
+    expect(screen.getByRole('textbox', { name: 'Stay' })).toHaveValue('03/05/2024 – 03/10/2024')
+    expect(document.querySelector('input[name="stay"]')).toHaveValue('2024-03-05/2024-03-10')
+  })
+
+  it('closes the calendar on Escape', () => {
+    render(<DynDatepicker locale="en-US" aria-label="Due date" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Choose date' }))
+    fireEvent.keyDown(document.body, { key: 'Escape' })
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+})
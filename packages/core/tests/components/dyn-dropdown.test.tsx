@@ -0,0 +1,156 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynDropdown } from '../../src/ui/dyn-dropdown'
+import type { DynMenuItemConfig } from '../../src/types/components/dyn-menu.types'
+
+const items: DynMenuItemConfig[] = [
+  { type: 'item', value: 'save', label: 'Save', shortcut: 'Ctrl+S' },
+  {
+    type: 'item',
+    value: 'export',
+    label: 'Export',
+    items: [
+      { type: 'item', value: 'pdf', label: 'PDF' },
+      { type: 'item', value: 'csv', label: 'CSV' }
+    ]
+  },
+  { type: 'divider' },
+  { type: 'checkbox', value: 'wrap', label: 'Word wrap', checked: true },
+  { type: 'radio', value: 'light', label: 'Light theme', checked: false }
+]
+
+describe('DynDropdown', () => {
+  it('opens from the keyboard and returns focus to the trigger on Escape', () => {
+    const onOpenChange = vi.fn()
+    render(<DynDropdown label="File" items={items} onOpenChange={onOpenChange} />)
+
+    const trigger = screen.getByRole('button', { name: 'File' })
+    expect(trigger).toHaveAttribute('aria-haspopup', 'menu')
+    expect(trigger).toHaveAttribute('aria-expanded', 'false')
+
+    trigger.focus()
+    fireEvent.keyDown(trigger, { key: 'ArrowDown' })
+
+    expect(trigger).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getByRole('menu', { name: 'File' })).toBeInTheDocument()
+    expect(screen.getByRole('menuitem', { name: /Save/ })).toHaveFocus()
+    expect(screen.getByText('Ctrl+S')).toHaveClass('dyn-menu-item__shortcut')
+    expect(onOpenChange).toHaveBeenLastCalledWith(true)
+
+    fireEvent.keyDown(screen.getByRole('menuitem', { name: /Save/ }), { key: 'Escape' })
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    expect(trigger).toHaveFocus()
+    expect(onOpenChange).toHaveBeenLastCalledWith(false)
+  })
+
+  it('closes on an outside click and after choosing an item', () => {
+    const onAction = vi.fn()
+    render(<DynDropdown label="File" items={items} onAction={onAction} />)
+
+    const trigger = screen.getByRole('button', { name: 'File' })
+    fireEvent.click(trigger)
+    expect(screen.getByRole('menu')).toBeInTheDocument()
+
+    fireEvent.mouseDown(document.body)
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+
+    fireEvent.click(trigger)
+    fireEvent.click(screen.getByRole('menuitem', { name: /Save/ }))
+
+    expect(onAction).toHaveBeenCalledWith('save')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    expect(trigger).toHaveFocus()
+  })
+
+  it('renders checkbox and radio items and keeps the menu open when closeOnSelect is false', () => {
+    const onAction = vi.fn()
+    render(<DynDropdown label="View" items={items} onAction={onAction} closeOnSelect={false} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'View' }))
+
+    const wrap = screen.getByRole('menuitemcheckbox', { name: 'Word wrap' })
+    const light = screen.getByRole('menuitemradio', { name: 'Light theme' })
+    expect(wrap).toHaveAttribute('aria-checked', 'true')
+    expect(light).toHaveAttribute('aria-checked', 'false')
+
+    fireEvent.click(wrap)
+
+    expect(onAction).toHaveBeenCalledWith('wrap')
+    expect(screen.getByRole('menu', { name: 'View' })).toBeInTheDocument()
+  })
+
+  it('keeps a submenu open after choosing a checkable entry when closeOnSelect is false', () => {
+    const onAction = vi.fn()
+    const viewItems: DynMenuItemConfig[] = [
+      {
+        type: 'item',
+        value: 'panels',
+        label: 'Panels',
+        items: [
+          { type: 'checkbox', value: 'sidebar', label: 'Sidebar', checked: true },
+          { type: 'item', value: 'reset', label: 'Reset layout' }
+        ]
+      }
+    ]
+    render(<DynDropdown label="View" items={viewItems} onAction={onAction} closeOnSelect={false} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'View' }))
+    const panels = screen.getByRole('menuitem', { name: 'Panels' })
+    panels.focus()
+    fireEvent.keyDown(panels, { key: 'ArrowRight' })
+
+    fireEvent.click(screen.getByRole('menuitemcheckbox', { name: 'Sidebar' }))
+    expect(onAction).toHaveBeenCalledWith('sidebar')
+    expect(screen.getByRole('menu', { name: 'Panels' })).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Reset layout' }))
+    expect(onAction).toHaveBeenLastCalledWith('reset')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('navigates submenus with ArrowRight and ArrowLeft and reports their actions', () => {
+    const onAction = vi.fn()
+    render(<DynDropdown label="File" items={items} onAction={onAction} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'File' }))
+
+    const exportItem = screen.getByRole('menuitem', { name: 'Export' })
+    exportItem.focus()
+    fireEvent.keyDown(exportItem, { key: 'ArrowRight' })
+
+    const pdf = screen.getByRole('menuitem', { name: 'PDF' })
+    expect(pdf).toHaveFocus()
+
+    fireEvent.keyDown(pdf, { key: 'ArrowLeft' })
+    expect(screen.queryByRole('menu', { name: 'Export' })).not.toBeInTheDocument()
+    expect(exportItem).toHaveFocus()
+
+    fireEvent.keyDown(exportItem, { key: 'ArrowRight' })
+    fireEvent.click(screen.getByRole('menuitem', { name: 'CSV' }))
+
+    expect(onAction).toHaveBeenCalledWith('csv')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('keeps a hovered submenu open briefly after the pointer leaves', () => {
+    vi.useFakeTimers()
+    try {
+      render(<DynDropdown label="File" items={items} />)
+      fireEvent.click(screen.getByRole('button', { name: 'File' }))
+
+      const exportItem = screen.getByRole('menuitem', { name: 'Export' })
+      fireEvent.mouseEnter(exportItem)
+      expect(screen.getByRole('menu', { name: 'Export' })).toBeInTheDocument()
+
+      fireEvent.mouseLeave(exportItem)
+      act(() => { vi.advanceTimersByTime(200) })
+      expect(screen.getByRole('menu', { name: 'Export' })).toBeInTheDocument()
+
+      act(() => { vi.advanceTimersByTime(100) })
+      expect(screen.queryByRole('menu', { name: 'Export' })).not.toBeInTheDocument()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,110 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynListView } from '../../src/ui/dyn-listview'
+import type { DynListViewItem } from '../../src/types/components/dyn-listview.types'
+
+const items: DynListViewItem[] = [
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'drafts', label: 'Drafts', disabled: true },
+  { id: 'sent', label: 'Sent' },
+  { id: 'archive', label: 'Archive' }
+]
+
+const getActiveOption = (listbox: HTMLElement) =>
+  document.getElementById(listbox.getAttribute('aria-activedescendant') ?? '')
+
+describe('DynListView', () => {
+  it('moves the active item with the keyboard and skips disabled items', () => {
+    const onSelectionChange = vi.fn()
+    render(<DynListView items={items} onSelectionChange={onSelectionChange} aria-label="Folders" />)
+
+    const listbox = screen.getByRole('listbox', { name: 'Folders' })
+    fireEvent.focus(listbox)
+    expect(getActiveOption(listbox)).toHaveTextContent('Inbox')
+
+    fireEvent.keyDown(listbox, { key: 'ArrowDown' })
+    expect(getActiveOption(listbox)).toHaveTextContent('Sent')
+
+    fireEvent.keyDown(listbox, { key: 'End' })
+    fireEvent.keyDown(listbox, { key: 'Enter' })
+    expect(onSelectionChange).toHaveBeenCalledWith(['archive'])
+  })
+
+  it('toggles items in multi-select mode', () => {
+    const onSelectionChange = vi.fn()
+    render(<DynListView items={items} multiSelect onSelectionChange={onSelectionChange} aria-label="Folders" />)
+
+    fireEvent.click(screen.getByRole('option', { name: 'Inbox' }))
+    fireEvent.click(screen.getByRole('option', { name: 'Sent' }))
+    fireEvent.click(screen.getByRole('option', { name: 'Inbox' }))
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['sent'])
+    expect(screen.getByRole('option', { name: 'Sent' })).toHaveAttribute('aria-selected', 'true')
+  })
+
+  describe('virtual', () => {
+    const manyItems: DynListViewItem[] = Array.from({ length: 20000 }, (_, i) => ({
+      id: `sku-${i}`,
+      label: `SKU ${i}`
+    }))
+
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('mounts only the visible items with set size and position', () => {
+      render(<DynListView items={manyItems} virtual={{ itemHeight: 30, overscan: 2 }} aria-label="SKUs" />)
+
+      const options = screen.getAllByRole('option')
+      expect(options.length).toBeLessThan(20)
+      expect(options[1]).toHaveAttribute('aria-setsize', '20000')
+      expect(options[1]).toHaveAttribute('aria-posinset', '2')
+    })
+
+    it('scrolls the window to the active item', () => {
+      render(<DynListView items={manyItems} virtual={{ itemHeight: 30 }} aria-label="SKUs" />)
+
+      const listbox = screen.getByRole('listbox')
+      fireEvent.focus(listbox)
+      fireEvent.keyDown(listbox, { key: 'PageDown' })
+      fireEvent.keyDown(listbox, { key: 'PageDown' })
+      expect(getActiveOption(listbox)).toHaveTextContent('SKU 20')
+      expect(listbox.scrollTop).toBe(21 * 30 - 300)
+
+      fireEvent.keyDown(listbox, { key: 'End' })
+      expect(getActiveOption(listbox)).toHaveAttribute('aria-posinset', '20000')
+      expect(screen.queryByRole('option', { name: 'SKU 0' })).not.toBeInTheDocument()
+    })
+
+    it('observes measured items from the first render and releases unmounted ones', async () => {
+      const observed = new Set<Element>()
+      vi.stubGlobal('ResizeObserver', class {
+        observe(element: Element) { observed.add(element) }
+        unobserve(element: Element) { observed.delete(element) }
+        disconnect() { observed.clear() }
+      })
+
+      try {
+        render(<DynListView items={manyItems} virtual={{ estimatedItemHeight: 30 }} aria-label="SKUs" />)
+
+        const first = screen.getByRole('option', { name: 'SKU 0' })
+        expect(observed.has(first)).toBe(true)
+
+        const listbox = screen.getByRole('listbox')
+        fireEvent.focus(listbox)
+        fireEvent.keyDown(listbox, { key: 'End' })
+        await act(async () => { await Promise.resolve() })
+
+        expect(first).not.toBeInTheDocument()
+        expect(observed.has(first)).toBe(false)
+        expect(observed.has(screen.getByRole('option', { name: 'SKU 19999' }))).toBe(true)
+      } finally {
+        vi.unstubAllGlobals()
+      }
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynMenu } from '../../src/ui/dyn-menu'
+import type { DynMenuItemConfig } from '../../src/types/components/dyn-menu.types'
+
+const items: DynMenuItemConfig[] = [
+  { type: 'item', value: 'open', label: 'Open' },
+  {
+    type: 'item',
+    value: 'share',
+    label: 'Share',
+    items: [
+      { type: 'item', value: 'email', label: 'Email' },
+      { type: 'item', value: 'link', label: 'Copy link' }
+    ]
+  }
+]
+
+describe('DynMenu submenus', () => {
+  it('opens a submenu with ArrowRight and closes it with ArrowLeft', () => {
+    render(<DynMenu items={items} aria-label="File" />)
+
+    const share = screen.getByRole('menuitem', { name: 'Share' })
+    expect(share).toHaveAttribute('aria-haspopup', 'menu')
+    expect(share).toHaveAttribute('aria-expanded', 'false')
+
+    share.focus()
+    fireEvent.keyDown(share, { key: 'ArrowRight' })
+
+    expect(share).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getByRole('menu', { name: 'Share' })).toHaveStyle({ position: 'fixed' })
+    expect(screen.getByRole('menuitem', { name: 'Email' })).toHaveFocus()
+
+    fireEvent.keyDown(screen.getByRole('menuitem', { name: 'Email' }), { key: 'ArrowLeft' })
+
+    expect(screen.queryByRole('menu', { name: 'Share' })).not.toBeInTheDocument()
+    expect(share).toHaveFocus()
+  })
+
+  it('opens on hover and reports submenu actions to the root menu', () => {
+    const onAction = vi.fn()
+    render(<DynMenu items={items} onAction={onAction} aria-label="File" />)
+
+    fireEvent.mouseEnter(screen.getByRole('menuitem', { name: 'Share' }).parentElement as HTMLElement)
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Copy link' }))
+
+    expect(onAction).toHaveBeenCalledWith('link')
+    expect(onAction).not.toHaveBeenCalledWith('share')
+    expect(screen.queryByRole('menu', { name: 'Share' })).not.toBeInTheDocument()
+  })
+})
+
+describe('DynMenu keyboard navigation', () => {
+  it('moves focus between the items of one level with the arrow keys', () => {
+    render(<DynMenu items={[...items, { type: 'item', value: 'close', label: 'Close' }]} aria-label="File" />)
+
+    const open = screen.getByRole('menuitem', { name: 'Open' })
+    fireEvent.keyDown(open, { key: 'ArrowDown' })
+    const share = screen.getByRole('menuitem', { name: 'Share' })
+    expect(share).toHaveFocus()
+
+    fireEvent.keyDown(share, { key: 'ArrowRight' })
+    const email = screen.getByRole('menuitem', { name: 'Email' })
+    fireEvent.keyDown(email, { key: 'ArrowDown' })
+    expect(screen.getByRole('menuitem', { name: 'Copy link' })).toHaveFocus()
+
+    // Wraps inside the submenu instead of moving the root menu
+    fireEvent.keyDown(screen.getByRole('menuitem', { name: 'Copy link' }), { key: 'ArrowDown' })
+    expect(email).toHaveFocus()
+
+    fireEvent.keyDown(open, { key: 'End' })
+    expect(screen.getByRole('menuitem', { name: 'Close' })).toHaveFocus()
+  })
+})
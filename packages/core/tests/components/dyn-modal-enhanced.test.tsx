@@ -0,0 +1,94 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynModalEnhanced } from '../../src/ui/dyn-modal-enhanced'
+import { DynPortalProvider } from '../../src/ui/dyn-portal'
+import { DynSelect } from '../../src/ui/dyn-select'
+
+const options = [
+  { value: 'low', label: 'Low' },
+  { value: 'high', label: 'High' }
+]
+
+describe('DynModalEnhanced layering', () => {
+  it('routes Escape to the topmost overlay only', () => {
+    const onClose = vi.fn()
+    render(
+      <DynModalEnhanced open onClose={onClose} title="Edit task">
+        <DynSelect options={options} searchable aria-label="Priority" />
+      </DynModalEnhanced>
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Priority' }))
+    expect(screen.getByRole('listbox')).toBeInTheDocument()
+
+    fireEvent.keyDown(document.body, { key: 'Escape' })
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    expect(onClose).not.toHaveBeenCalled()
+
+    fireEvent.keyDown(document.body, { key: 'Escape' })
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+
+  it('stacks nested overlays above the modal and closes them on outside clicks', () => {
+    const onClose = vi.fn()
+    render(
+      <DynModalEnhanced open onClose={onClose} title="Edit task" data-testid="modal">
+        <DynSelect options={options} aria-label="Priority" />
+      </DynModalEnhanced>
+    )
+
+    const backdrop = screen.getByTestId('modal')
+    fireEvent.click(screen.getByRole('button', { name: 'Priority' }))
+    const dropdown = screen.getByRole('listbox').parentElement as HTMLElement
+    expect(Number(dropdown.style.zIndex)).toBeGreaterThan(Number(backdrop.style.zIndex))
+
+    // The press closes the dropdown, but not the modal underneath
+    fireEvent.mouseDown(backdrop)
+    fireEvent.click(backdrop)
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+    expect(onClose).not.toHaveBeenCalled()
+
+    fireEvent.mouseDown(backdrop)
+    fireEvent.click(backdrop)
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+
+  it('locks the page scroll once for nested modals', () => {
+    document.body.style.overflow = 'auto'
+    const { rerender } = render(
+      <DynModalEnhanced open onClose={() => {}} title="Outer">
+        <DynModalEnhanced open onClose={() => {}} title="Inner">Inner</DynModalEnhanced>
+      </DynModalEnhanced>
+    )
+    expect(document.body.style.overflow).toBe('hidden')
+
+    rerender(
+      <DynModalEnhanced open onClose={() => {}} title="Outer">
+        <DynModalEnhanced open={false} onClose={() => {}} title="Inner">Inner</DynModalEnhanced>
+      </DynModalEnhanced>
+    )
+    expect(document.body.style.overflow).toBe('hidden')
+
+    rerender(
+      <DynModalEnhanced open={false} onClose={() => {}} title="Outer">
+        <DynModalEnhanced open={false} onClose={() => {}} title="Inner">Inner</DynModalEnhanced>
+      </DynModalEnhanced>
+    )
+    expect(document.body.style.overflow).toBe('auto')
+  })
+
+  it('renders into the container of DynPortalProvider', () => {
+    const host = document.createElement('div')
+    document.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: 'open' })
+
+    render(
+      <DynPortalProvider container={shadowRoot}>
+        <DynModalEnhanced open onClose={() => {}} title="Settings">Content</DynModalEnhanced>
+      </DynPortalProvider>
+    )
+
+    expect(shadowRoot.querySelector('[role="dialog"]')).toHaveTextContent('Settings')
+    host.remove()
+  })
+})
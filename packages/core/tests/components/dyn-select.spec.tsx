@@ -1,9 +1,10 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { axe, toHaveNoViolations } from 'jest-axe'
-import { DynSelect } from '../../src/ui/dyn-select'
-import type { DynSelectRef, SelectOption } from '../../src/types/components/dyn-select.types'
+import { DynSelect, DynSelectOption, DynSelectOptionGroup } from '../../src/ui/dyn-select'
+import type { DynSelectRef, LoadOptionsContext, LoadOptionsResult, SelectOption, SelectOptionGroup } from '../../src/types/components/dyn-select.types'
 import { useRef } from 'react'
+import type { ComponentProps } from 'react'
 
 expect.extend(toHaveNoViolations)
 
@@ -209,4 +210,573 @@ describe('DynSelect', () => {
     const trigger = screen.getByRole('button')
     expect(trigger).toBeDisabled()
   })
-})
\ No newline at end of file
+
+  describe('keyboard', () => {
+    const fruits: SelectOption[] = [
+      'Apple', 'Apricot', 'Banana', 'Blueberry', 'Cherry', 'Date', 'Elderberry', 'Fig',
+      'Grape', 'Guava', 'Kiwi', 'Lemon', 'Lime', 'Mango', 'Melon'
+    ].map(label => ({ value: label.toLowerCase(), label, ...(label === 'Melon' ? { disabled: true } : {}) }))
+
+    const getActiveOption = (owner: HTMLElement) => {
+      const id = owner.getAttribute('aria-activedescendant')
+      return id ? document.getElementById(id) : null
+    }
+
+    it('only moves the select that has focus', async () => {
+      const user = userEvent.setup()
+      const onFirst = vi.fn()
+      const onSecond = vi.fn()
+      render(
+        <>
+          <DynSelect options={sampleOptions} onChange={onFirst} aria-label="First" />
+          <DynSelect options={sampleOptions} onChange={onSecond} aria-label="Second" />
+        </>
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Second' }))
+      await user.keyboard('{ArrowDown}{Enter}')
+
+      expect(onSecond).toHaveBeenCalledWith('vue')
+      expect(onFirst).not.toHaveBeenCalled()
+      expect(screen.getByRole('button', { name: 'First' })).toHaveAttribute('aria-expanded', 'false')
+    })
+
+    it('tracks the active option with aria-activedescendant and keeps it in view', async () => {
+      const user = userEvent.setup()
+      const scrollIntoView = vi.fn()
+      Element.prototype.scrollIntoView = scrollIntoView
+      render(<DynSelect options={fruits} aria-label="Fruit" />)
+
+      screen.getByRole('button', { name: 'Fruit' }).focus()
+      await user.keyboard('{ArrowDown}')
+
+      const listbox = screen.getByRole('listbox')
+      expect(listbox).toHaveFocus()
+      expect(getActiveOption(listbox)).toHaveTextContent('Apple')
+
+      await user.keyboard('{End}')
+      // Melon is disabled
+      expect(getActiveOption(listbox)).toHaveTextContent('Mango')
+      expect(scrollIntoView).toHaveBeenLastCalledWith({ block: 'nearest' })
+
+      await user.keyboard('{Home}{PageDown}')
+      expect(getActiveOption(listbox)).toHaveTextContent('Kiwi')
+
+      await user.keyboard('{PageUp}')
+      expect(getActiveOption(listbox)).toHaveTextContent('Apple')
+
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+
+    it('jumps to options by typed first letters', async () => {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      render(<DynSelect options={fruits} onChange={onChange} aria-label="Fruit" />)
+
+      screen.getByRole('button', { name: 'Fruit' }).focus()
+      await user.keyboard('b')
+
+      const listbox = screen.getByRole('listbox')
+      expect(getActiveOption(listbox)).toHaveTextContent('Banana')
+
+      await user.keyboard('b')
+      expect(getActiveOption(listbox)).toHaveTextContent('Blueberry')
+
+      await new Promise(resolve => setTimeout(resolve, 600))
+      await user.keyboard('li')
+      expect(getActiveOption(listbox)).toHaveTextContent('Lime')
+
+      await user.keyboard('{Enter}')
+      expect(onChange).toHaveBeenCalledWith('lime')
+      expect(screen.getByRole('button', { name: 'Fruit' })).toHaveFocus()
+    })
+
+    it('navigates from the search input', async () => {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      render(<DynSelect options={fruits} searchable onChange={onChange} aria-label="Fruit" />)
+
+      await user.click(screen.getByRole('button', { name: 'Fruit' }))
+      const search = screen.getByRole('combobox')
+      expect(search).toHaveFocus()
+      expect(search).toHaveAttribute('aria-controls', screen.getByRole('listbox').id)
+
+      await user.type(search, 'ber')
+      await user.keyboard('{ArrowDown}{ArrowDown}')
+      expect(getActiveOption(search)).toHaveTextContent('Elderberry')
+
+      await user.keyboard('{Enter}')
+      expect(onChange).toHaveBeenCalledWith('elderberry')
+    })
+  })
+
+  describe('virtual', () => {
+    const countries: SelectOption[] = Array.from({ length: 5000 }, (_, i) => ({
+      value: `c${i}`,
+      label: `Country ${i}`
+    }))
+
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(200)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('renders only the visible window with set size and position', async () => {
+      const user = userEvent.setup()
+      render(<DynSelect options={countries} virtual={{ itemHeight: 20, overscan: 2 }} aria-label="Country" />)
+
+      await user.click(screen.getByRole('button', { name: 'Country' }))
+
+      const options = screen.getAllByRole('option')
+      expect(options.length).toBeLessThan(20)
+      expect(options[0]).toHaveAttribute('aria-setsize', '5000')
+      expect(options[0]).toHaveAttribute('aria-posinset', '1')
+    })
+
+    it('scrolls the window to follow keyboard focus', async () => {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      render(
+        <DynSelect options={countries} virtual={{ itemHeight: 20 }} onChange={onChange} aria-label="Country" />
+      )
+
+      await user.click(screen.getByRole('button', { name: 'Country' }))
+      const listbox = screen.getByRole('listbox')
+
+      await user.keyboard('{End}')
+      expect(listbox.scrollTop).toBe(5000 * 20 - 200)
+      const active = document.getElementById(listbox.getAttribute('aria-activedescendant') ?? '')
+      expect(active).toHaveTextContent('Country 4999')
+      expect(active).toHaveAttribute('aria-posinset', '5000')
+
+      await user.keyboard('{Enter}')
+      expect(onChange).toHaveBeenCalledWith('c4999')
+    })
+  })
+
+  describe('children', () => {
+    const renderDeclarative = (props: Partial<ComponentProps<typeof DynSelect>> = {}) =>
+      render(
+        <DynSelect aria-label="Framework" {...props}>
+          <DynSelectOption value="none">None</DynSelectOption>
+          <DynSelectOptionGroup label="Frontend">
+            <DynSelectOption value="react">React</DynSelectOption>
+            <DynSelectOption value="vue" description="Progressive">
+              <strong>Vue</strong>.js
+            </DynSelectOption>
+          </DynSelectOptionGroup>
+          <DynSelectOptionGroup label="Legacy" disabled>
+            <>
+              <DynSelectOption value="backbone">Backbone</DynSelectOption>
+            </>
+          </DynSelectOptionGroup>
+        </DynSelect>
+      )
+
+    it('builds options from DynSelectOption children', async () => {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      renderDeclarative({ onChange })
+
+      const trigger = screen.getByRole('button', { name: 'Framework' })
+      await user.click(trigger)
+
+      expect(screen.getAllByRole('option').map(option => option.textContent))
+        .toEqual(['None', 'React', 'Vue.jsProgressive', 'Backbone'])
+
+      await user.click(screen.getByRole('option', { name: /Vue\.js/ }))
+      expect(onChange).toHaveBeenCalledWith('vue')
+      expect(trigger).toHaveTextContent('Vue.js')
+    })
+
+    it('renders DynSelectOptionGroup as labelled groups', async () => {
+      const user = userEvent.setup()
+      renderDeclarative()
+
+      await user.click(screen.getByRole('button', { name: 'Framework' }))
+
+      const frontend = screen.getByRole('group', { name: 'Frontend' })
+      expect(frontend).toContainElement(screen.getByRole('option', { name: 'React' }))
+      expect(screen.getByRole('option', { name: 'None' })).not.toHaveAttribute('aria-disabled')
+      expect(screen.getByRole('option', { name: 'Backbone' })).toHaveAttribute('aria-disabled', 'true')
+    })
+
+    it('filters grouped options and drops empty groups', async () => {
+      const user = userEvent.setup()
+      renderDeclarative({ searchable: true })
+
+      await user.click(screen.getByRole('button', { name: 'Framework' }))
+      await user.type(screen.getByPlaceholderText('Search...'), 'back')
+
+      expect(screen.getByRole('group', { name: 'Legacy' })).toBeInTheDocument()
+      expect(screen.queryByRole('group', { name: 'Frontend' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('custom rendering', () => {
+    const groupedOptions: Array<SelectOption | SelectOptionGroup> = [
+      { value: 'any', label: 'Anyone' },
+      {
+        label: 'Team',
+        options: [
+          { value: 'ada', label: 'Ada Lovelace' },
+          { value: 'alan', label: 'Alan Turing' }
+        ]
+      },
+      { label: 'Alumni', disabled: true, options: [{ value: 'grace', label: 'Grace Hopper' }] }
+    ]
+
+    it('lists option groups from the options prop under headers', async () => {
+      const user = userEvent.setup()
+      render(<DynSelect options={groupedOptions} aria-label="Assignee" />)
+
+      await user.click(screen.getByRole('button', { name: 'Assignee' }))
+
+      expect(screen.getByRole('group', { name: 'Team' })).toContainElement(
+        screen.getByRole('option', { name: 'Alan Turing' })
+      )
+      expect(screen.getByRole('option', { name: 'Grace Hopper' })).toHaveAttribute('aria-disabled', 'true')
+      expect(screen.getByRole('option', { name: 'Anyone' })).toBeInTheDocument()
+    })
+
+    it('renders options and the value through renderOption and renderValue', async () => {
+      const user = userEvent.setup()
+      const renderOption = vi.fn((option: SelectOption, state: { selected: boolean }) => (
+        <span data-testid={`avatar-${option.value}`}>{state.selected ? '✓ ' : ''}{option.label}</span>
+      ))
+      render(
+        <DynSelect
+          options={groupedOptions}
+          defaultValue="ada"
+          aria-label="Assignee"
+          renderOption={renderOption}
+          renderValue={selected => <em>Assigned to {selected[0]?.label}</em>}
+        />
+      )
+
+      const trigger = screen.getByRole('button', { name: 'Assignee' })
+      expect(trigger.querySelector('em')).toHaveTextContent('Assigned to Ada Lovelace')
+
+      await user.click(trigger)
+      expect(screen.getByTestId('avatar-ada')).toHaveTextContent('✓ Ada Lovelace')
+      expect(renderOption).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'grace', group: 'Alumni' }),
+        { selected: false, focused: false, disabled: true }
+      )
+    })
+
+    it('shows removable chips for multiple selections', async () => {
+      const user = userEvent.setup()
+      const onChange = vi.fn()
+      render(
+        <DynSelect
+          options={sampleOptions}
+          defaultValue={['react', 'vue']}
+          multiple
+          onChange={onChange}
+          aria-label="Frameworks"
+        />
+      )
+
+      const chips = screen.getByRole('list', { name: 'Selected options' })
+      expect(chips).toHaveTextContent('React')
+      expect(chips).toHaveTextContent('Vue.js')
+
+      await user.click(screen.getByRole('button', { name: 'Remove React' }))
+
+      expect(onChange).toHaveBeenCalledWith(['vue'])
+      expect(screen.queryByRole('button', { name: 'Remove React' })).not.toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Frameworks' })).toHaveFocus()
+      expect(screen.getByRole('button', { name: 'Frameworks' })).toHaveAttribute('aria-expanded', 'false')
+    })
+  })
+
+  describe('creatable', () => {
+    const renderCreatable = (onCreateOption?: (input: string) => Promise<SelectOption>) => {
+      const onChange = vi.fn()
+      render(
+        <DynSelect
+          options={sampleOptions}
+          multiple
+          searchable
+          creatable
+          onChange={onChange}
+          aria-label="Labels"
+          {...(onCreateOption ? { onCreateOption } : {})}
+        />
+      )
+      fireEvent.click(screen.getByRole('button', { name: 'Labels' }))
+      return { onChange, search: screen.getByPlaceholderText('Search...') }
+    }
+
+    it('creates a typed option on Enter', async () => {
+      const onCreateOption = vi.fn(async (input: string) => ({ value: `id-${input}`, label: input }))
+      const { onChange, search } = renderCreatable(onCreateOption)
+
+      fireEvent.change(search, { target: { value: 'Svelte' } })
+      expect(screen.getByRole('option', { name: 'Create "Svelte"' })).toBeInTheDocument()
+
+      fireEvent.keyDown(search, { key: 'Enter' })
+
+      await waitFor(() => expect(onChange).toHaveBeenCalledWith(['id-Svelte']))
+      expect(onCreateOption).toHaveBeenCalledWith('Svelte')
+      expect(search).toHaveValue('')
+      expect(screen.getByRole('list', { name: 'Selected options' })).toHaveTextContent('Svelte')
+    })
+
+    it('reaches the create row from the keyboard', async () => {
+      const onCreateOption = vi.fn(async (input: string) => ({ value: `id-${input}`, label: input }))
+      const { onChange, search } = renderCreatable(onCreateOption)
+
+      fireEvent.change(search, { target: { value: 'Rea' } })
+      const createRow = screen.getByRole('option', { name: 'Create "Rea"' })
+
+      fireEvent.keyDown(search, { key: 'ArrowDown' })
+      expect(search).toHaveAttribute('aria-activedescendant', screen.getByRole('option', { name: 'React' }).id)
+
+      fireEvent.keyDown(search, { key: 'ArrowUp' })
+      expect(search).toHaveAttribute('aria-activedescendant', createRow.id)
+      expect(createRow).toHaveClass('dyn-select-option--focused')
+
+      fireEvent.keyDown(search, { key: 'Enter' })
+
+      await waitFor(() => expect(onChange).toHaveBeenCalledWith(['id-Rea']))
+      expect(onCreateOption).toHaveBeenCalledWith('Rea')
+    })
+
+    it('selects an existing option instead of creating a duplicate', async () => {
+      const onCreateOption = vi.fn(async (input: string) => ({ value: input, label: input }))
+      const { onChange, search } = renderCreatable(onCreateOption)
+
+      fireEvent.change(search, { target: { value: ' vue.JS ' } })
+      expect(screen.queryByRole('option', { name: /^Create/ })).not.toBeInTheDocument()
+
+      fireEvent.keyDown(search, { key: 'Enter' })
+
+      await waitFor(() => expect(onChange).toHaveBeenCalledWith(['vue']))
+      expect(onCreateOption).not.toHaveBeenCalled()
+    })
+
+    it('splits pasted text into separate options', async () => {
+      const { onChange, search } = renderCreatable()
+
+      fireEvent.paste(search, {
+        clipboardData: { getData: () => 'bug, feature\nReact\n\nbug' }
+      })
+
+      await waitFor(() => expect(onChange).toHaveBeenCalledWith(['bug', 'feature', 'react']))
+    })
+
+    it('keeps the text and reports a failed creation', async () => {
+      const onCreateOption = vi.fn(() => Promise.reject(new Error('Forbidden')))
+      const { onChange, search } = renderCreatable(onCreateOption)
+
+      fireEvent.change(search, { target: { value: 'secret' } })
+      fireEvent.keyDown(search, { key: 'Enter' })
+
+      const alert = await screen.findByRole('alert')
+      expect(alert).toHaveTextContent('Could not create "secret"')
+      expect(screen.getByRole('listbox')).not.toContainElement(alert)
+      expect(search).toHaveValue('secret')
+      expect(onChange).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('async options', () => {
+    const page = (from: number, count: number, nextCursor: number | null): LoadOptionsResult => ({
+      options: Array.from({ length: count }, (_, i) => ({
+        value: `c${from + i}`,
+        label: `Customer ${from + i}`
+      })),
+      nextCursor
+    })
+
+    // Resolves each request by hand so tests control response order
+    const createLoader = () => {
+      const requests: Array<{
+        query: string
+        context: LoadOptionsContext
+        resolve: (result: LoadOptionsResult) => void
+        reject: (reason: unknown) => void
+      }> = []
+      const loadOptions = vi.fn((query: string, context: LoadOptionsContext) =>
+        new Promise<LoadOptionsResult>((resolve, reject) => {
+          requests.push({ query, context, resolve, reject })
+        })
+      )
+      return { loadOptions, requests }
+    }
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('loads the first page on open and more pages on scroll', async () => {
+      const { loadOptions, requests } = createLoader()
+      render(<DynSelect loadOptions={loadOptions} aria-label="Customer" />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Customer' }))
+      await waitFor(() => expect(loadOptions).toHaveBeenCalledTimes(1))
+      expect(requests[0]?.query).toBe('')
+      expect(requests[0]?.context.cursor).toBeUndefined()
+      expect(screen.getByText('Loading...')).toBeInTheDocument()
+      expect(screen.getByRole('listbox')).toHaveAttribute('aria-busy', 'true')
+
+      await act(async () => requests[0]?.resolve(page(0, 20, 20)))
+      expect(screen.getAllByRole('option')).toHaveLength(20)
+      expect(screen.queryByText('Loading...')).not.toBeInTheDocument()
+
+      const listbox = screen.getByRole('listbox')
+      Object.defineProperties(listbox, {
+        scrollHeight: { configurable: true, value: 800 },
+        clientHeight: { configurable: true, value: 200 }
+      })
+      listbox.scrollTop = 580
+      fireEvent.scroll(listbox)
+
+      expect(loadOptions).toHaveBeenCalledTimes(2)
+      expect(requests[1]?.context.cursor).toBe(20)
+
+      await act(async () => requests[1]?.resolve(page(20, 5, null)))
+      expect(screen.getAllByRole('option')).toHaveLength(25)
+
+      // Last page reached
+      fireEvent.scroll(listbox)
+      expect(loadOptions).toHaveBeenCalledTimes(2)
+    })
+
+    it('debounces the search and cancels stale requests', async () => {
+      vi.useFakeTimers()
+      const { loadOptions, requests } = createLoader()
+      render(<DynSelect loadOptions={loadOptions} searchable aria-label="Customer" />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Customer' }))
+      act(() => { vi.advanceTimersByTime(0) })
+      expect(loadOptions).toHaveBeenCalledTimes(1)
+
+      const search = screen.getByPlaceholderText('Search...')
+      fireEvent.change(search, { target: { value: 'ac' } })
+      act(() => { vi.advanceTimersByTime(200) })
+      fireEvent.change(search, { target: { value: 'acme' } })
+      act(() => { vi.advanceTimersByTime(299) })
+      expect(loadOptions).toHaveBeenCalledTimes(1)
+
+      act(() => { vi.advanceTimersByTime(1) })
+      expect(loadOptions).toHaveBeenCalledTimes(2)
+      expect(requests[1]?.query).toBe('acme')
+      expect(requests[0]?.context.signal.aborted).toBe(true)
+
+      // The superseded response must not replace the current results
+      await act(async () => {
+        requests[1]?.resolve({ options: [{ value: 'acme', label: 'Acme' }] })
+        requests[0]?.resolve(page(0, 3, null))
+      })
+      expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual(['Acme'])
+    })
+
+    it('does not page a new search with the cursor of the previous one', async () => {
+      vi.useFakeTimers()
+      const { loadOptions, requests } = createLoader()
+      render(<DynSelect loadOptions={loadOptions} searchable aria-label="Customer" />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Customer' }))
+      act(() => { vi.advanceTimersByTime(0) })
+      await act(async () => requests[0]?.resolve(page(0, 20, 20)))
+
+      const listbox = screen.getByRole('listbox')
+      Object.defineProperties(listbox, {
+        scrollHeight: { configurable: true, value: 800 },
+        clientHeight: { configurable: true, value: 200 }
+      })
+
+      // Scrolling while the new search is still debounced
+      fireEvent.change(screen.getByPlaceholderText('Search...'), { target: { value: 'acme' } })
+      listbox.scrollTop = 580
+      fireEvent.scroll(listbox)
+      expect(loadOptions).toHaveBeenCalledTimes(1)
+
+      act(() => { vi.advanceTimersByTime(300) })
+      expect(loadOptions).toHaveBeenCalledTimes(2)
+      expect(requests[1]?.query).toBe('acme')
+      expect(requests[1]?.context.cursor).toBeUndefined()
+    })
+
+    it('shows an error row with retry', async () => {
+      const { loadOptions, requests } = createLoader()
+      render(<DynSelect loadOptions={loadOptions} aria-label="Customer" />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Customer' }))
+      await waitFor(() => expect(loadOptions).toHaveBeenCalledTimes(1))
+      await act(async () => requests[0]?.reject(new Error('offline')))
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Could not load options')
+      expect(screen.queryByText('No options found')).not.toBeInTheDocument()
+
+      // Status rows are not listbox content; Tab reaches Retry from the list
+      const listbox = screen.getByRole('listbox')
+      const retry = screen.getByRole('button', { name: 'Retry' })
+      expect(listbox).not.toContainElement(retry)
+      fireEvent.keyDown(listbox, { key: 'Tab' })
+      expect(retry).toHaveFocus()
+
+      fireEvent.click(retry)
+      expect(loadOptions).toHaveBeenCalledTimes(2)
+      expect(listbox).toHaveFocus()
+      await act(async () => requests[1]?.resolve(page(0, 2, null)))
+
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+      expect(screen.getAllByRole('option')).toHaveLength(2)
+    })
+
+    it('keeps the label of a picked remote option', async () => {
+      const { loadOptions, requests } = createLoader()
+      const onChange = vi.fn()
+      render(<DynSelect loadOptions={loadOptions} onChange={onChange} aria-label="Customer" />)
+
+      const trigger = screen.getByRole('button', { name: 'Customer' })
+      fireEvent.click(trigger)
+      await waitFor(() => expect(loadOptions).toHaveBeenCalledTimes(1))
+      await act(async () => requests[0]?.resolve(page(0, 3, null)))
+
+      fireEvent.click(screen.getByText('Customer 1'))
+      expect(onChange).toHaveBeenCalledWith('c1')
+      expect(trigger).toHaveTextContent('Customer 1')
+      expect(requests[0]?.context.signal.aborted).toBe(false)
+    })
+  })
+
+  describe('positioning', () => {
+    const rect = (x: number, y: number, width: number, height: number) =>
+      ({ x, y, left: x, top: y, width, height, right: x + width, bottom: y + height, toJSON: () => ({}) }) as DOMRect
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('opens above the control near the bottom of the viewport and fits the room left', () => {
+      vi.spyOn(document.documentElement, 'clientHeight', 'get').mockReturnValue(600)
+      vi.spyOn(document.documentElement, 'clientWidth', 'get').mockReturnValue(800)
+      vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        if (this.classList.contains('dyn-select-dropdown')) return rect(0, 0, 240, 300)
+        if (this.classList.contains('dyn-select-wrapper')) return rect(20, 500, 240, 40)
+        return rect(0, 0, 0, 0)
+      })
+
+      render(<DynSelect options={sampleOptions} aria-label="Framework" />)
+      fireEvent.click(screen.getByRole('button', { name: 'Framework' }))
+
+      const dropdown = screen.getByRole('listbox').parentElement as HTMLElement
+      expect(dropdown).toHaveStyle({
+        position: 'fixed',
+        left: '20px',
+        top: '196px',
+        minWidth: '240px',
+        // 500px above the control, minus the 4px gap and 8px padding
+        maxHeight: '488px'
+      })
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { render, screen, fireEvent, createEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynSlider } from '../../src/ui/dyn-slider'
+
+// jsdom has no PointerEvent, so coordinates are set on the generic event
+const pointer = (element: Element, type: 'pointerDown' | 'pointerMove' | 'pointerUp', coords: { clientX?: number, clientY?: number }) => {
+  const event = createEvent[type](element)
+  Object.entries(coords).forEach(([key, value]) => Object.defineProperty(event, key, { value }))
+  fireEvent(element, event)
+}
+
+// A 200px square track at the top left of the page
+const mockTrackRect = () =>
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+    x: 0, y: 0, left: 0, top: 0, right: 200, bottom: 200, width: 200, height: 200, toJSON: () => ({})
+  })
+
+describe('DynSlider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('exposes slider semantics with formatted value text', () => {
+    render(
+      <DynSlider
+        defaultValue={40}
+        aria-label="Volume"
+        getAriaValueText={value => `${value} percent`}
+        formatValue={value => `${value}%`}
+        tooltip="always"
+      />
+    )
+
+    const slider = screen.getByRole('slider', { name: 'Volume' })
+    expect(slider).toHaveAttribute('aria-valuenow', '40')
+    expect(slider).toHaveAttribute('aria-valuemin', '0')
+    expect(slider).toHaveAttribute('aria-valuemax', '100')
+    expect(slider).toHaveAttribute('aria-valuetext', '40 percent')
+    expect(slider).toHaveAttribute('aria-orientation', 'horizontal')
+    expect(slider).toHaveTextContent('40%')
+  })
+
+  it('changes the value with the keyboard', () => {
+    const onChange = vi.fn()
+    const onChangeEnd = vi.fn()
+    render(<DynSlider defaultValue={0.5} min={0} max={2} step={0.1} onChange={onChange} onChangeEnd={onChangeEnd} aria-label="Speed" />)
+
+    const slider = screen.getByRole('slider')
+    fireEvent.keyDown(slider, { key: 'ArrowRight' })
+    fireEvent.keyDown(slider, { key: 'ArrowUp' })
+    expect(slider).toHaveAttribute('aria-valuenow', '0.7')
+
+    fireEvent.keyDown(slider, { key: 'PageUp' })
+    expect(slider).toHaveAttribute('aria-valuenow', '0.9')
+
+    fireEvent.keyDown(slider, { key: 'ArrowDown' })
+    expect(slider).toHaveAttribute('aria-valuenow', '0.8')
+
+    fireEvent.keyDown(slider, { key: 'End' })
+    expect(onChange).toHaveBeenLastCalledWith(2)
+    fireEvent.keyDown(slider, { key: 'ArrowRight' })
+
+    fireEvent.keyDown(slider, { key: 'Home' })
+    expect(slider).toHaveAttribute('aria-valuenow', '0')
+    expect(onChange).toHaveBeenCalledTimes(6)
+    expect(onChangeEnd).toHaveBeenCalledTimes(6)
+  })
+
+  it('keeps the thumbs of a range from crossing', () => {
+    const onChange = vi.fn()
+    render(<DynSlider range defaultValue={[20, 30]} step={5} onChange={onChange} aria-label="Price" name="price" />)
+
+    const [lower, upper] = screen.getAllByRole('slider')
+    expect(lower).toHaveAccessibleName('Price, minimum')
+    expect(upper).toHaveAccessibleName('Price, maximum')
+    expect(lower).toHaveAttribute('aria-valuemax', '30')
+    expect(upper).toHaveAttribute('aria-valuemin', '20')
+
+    fireEvent.keyDown(lower!, { key: 'ArrowRight' })
+    fireEvent.keyDown(lower!, { key: 'ArrowRight' })
+    fireEvent.keyDown(lower!, { key: 'ArrowRight' })
+    expect(onChange).toHaveBeenLastCalledWith([30, 30])
+    expect(onChange).toHaveBeenCalledTimes(2)
+
+    fireEvent.keyDown(upper!, { key: 'End' })
+    expect(onChange).toHaveBeenLastCalledWith([30, 100])
+    expect(Array.from(document.querySelectorAll<HTMLInputElement>('input[name="price"]'), input => input.value)).toEqual(['30', '100'])
+  })
+
+  it('names range thumbs after aria-labelledby and formats unlabeled marks', () => {
+    const { container } = render(
+      <>
+        <span id="price-label">Price</span>
+        <DynSlider
+          range
+          marks={[{ value: 0 }, { value: 100, label: 'Max' }]}
+          formatValue={value => `$${value}`}
+          aria-labelledby="price-label"
+        />
+      </>
+    )
+
+    const [lower, upper] = screen.getAllByRole('slider')
+    expect(lower).toHaveAccessibleName('Price Minimum')
+    expect(upper).toHaveAccessibleName('Price Maximum')
+    expect(Array.from(container.querySelectorAll('.dyn-slider__mark-label'), label => label.textContent)).toEqual(['$0', 'Max'])
+  })
+
+  it('drags the nearest thumb to the snapped pointer position', () => {
+    mockTrackRect()
+    const onChange = vi.fn()
+    const onChangeEnd = vi.fn()
+    const { container } = render(
+      <DynSlider range defaultValue={[20, 80]} step={10} onChange={onChange} onChangeEnd={onChangeEnd} aria-label="Range" />
+    )
+
+    const control = container.querySelector('.dyn-slider__control')!
+    pointer(control, 'pointerDown', { clientX: 130 })
+    expect(onChange).toHaveBeenLastCalledWith([20, 70])
+    expect(screen.getAllByRole('slider')[1]).toHaveFocus()
+
+    pointer(control, 'pointerMove', { clientX: 10 })
+    expect(onChange).toHaveBeenLastCalledWith([20, 20])
+    expect(onChangeEnd).not.toHaveBeenCalled()
+
+    pointer(control, 'pointerUp', { clientX: 10 })
+    expect(onChangeEnd).toHaveBeenCalledWith([20, 20])
+  })
+
+  it('measures vertical sliders from the bottom and renders labeled marks', () => {
+    mockTrackRect()
+    const onChange = vi.fn()
+    const { container } = render(
+      <DynSlider
+        orientation="vertical"
+        marks={[{ value: 0, label: 'Low' }, { value: 50 }, { value: 100, label: 'High' }]}
+        onChange={onChange}
+        aria-label="Level"
+      />
+    )
+
+    expect(screen.getByRole('slider')).toHaveAttribute('aria-orientation', 'vertical')
+    expect(container.querySelectorAll('.dyn-slider__mark')).toHaveLength(3)
+    expect(screen.getByText('Low')).toBeInTheDocument()
+
+    pointer(container.querySelector('.dyn-slider__control')!, 'pointerDown', { clientY: 50 })
+    expect(onChange).toHaveBeenCalledWith(75)
+  })
+
+  it('ignores input while disabled', () => {
+    const onChange = vi.fn()
+    render(<DynSlider disabled defaultValue={10} onChange={onChange} aria-label="Volume" />)
+
+    const slider = screen.getByRole('slider')
+    expect(slider).toHaveAttribute('aria-disabled', 'true')
+    expect(slider).toHaveAttribute('tabindex', '-1')
+    fireEvent.keyDown(slider, { key: 'ArrowRight' })
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,1023 @@
+import { createRef } from 'react'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynTableEnhanced } from '../../src/ui/dyn-table-enhanced'
+import type { ColumnLayoutState, DynTableEnhancedRef, TableColumn, TableQuery, TableQueryResult } from '../../src/ui/dyn-table-enhanced'
+
+interface Person {
+  id: string
+  name: string
+  age: number
+}
+
+const columns: TableColumn<Person>[] = [
+  { key: 'name', title: 'Name', dataIndex: 'name' },
+  { key: 'age', title: 'Age', dataIndex: 'age', align: 'right' }
+]
+
+const createPeople = (count: number): Person[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `person-${index}`,
+    name: `Person ${index}`,
+    age: 20 + (index % 50)
+  }))
+
+const getBodyRows = () =>
+  screen.getAllByRole('row').filter(row => row.classList.contains('dyn-table__body-row'))
+
+describe('DynTableEnhanced', () => {
+  it('renders every row by default', () => {
+    render(<DynTableEnhanced dataSource={createPeople(25)} columns={columns} />)
+
+    expect(getBodyRows()).toHaveLength(25)
+  })
+
+  describe('virtualized rendering', () => {
+    let clientHeightSpy: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      clientHeightSpy = vi
+        .spyOn(HTMLElement.prototype, 'clientHeight', 'get')
+        .mockImplementation(function (this: HTMLElement) {
+          return this.classList.contains('dyn-table__scroll-container') ? 200 : 0
+        })
+    })
+
+    afterEach(() => {
+      clientHeightSpy.mockRestore()
+    })
+
+    it('only renders rows inside the scroll window', () => {
+      render(
+        <DynTableEnhanced
+          dataSource={createPeople(1000)}
+          columns={columns}
+          scroll={{ y: 200 }}
+          virtual={{ rowHeight: 40, overscan: 2 }}
+        />
+      )
+
+      const rows = getBodyRows()
+      expect(rows.length).toBeLessThan(20)
+      expect(rows[0]).toHaveTextContent('Person 0')
+      expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '1001')
+    })
+
+    it('moves the window on scroll and reports absolute row indices', () => {
+      const onClick = vi.fn()
+      const people = createPeople(1000)
+
+      render(
+        <DynTableEnhanced
+          dataSource={people}
+          columns={columns}
+          scroll={{ y: 200 }}
+          virtual={{ rowHeight: 40, overscan: 0 }}
+          onRow={{ onClick }}
+        />
+      )
+
+      const scrollContainer = screen.getByRole('table').parentElement as HTMLElement
+      scrollContainer.scrollTop = 4000
+      fireEvent.scroll(scrollContainer)
+
+      expect(screen.queryByText('Person 0')).not.toBeInTheDocument()
+
+      const row = screen.getByText('Person 100').closest('tr') as HTMLElement
+      expect(row).toHaveAttribute('aria-rowindex', '102')
+
+      fireEvent.click(row)
+      expect(onClick).toHaveBeenCalledWith(people[100], 100)
+    })
+
+    it('keeps the selection column on virtual rows', () => {
+      const onSelect = vi.fn()
+      const people = createPeople(500)
+
+      render(
+        <DynTableEnhanced
+          dataSource={people}
+          columns={columns}
+          scroll={{ y: 200 }}
+          virtual
+          rowSelection={{
+            selectedRowKeys: [],
+            getRowKey: person => person.id,
+            onSelect
+          }}
+        />
+      )
+
+      fireEvent.click(screen.getByLabelText('Select row 2'))
+      expect(onSelect).toHaveBeenCalledWith(['person-1'], [people[1]])
+    })
+  })
+
+  describe('server mode', () => {
+    const sortableColumns: TableColumn<Person>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', sortable: true },
+      { key: 'age', title: 'Age', dataIndex: 'age' }
+    ]
+
+    it('renders what the adapter returns without sorting or slicing locally', async () => {
+      const fetch = vi.fn(async (): Promise<TableQueryResult<Person>> => ({
+        data: [
+          { id: 'b', name: 'Zed', age: 30 },
+          { id: 'a', name: 'Amy', age: 40 }
+        ],
+        total: 42
+      }))
+
+      render(
+        <DynTableEnhanced
+          mode="server"
+          dataSource={[]}
+          columns={sortableColumns}
+          dataAdapter={{ fetch }}
+          pagination={{ current: 1, pageSize: 2, total: 0, onChange: vi.fn() }}
+        />
+      )
+
+      await waitFor(() => expect(getBodyRows()).toHaveLength(2))
+      expect(getBodyRows()[0]).toHaveTextContent('Zed')
+      expect(screen.getByText(/of 42 entries/)).toBeInTheDocument()
+      expect(fetch).toHaveBeenCalledWith(
+        { sort: [], filters: {}, pagination: { current: 1, pageSize: 2 } },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      )
+    })
+
+    it('ignores responses from superseded requests', async () => {
+      const resolvers: Array<(result: TableQueryResult<Person>) => void> = []
+      const fetch = vi.fn(
+        (_query: TableQuery) =>
+          new Promise<TableQueryResult<Person>>(resolve => resolvers.push(resolve))
+      )
+
+      render(
+        <DynTableEnhanced
+          mode="server"
+          dataSource={[]}
+          columns={sortableColumns}
+          dataAdapter={{ fetch }}
+        />
+      )
+
+      fireEvent.click(screen.getByText('Name'))
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch.mock.calls[1]?.[0].sort).toEqual([{ key: 'name', direction: 'asc' }])
+
+      await act(async () => {
+        resolvers[1]?.({ data: [{ id: 'new', name: 'Fresh', age: 1 }], total: 1 })
+      })
+      await act(async () => {
+        resolvers[0]?.({ data: [{ id: 'old', name: 'Stale', age: 1 }], total: 1 })
+      })
+
+      expect(screen.getByText('Fresh')).toBeInTheDocument()
+      expect(screen.queryByText('Stale')).not.toBeInTheDocument()
+    })
+
+    it('shows an error row with retry when the adapter rejects', async () => {
+      const onDataError = vi.fn()
+      const fetch = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce({ data: [{ id: 'a', name: 'Amy', age: 40 }], total: 1 })
+
+      render(
+        <DynTableEnhanced
+          mode="server"
+          dataSource={[]}
+          columns={sortableColumns}
+          dataAdapter={{ fetch }}
+          onDataError={onDataError}
+        />
+      )
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Could not load data')
+      expect(onDataError).toHaveBeenCalledWith(new Error('offline'))
+
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }))
+
+      expect(await screen.findByText('Amy')).toBeInTheDocument()
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('emits query changes and returns to the first page on sort', () => {
+      const onQueryChange = vi.fn()
+      const onPageChange = vi.fn()
+
+      render(
+        <DynTableEnhanced
+          mode="server"
+          dataSource={createPeople(3)}
+          columns={sortableColumns}
+          onQueryChange={onQueryChange}
+          pagination={{ current: 3, pageSize: 3, total: 30, onChange: onPageChange }}
+        />
+      )
+
+      expect(getBodyRows()[0]).toHaveTextContent('Person 0')
+
+      fireEvent.click(screen.getByText('Name'))
+      expect(onPageChange).toHaveBeenCalledWith(1, 3)
+      expect(onQueryChange).toHaveBeenCalledWith(
+        expect.objectContaining({ sort: [{ key: 'name', direction: 'asc' }] })
+      )
+    })
+  })
+
+  describe('column filters', () => {
+    interface Order {
+      id: string
+      customer: string
+      amount: number
+      status: string
+      createdAt: string
+    }
+
+    const orders: Order[] = [
+      { id: '1', customer: 'Acme', amount: 120, status: 'open', createdAt: '2024-01-05' },
+      { id: '2', customer: 'Globex', amount: 40, status: 'closed', createdAt: '2024-02-10' },
+      { id: '3', customer: 'Acme Labs', amount: 300, status: 'open', createdAt: '2024-03-15' }
+    ]
+
+    const orderColumns: TableColumn<Order>[] = [
+      { key: 'customer', title: 'Customer', dataIndex: 'customer', filterable: true },
+      { key: 'amount', title: 'Amount', dataIndex: 'amount', filterable: true, filterType: 'number' },
+      { key: 'status', title: 'Status', dataIndex: 'status', filterable: true, filterType: 'enum' },
+      { key: 'createdAt', title: 'Created', dataIndex: 'createdAt', filterable: true, filterType: 'date' }
+    ]
+
+    const openFilter = (title: string) => {
+      fireEvent.click(screen.getByRole('button', { name: `Filter ${title}` }))
+      return screen.getByRole('dialog', { name: `Filter ${title}` })
+    }
+
+    it('filters text columns with the contains and equals operators', () => {
+      const onFilterChange = vi.fn()
+      render(<DynTableEnhanced dataSource={orders} columns={orderColumns} onFilterChange={onFilterChange} />)
+
+      openFilter('Customer')
+      fireEvent.change(screen.getByLabelText('Customer filter value'), { target: { value: 'acme' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+
+      expect(getBodyRows()).toHaveLength(2)
+      expect(onFilterChange).toHaveBeenCalledWith({
+        customer: { type: 'text', operator: 'contains', value: 'acme' }
+      })
+
+      openFilter('Customer')
+      fireEvent.change(screen.getByLabelText('Customer filter operator'), { target: { value: 'equals' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+
+      expect(getBodyRows()).toHaveLength(1)
+    })
+
+    it('filters number and date ranges', () => {
+      render(<DynTableEnhanced dataSource={orders} columns={orderColumns} />)
+
+      openFilter('Amount')
+      fireEvent.change(screen.getByLabelText('Amount minimum'), { target: { value: '100' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+      expect(getBodyRows()).toHaveLength(2)
+
+      openFilter('Created')
+      fireEvent.change(screen.getByLabelText('Created to'), { target: { value: '2024-02-28' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+
+      expect(getBodyRows()).toHaveLength(1)
+      expect(getBodyRows()[0]).toHaveTextContent('Acme')
+    })
+
+    it('offers distinct values for enum filters and clears on reset', () => {
+      render(<DynTableEnhanced dataSource={orders} columns={orderColumns} />)
+
+      const dialog = openFilter('Status')
+      expect(dialog.querySelectorAll('input[type="checkbox"]')).toHaveLength(2)
+
+      fireEvent.click(screen.getByLabelText('closed'))
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+      expect(getBodyRows()).toHaveLength(1)
+      expect(screen.getByRole('button', { name: 'Filter Status' })).toHaveAttribute('aria-pressed', 'true')
+
+      openFilter('Status')
+      fireEvent.click(screen.getByRole('button', { name: 'Reset' }))
+      expect(getBodyRows()).toHaveLength(3)
+    })
+  })
+
+  describe('sorting', () => {
+    interface Contact {
+      id: string
+      name: string
+      city: string | null
+      joined?: Date
+    }
+
+    const contacts: Contact[] = [
+      { id: '1', name: 'bob', city: 'Oslo', joined: new Date('2021-05-01') },
+      { id: '2', name: 'Alice', city: null, joined: new Date('2020-01-01') },
+      { id: '3', name: 'alice', city: 'Bergen' },
+      { id: '4', name: 'Émile', city: 'Oslo', joined: new Date('2019-03-01') }
+    ]
+
+    const contactColumns: TableColumn<Contact>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name', sortable: true },
+      { key: 'city', title: 'City', dataIndex: 'city', sortable: true },
+      {
+        key: 'joined',
+        title: 'Joined',
+        dataIndex: 'joined',
+        sortable: true,
+        render: (value: Date | undefined) => value?.getFullYear() ?? '-'
+      },
+      {
+        key: 'length',
+        title: 'Length',
+        dataIndex: record => record.name.length,
+        sortable: true,
+        sorter: (a, b) => b.name.length - a.name.length
+      }
+    ]
+
+    const firstColumnText = () => getBodyRows().map(row => row.cells[0]?.textContent)
+
+    it('collates strings case and accent insensitively', () => {
+      render(<DynTableEnhanced dataSource={contacts} columns={contactColumns} />)
+
+      fireEvent.click(screen.getByText('Name'))
+      expect(firstColumnText()).toEqual(['Alice', 'alice', 'bob', 'Émile'])
+      expect(screen.getByText('Name').closest('th')).toHaveAttribute('aria-sort', 'ascending')
+
+      fireEvent.click(screen.getByText('Name'))
+      expect(firstColumnText()).toEqual(['Émile', 'bob', 'Alice', 'alice'])
+      expect(screen.getByText('Name').closest('th')).toHaveAttribute('aria-sort', 'descending')
+    })
+
+    it('adds secondary sort keys with shift and shows priorities', () => {
+      const onSortChange = vi.fn()
+      render(<DynTableEnhanced dataSource={contacts} columns={contactColumns} onSortChange={onSortChange} />)
+
+      fireEvent.click(screen.getByText('City'))
+      fireEvent.click(screen.getByText('Name'), { shiftKey: true })
+      fireEvent.click(screen.getByText('Name'), { shiftKey: true })
+
+      expect(firstColumnText()).toEqual(['alice', 'Émile', 'bob', 'Alice'])
+      expect(screen.getByLabelText('Sort priority 2')).toBeInTheDocument()
+      expect(onSortChange).toHaveBeenLastCalledWith(
+        { key: 'city', direction: 'asc' },
+        [{ key: 'city', direction: 'asc' }, { key: 'name', direction: 'desc' }]
+      )
+
+      fireEvent.click(screen.getByText('Name'), { shiftKey: true })
+      expect(screen.queryByLabelText('Sort priority 2')).not.toBeInTheDocument()
+    })
+
+    it('places empty values according to the nulls option', () => {
+      const { rerender } = render(
+        <DynTableEnhanced dataSource={contacts} columns={contactColumns} sortConfig={{ key: 'joined', direction: 'desc' }} />
+      )
+      expect(firstColumnText()).toEqual(['bob', 'Alice', 'Émile', 'alice'])
+
+      rerender(
+        <DynTableEnhanced
+          dataSource={contacts}
+          columns={contactColumns}
+          sortConfig={{ key: 'joined', direction: 'desc' }}
+          sortOptions={{ nulls: 'first' }}
+        />
+      )
+      expect(firstColumnText()).toEqual(['alice', 'bob', 'Alice', 'Émile'])
+    })
+
+    it('uses custom column sorters and supports keyboard activation', () => {
+      render(<DynTableEnhanced dataSource={contacts} columns={contactColumns} />)
+
+      const header = screen.getByText('Length').closest('th') as HTMLElement
+      fireEvent.keyDown(header, { key: 'Enter' })
+
+      expect(firstColumnText()).toEqual(['Alice', 'alice', 'Émile', 'bob'])
+    })
+  })
+
+  describe('column layout', () => {
+    const headerTitles = () =>
+      screen.getAllByRole('columnheader').map(cell => cell.textContent)
+
+    it('hides and restores columns from the column chooser', () => {
+      const onColumnLayoutChange = vi.fn()
+      render(
+        <DynTableEnhanced
+          dataSource={createPeople(2)}
+          columns={columns}
+          columnChooser
+          onColumnLayoutChange={onColumnLayoutChange}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: 'Columns' }))
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Age' }))
+
+      expect(headerTitles()).toEqual(['Name'])
+      expect(getBodyRows()[0]?.querySelectorAll('td')).toHaveLength(1)
+      expect(onColumnLayoutChange).toHaveBeenLastCalledWith({ order: ['name', 'age'], widths: {}, hidden: ['age'] })
+      // The last visible column cannot be hidden
+      expect(screen.getByRole('checkbox', { name: 'Name' })).toBeDisabled()
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Age' }))
+      expect(headerTitles()).toEqual(['Name', 'Age'])
+    })
+
+    it('reorders columns with the keyboard and by dragging headers', () => {
+      render(<DynTableEnhanced dataSource={createPeople(2)} columns={columns} reorderableColumns />)
+
+      fireEvent.keyDown(screen.getByText('Name').closest('th') as HTMLElement, { key: 'ArrowRight', altKey: true })
+      expect(headerTitles()).toEqual(['Age', 'Name'])
+      expect(getBodyRows()[0]?.querySelector('td')).toHaveTextContent('20')
+
+      const age = screen.getByText('Age').closest('th') as HTMLElement
+      const name = screen.getByText('Name').closest('th') as HTMLElement
+      fireEvent.dragStart(name)
+      fireEvent.dragOver(age)
+      fireEvent.drop(age)
+      expect(headerTitles()).toEqual(['Name', 'Age'])
+    })
+
+    it('resizes columns within their bounds', () => {
+      const onColumnLayoutChange = vi.fn()
+      render(
+        <DynTableEnhanced
+          dataSource={createPeople(2)}
+          columns={[{ ...columns[0]!, width: 100, maxWidth: 120 }, columns[1]!]}
+          resizableColumns
+          onColumnLayoutChange={onColumnLayoutChange}
+        />
+      )
+
+      const handle = screen.getByRole('separator', { name: 'Resize Name' })
+      vi.spyOn(handle.closest('th') as HTMLElement, 'getBoundingClientRect').mockReturnValue({ width: 100 } as DOMRect)
+
+      fireEvent.keyDown(handle, { key: 'ArrowRight' })
+      expect(handle).toHaveAttribute('aria-valuenow', '110')
+      expect(screen.getByText('Name').closest('th')).toHaveStyle({ width: '110px' })
+
+      // jsdom has no PointerEvent, so dispatch mouse events under pointer event names
+      fireEvent(handle, new MouseEvent('pointerdown', { bubbles: true, clientX: 0 }))
+      fireEvent(document, new MouseEvent('pointermove', { clientX: 200 }))
+      fireEvent(document, new MouseEvent('pointerup'))
+      expect(onColumnLayoutChange).toHaveBeenLastCalledWith({ order: ['name', 'age'], widths: { name: 120 }, hidden: [] })
+    })
+
+    it('applies a restored layout and ignores unknown keys', () => {
+      const layout: ColumnLayoutState = { order: ['age', 'removed'], widths: { age: 80 }, hidden: ['removed'] }
+      render(<DynTableEnhanced dataSource={createPeople(2)} columns={columns} columnLayout={layout} />)
+
+      expect(headerTitles()).toEqual(['Age', 'Name'])
+      expect(screen.getByText('Age').closest('th')).toHaveStyle({ width: '80px' })
+    })
+  })
+
+  describe('pinned columns', () => {
+    interface Order {
+      id: string
+      customer: string
+      total: number
+      status: string
+    }
+
+    const orders: Order[] = [
+      { id: 'A-1', customer: 'Ada', total: 10, status: 'open' },
+      { id: 'A-2', customer: 'Grace', total: 20, status: 'closed' }
+    ]
+
+    const orderColumns: TableColumn<Order>[] = [
+      { key: 'customer', title: 'Customer', dataIndex: 'customer' },
+      { key: 'status', title: 'Status', dataIndex: 'status', fixed: 'right' },
+      { key: 'id', title: 'ID', dataIndex: 'id', fixed: 'left' },
+      { key: 'total', title: 'Total', dataIndex: 'total', fixed: 'left' }
+    ]
+
+    const headerCell = (title: string) => screen.getByText(title).closest('th') as HTMLElement
+
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({ width: 100 } as DOMRect)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('moves pinned columns to the edges with cumulative offsets', () => {
+      render(<DynTableEnhanced dataSource={orders} columns={orderColumns} scroll={{ x: 1200 }} />)
+
+      expect(screen.getAllByRole('columnheader').map(cell => cell.textContent)).toEqual(['ID', 'Total', 'Customer', 'Status'])
+      expect(headerCell('ID')).toHaveStyle({ left: '0px' })
+      expect(headerCell('Total')).toHaveStyle({ left: '100px' })
+      expect(headerCell('Total')).toHaveClass('dyn-table__cell--pinned-left-edge')
+      expect(headerCell('Status')).toHaveStyle({ right: '0px' })
+      expect(headerCell('Customer')).not.toHaveClass('dyn-table__cell--pinned')
+
+      const [firstCell] = Array.from(getBodyRows()[0]?.querySelectorAll('td') ?? [])
+      expect(firstCell).toHaveClass('dyn-table__cell--pinned-left')
+      expect(firstCell).toHaveTextContent('A-1')
+    })
+
+    it('pins the selection column ahead of left-pinned columns', () => {
+      render(
+        <DynTableEnhanced
+          dataSource={orders}
+          columns={orderColumns}
+          rowSelection={{ selectedRowKeys: [], getRowKey: record => record.id }}
+        />
+      )
+
+      const selectionHeader = screen.getByLabelText('Select all rows').closest('th') as HTMLElement
+      expect(selectionHeader).toHaveClass('dyn-table__cell--pinned-left')
+      expect(headerCell('ID')).toHaveStyle({ left: '100px' })
+      expect(headerCell('Total')).toHaveStyle({ left: '200px' })
+    })
+
+    it('shows edge shadows only while content scrolls underneath', () => {
+      const { container } = render(<DynTableEnhanced dataSource={orders} columns={orderColumns} scroll={{ x: 1200 }} />)
+      const scroller = container.querySelector('.dyn-table__scroll-container') as HTMLElement
+      Object.defineProperty(scroller, 'clientWidth', { configurable: true, value: 300 })
+      Object.defineProperty(scroller, 'scrollWidth', { configurable: true, value: 1200 })
+
+      scroller.scrollLeft = 0
+      fireEvent.scroll(scroller)
+      expect(scroller).not.toHaveClass('dyn-table__scroll-container--shadow-left')
+      expect(scroller).toHaveClass('dyn-table__scroll-container--shadow-right')
+
+      scroller.scrollLeft = 900
+      fireEvent.scroll(scroller)
+      expect(scroller).toHaveClass('dyn-table__scroll-container--shadow-left')
+      expect(scroller).not.toHaveClass('dyn-table__scroll-container--shadow-right')
+    })
+
+    it('keeps reordering within the pinned group and follows resized widths', () => {
+      render(<DynTableEnhanced dataSource={orders} columns={orderColumns} reorderableColumns resizableColumns />)
+
+      fireEvent.keyDown(headerCell('Total'), { key: 'ArrowRight', altKey: true })
+      expect(screen.getAllByRole('columnheader').map(cell => cell.textContent)).toEqual(['ID', 'Total', 'Customer', 'Status'])
+
+      fireEvent.keyDown(headerCell('Total'), { key: 'ArrowLeft', altKey: true })
+      expect(screen.getAllByRole('columnheader').map(cell => cell.textContent)).toEqual(['Total', 'ID', 'Customer', 'Status'])
+
+      vi.spyOn(headerCell('Total'), 'getBoundingClientRect').mockReturnValue({ width: 150 } as DOMRect)
+      fireEvent.keyDown(screen.getByRole('separator', { name: 'Resize Total' }), { key: 'ArrowRight' })
+      expect(headerCell('ID')).toHaveStyle({ left: '150px' })
+    })
+  })
+
+  describe('inline editing', () => {
+    interface Product {
+      id: string
+      name: string
+      stock: number
+      active: boolean
+    }
+
+    const products: Product[] = [
+      { id: 'p1', name: 'Lamp', stock: 3, active: true },
+      { id: 'p2', name: 'Desk', stock: 0, active: false }
+    ]
+
+    const productColumns: TableColumn<Product>[] = [
+      {
+        key: 'name',
+        title: 'Name',
+        dataIndex: 'name',
+        editable: true,
+        validation: [{ type: 'required', message: 'Name is required' }]
+      },
+      { key: 'stock', title: 'Stock', dataIndex: 'stock', editable: true, editor: { type: 'number' } },
+      { key: 'active', title: 'Active', dataIndex: 'active', editable: record => record.stock > 0, editor: { type: 'checkbox' } }
+    ]
+
+    const renderProducts = (onCellEdit = vi.fn()) => {
+      render(
+        <DynTableEnhanced
+          dataSource={products}
+          columns={productColumns}
+          rowSelection={{ selectedRowKeys: [], getRowKey: record => record.id }}
+          onCellEdit={onCellEdit}
+        />
+      )
+      return onCellEdit
+    }
+
+    it('commits with Enter and returns focus to the cell', async () => {
+      const onCellEdit = renderProducts()
+
+      const cell = screen.getByText('Lamp')
+      fireEvent.doubleClick(cell)
+      const input = screen.getByRole('textbox', { name: 'Name' })
+      expect(input).toHaveFocus()
+
+      fireEvent.change(input, { target: { value: 'Floor lamp' } })
+      fireEvent.keyDown(input, { key: 'Enter' })
+
+      await waitFor(() => expect(screen.queryByRole('textbox', { name: 'Name' })).not.toBeInTheDocument())
+      expect(onCellEdit).toHaveBeenCalledWith(expect.objectContaining({
+        rowKey: 'p1',
+        columnKey: 'name',
+        value: 'Floor lamp',
+        previousValue: 'Lamp'
+      }))
+      expect(cell).toHaveFocus()
+    })
+
+    it('cancels with Escape without saving', () => {
+      const onCellEdit = renderProducts()
+
+      fireEvent.keyDown(screen.getByText('Lamp'), { key: 'F2' })
+      const input = screen.getByRole('textbox', { name: 'Name' })
+      fireEvent.change(input, { target: { value: 'Changed' } })
+      fireEvent.keyDown(input, { key: 'Escape' })
+
+      expect(screen.queryByRole('textbox', { name: 'Name' })).not.toBeInTheDocument()
+      expect(screen.getByText('Lamp')).toHaveFocus()
+      expect(onCellEdit).not.toHaveBeenCalled()
+    })
+
+    it('blocks commits that fail validation rules', async () => {
+      const onCellEdit = renderProducts()
+
+      fireEvent.doubleClick(screen.getByText('Lamp'))
+      const input = screen.getByRole('textbox', { name: 'Name' })
+      fireEvent.change(input, { target: { value: '  ' } })
+      fireEvent.keyDown(input, { key: 'Enter' })
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Name is required')
+      expect(onCellEdit).not.toHaveBeenCalled()
+    })
+
+    it('keeps the editor open with the reason when onCellEdit rejects', async () => {
+      renderProducts(vi.fn().mockRejectedValue(new Error('Stock is locked')))
+
+      fireEvent.doubleClick(screen.getByText('3'))
+      const input = screen.getByRole('spinbutton', { name: 'Stock' })
+      fireEvent.change(input, { target: { value: '5' } })
+      fireEvent.keyDown(input, { key: 'Enter' })
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Stock is locked')
+      expect(screen.getByRole('spinbutton', { name: 'Stock' })).toBeInTheDocument()
+    })
+
+    it('moves between editable cells with Tab and skips read-only ones', async () => {
+      const onCellEdit = renderProducts()
+
+      fireEvent.doubleClick(screen.getByText('3'))
+      const stock = screen.getByRole('spinbutton', { name: 'Stock' })
+      fireEvent.change(stock, { target: { value: '7' } })
+      fireEvent.keyDown(stock, { key: 'Tab' })
+
+      // Numbers are committed as numbers
+      await waitFor(() => expect(onCellEdit).toHaveBeenCalledWith(expect.objectContaining({ value: 7, previousValue: 3 })))
+      expect(await screen.findByRole('checkbox', { name: 'Active' })).toHaveFocus()
+
+      // The second row is out of stock, so its Active cell is read-only
+      fireEvent.keyDown(screen.getByRole('checkbox', { name: 'Active' }), { key: 'Tab' })
+      expect(await screen.findByRole('textbox', { name: 'Name' })).toHaveValue('Desk')
+
+      fireEvent.keyDown(screen.getByRole('textbox', { name: 'Name' }), { key: 'Tab', shiftKey: true })
+      expect(await screen.findByRole('checkbox', { name: 'Active' })).toBeInTheDocument()
+    })
+  })
+
+  describe('expandable rows', () => {
+    interface Account {
+      id: string
+      name: string
+      children?: Account[]
+    }
+
+    const accounts: Account[] = [
+      {
+        id: 'assets',
+        name: 'Assets',
+        children: [
+          { id: 'cash', name: 'Cash' },
+          { id: 'bank', name: 'Bank', children: [{ id: 'checking', name: 'Checking' }] }
+        ]
+      },
+      { id: 'equity', name: 'Equity' }
+    ]
+
+    const accountColumns: TableColumn<Account>[] = [
+      { key: 'name', title: 'Name', dataIndex: 'name' }
+    ]
+
+    it('renders detail panels for expanded rows and toggles from the keyboard', () => {
+      const onExpandedRowsChange = vi.fn()
+      render(
+        <DynTableEnhanced
+          dataSource={createPeople(2)}
+          columns={columns}
+          rowKey={record => record.id}
+          expandable={{
+            expandedRowRender: record => <p>Details for {record.name}</p>,
+            rowExpandable: record => record.id !== 'person-1',
+            onExpandedRowsChange
+          }}
+        />
+      )
+
+      expect(screen.getAllByRole('button', { name: 'Expand row' })).toHaveLength(1)
+      const toggle = screen.getByRole('button', { name: 'Expand row' })
+
+      fireEvent.keyDown(toggle, { key: 'ArrowRight' })
+      expect(onExpandedRowsChange).toHaveBeenLastCalledWith(['person-0'])
+      expect(screen.getByText('Details for Person 0')).toBeInTheDocument()
+      expect(toggle).toHaveAttribute('aria-expanded', 'true')
+      expect(document.getElementById(toggle.getAttribute('aria-controls') as string)).toHaveTextContent('Details for Person 0')
+
+      fireEvent.keyDown(toggle, { key: 'ArrowLeft' })
+      expect(screen.queryByText('Details for Person 0')).not.toBeInTheDocument()
+    })
+
+    it('follows controlled expandedRowKeys', () => {
+      const { rerender } = render(
+        <DynTableEnhanced
+          dataSource={createPeople(2)}
+          columns={columns}
+          rowKey={record => record.id}
+          expandable={{ expandedRowRender: record => `Details for ${record.name}`, expandedRowKeys: ['person-1'] }}
+        />
+      )
+      expect(screen.getByText('Details for Person 1')).toBeInTheDocument()
+
+      // Clicking only reports the change while the prop stays in charge
+      fireEvent.click(screen.getAllByRole('button', { name: 'Collapse row' })[0] as HTMLElement)
+      expect(screen.getByText('Details for Person 1')).toBeInTheDocument()
+
+      rerender(
+        <DynTableEnhanced
+          dataSource={createPeople(2)}
+          columns={columns}
+          rowKey={record => record.id}
+          expandable={{ expandedRowRender: record => `Details for ${record.name}`, expandedRowKeys: [] }}
+        />
+      )
+      expect(screen.queryByText('Details for Person 1')).not.toBeInTheDocument()
+    })
+
+    it('renders tree data as indented child rows', () => {
+      render(<DynTableEnhanced dataSource={accounts} columns={accountColumns} rowKey={record => record.id} expandable={{}} />)
+
+      expect(getBodyRows().map(row => row.textContent)).toEqual(['Assets', 'Equity'])
+
+      fireEvent.click(screen.getByRole('button', { name: 'Expand row' }))
+      fireEvent.click(screen.getAllByRole('button', { name: 'Expand row' })[0] as HTMLElement)
+
+      expect(getBodyRows().map(row => row.textContent)).toEqual(['Assets', 'Cash', 'Bank', 'Checking', 'Equity'])
+      expect(screen.getByText('Checking').closest('.dyn-table__tree-cell')).toHaveStyle({ paddingLeft: '32px' })
+    })
+
+    it('cascades selection through tree data', () => {
+      const onSelect = vi.fn()
+      const { rerender } = render(
+        <DynTableEnhanced
+          dataSource={accounts}
+          columns={accountColumns}
+          expandable={{ defaultExpandedRowKeys: ['assets', 'bank'] }}
+          rowSelection={{ selectedRowKeys: [], getRowKey: record => record.id, onSelect }}
+        />
+      )
+
+      fireEvent.click(screen.getByLabelText('Select row 1'))
+      expect(onSelect.mock.calls[0]?.[0]).toEqual(['assets', 'cash', 'bank', 'checking'])
+
+      // Selecting the last unselected child completes its ancestors
+      rerender(
+        <DynTableEnhanced
+          dataSource={accounts}
+          columns={accountColumns}
+          expandable={{ defaultExpandedRowKeys: ['assets', 'bank'] }}
+          rowSelection={{ selectedRowKeys: ['cash'], getRowKey: record => record.id, onSelect }}
+        />
+      )
+      expect(screen.getByLabelText('Select row 1')).toHaveProperty('indeterminate', true)
+
+      fireEvent.click(screen.getByLabelText('Select row 4'))
+      expect(onSelect.mock.calls[1]?.[0]).toEqual(['cash', 'checking', 'bank', 'assets'])
+    })
+  })
+
+  describe('grouping and aggregates', () => {
+    interface Sale {
+      id: string
+      region: string
+      rep: string
+      amount: number
+    }
+
+    const sales: Sale[] = [
+      { id: 's1', region: 'North', rep: 'Kim', amount: 100 },
+      { id: 's2', region: 'South', rep: 'Lee', amount: 40 },
+      { id: 's3', region: 'North', rep: 'Lee', amount: 50 },
+      { id: 's4', region: 'South', rep: 'Lee', amount: 10 },
+      { id: 's5', region: 'North', rep: 'Kim', amount: 30 }
+    ]
+
+    const saleColumns: TableColumn<Sale>[] = [
+      { key: 'id', title: 'ID', dataIndex: 'id' },
+      { key: 'region', title: 'Region', dataIndex: 'region' },
+      { key: 'rep', title: 'Rep', dataIndex: 'rep', filterable: true },
+      { key: 'amount', title: 'Amount', dataIndex: 'amount', sortable: true, aggregate: ['sum', 'avg'] }
+    ]
+
+    const rowTexts = (selector: string) =>
+      Array.from(document.querySelectorAll(selector)).map(row => row.textContent)
+
+    it('groups rows under collapsible headers with subtotals and a grand total', () => {
+      render(<DynTableEnhanced dataSource={sales} columns={saleColumns} groupBy={['region']} rowKey={sale => sale.id} />)
+
+      expect(rowTexts('.dyn-table__group-row')).toEqual(['Region:North(3)', 'Region:South(2)'])
+      expect(rowTexts('.dyn-table__subtotal-row')).toEqual([
+        'SubtotalSum180Average60',
+        'SubtotalSum50Average25'
+      ])
+      expect(rowTexts('.dyn-table__total-row')).toEqual(['TotalSum230Average46'])
+
+      const north = screen.getByRole('button', { name: /North/ })
+      fireEvent.click(north)
+      expect(north).toHaveAttribute('aria-expanded', 'false')
+      expect(getBodyRows().map(row => row.firstChild?.textContent)).toEqual(['s2', 's4'])
+      // Collapsed groups keep their subtotal
+      expect(rowTexts('.dyn-table__subtotal-row')).toHaveLength(2)
+    })
+
+    it('nests groups and orders them by the table sort', () => {
+      render(
+        <DynTableEnhanced
+          dataSource={sales}
+          columns={saleColumns}
+          groupBy={['region', 'rep']}
+          sortConfig={{ key: 'amount', direction: 'asc' }}
+          rowKey={sale => sale.id}
+        />
+      )
+
+      expect(rowTexts('.dyn-table__group-row')).toEqual([
+        'Region:South(2)',
+        'Rep:Lee(2)',
+        'Region:North(3)',
+        'Rep:Kim(2)',
+        'Rep:Lee(1)'
+      ])
+      expect(getBodyRows().map(row => row.firstChild?.textContent)).toEqual(['s4', 's2', 's5', 's1', 's3'])
+    })
+
+    it('applies filters before grouping and keeps whole-group totals across pages', () => {
+      render(
+        <DynTableEnhanced
+          dataSource={sales}
+          columns={saleColumns}
+          groupBy={['region']}
+          rowKey={sale => sale.id}
+          pagination={{ current: 1, pageSize: 2, total: sales.length, onChange: vi.fn() }}
+        />
+      )
+
+      // The first page holds s1 and s2 but the North subtotal covers all of its rows
+      expect(rowTexts('.dyn-table__group-row')).toEqual(['Region:North(3)', 'Region:South(2)'])
+      expect(rowTexts('.dyn-table__subtotal-row')[0]).toBe('SubtotalSum180Average60')
+
+      fireEvent.click(screen.getByRole('button', { name: 'Filter Rep' }))
+      fireEvent.change(screen.getByLabelText('Rep filter value'), { target: { value: 'Kim' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+
+      expect(rowTexts('.dyn-table__group-row')).toEqual(['Region:North(2)'])
+      expect(rowTexts('.dyn-table__total-row')).toEqual(['TotalSum130Average65'])
+    })
+
+    it('reports dataset indices for grouped rows', () => {
+      const onClick = vi.fn()
+      const renderCell = vi.fn((value: unknown) => String(value))
+
+      render(
+        <DynTableEnhanced
+          dataSource={sales}
+          columns={[{ ...saleColumns[0]!, render: renderCell }, ...saleColumns.slice(1)]}
+          groupBy={['region']}
+          rowKey={sale => sale.id}
+          onRow={{ onClick }}
+        />
+      )
+
+      fireEvent.click(screen.getByText('s4').closest('tr') as HTMLElement)
+      expect(onClick).toHaveBeenCalledWith(sales[3], 3)
+      fireEvent.click(screen.getByText('s3').closest('tr') as HTMLElement)
+      expect(onClick).toHaveBeenLastCalledWith(sales[2], 2)
+      expect(renderCell).toHaveBeenCalledWith('s5', sales[4], 4)
+    })
+  })
+
+  describe('export', () => {
+    interface Invoice {
+      id: string
+      customer: { name: string }
+      note: string
+      total: number
+      issued: Date
+    }
+
+    const invoices: Invoice[] = [
+      { id: 'INV-2', customer: { name: 'Acme, Inc.' }, note: 'Says "urgent"', total: 1200.5, issued: new Date('2024-03-01T00:00:00Z') },
+      { id: 'INV-1', customer: { name: 'Globex' }, note: '=SUM(A1:A2)', total: 80, issued: new Date('2024-02-01T00:00:00Z') },
+      { id: 'INV-3', customer: { name: 'Initech' }, note: 'Line one\nline two', total: 15, issued: new Date('2024-01-15T00:00:00Z') }
+    ]
+
+    const invoiceColumns: TableColumn<Invoice>[] = [
+      { key: 'id', title: 'Invoice', dataIndex: 'id', sortable: true },
+      { key: 'customer', title: 'Customer', dataIndex: record => record.customer.name, filterable: true },
+      { key: 'note', title: 'Note', dataIndex: 'note' },
+      {
+        key: 'total',
+        title: 'Total',
+        dataIndex: 'total',
+        render: value => <strong>${value}</strong>,
+        exportFormatter: value => (value as number).toFixed(2)
+      },
+      { key: 'issued', title: 'Issued', dataIndex: 'issued', exportable: false }
+    ]
+
+    const renderInvoices = (selectedRowKeys: string[] = []) => {
+      const ref = createRef<DynTableEnhancedRef<Invoice>>()
+      render(
+        <DynTableEnhanced
+          ref={ref}
+          dataSource={invoices}
+          columns={invoiceColumns}
+          sortConfig={{ key: 'id', direction: 'asc' }}
+          rowSelection={{ selectedRowKeys, getRowKey: record => record.id }}
+          pagination={{ current: 1, pageSize: 2, total: invoices.length, onChange: vi.fn() }}
+        />
+      )
+      return ref
+    }
+
+    it('exports the sorted view as escaped CSV through column accessors', () => {
+      const ref = renderInvoices()
+
+      expect(ref.current?.exportData()).toBe([
+        'Invoice,Customer,Note,Total',
+        'INV-1,Globex,=SUM(A1:A2),80.00',
+        'INV-2,"Acme, Inc.","Says ""urgent""",1200.50',
+        'INV-3,Initech,"Line one\nline two",15.00'
+      ].join('\r\n'))
+    })
+
+    it('honours the filtered view, selected rows and full data scopes', () => {
+      const ref = renderInvoices(['INV-3', 'INV-1'])
+
+      fireEvent.click(screen.getByRole('button', { name: 'Filter Customer' }))
+      fireEvent.change(screen.getByLabelText('Customer filter value'), { target: { value: 'n' } })
+      fireEvent.click(screen.getByRole('button', { name: 'Apply' }))
+
+      expect(ref.current?.getExportRows('view').map(record => record.id)).toEqual(['INV-2', 'INV-3'])
+      expect(ref.current?.getExportRows('selected').map(record => record.id)).toEqual(['INV-1', 'INV-3'])
+      expect(ref.current?.getExportRows('all').map(record => record.id)).toEqual(['INV-2', 'INV-1', 'INV-3'])
+    })
+
+    it('supports TSV, JSON, column selection, BOM and formula escaping', () => {
+      const ref = renderInvoices()
+
+      expect(ref.current?.exportData({ format: 'tsv', columns: ['id', 'customer'], includeHeaders: false, scope: 'all' }))
+        .toBe('INV-2\tAcme, Inc.\r\nINV-1\tGlobex\r\nINV-3\tInitech')
+
+      const csv = ref.current?.exportData({ columns: ['note'], bom: true, escapeFormulas: true }) ?? ''
+      expect(csv.charCodeAt(0)).toBe(0xfeff)
+      expect(csv).toContain(`'=SUM(A1:A2)`)
+
+      expect(JSON.parse(ref.current?.exportData({ format: 'json', columns: ['id', 'issued'], scope: 'all' }) ?? '')[0])
+        .toEqual({ id: 'INV-2', issued: '2024-03-01T00:00:00.000Z' })
+    })
+
+    it('downloads the export as a file', () => {
+      vi.useFakeTimers()
+      const ref = renderInvoices()
+      const createObjectURL = vi.fn(() => 'blob:export')
+      const revokeObjectURL = vi.fn()
+      Object.assign(URL, { createObjectURL, revokeObjectURL })
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      ref.current?.downloadData({ filename: 'invoices', format: 'tsv' })
+
+      expect(click).toHaveBeenCalledTimes(1)
+      const link = click.mock.contexts[0] as HTMLAnchorElement
+      expect(link.download).toBe('invoices.tsv')
+      // Revoked once the browser has picked the download up
+      expect(revokeObjectURL).not.toHaveBeenCalled()
+
+      vi.runAllTimers()
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:export')
+      expect(link).not.toBeInTheDocument()
+      click.mockRestore()
+      vi.useRealTimers()
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { act, render, screen, fireEvent, createEvent, within } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynToaster } from '../../src/ui/dyn-toast'
+import { toast } from '../../src/utils/toast-store'
+
+// Toasts, without the copies in the live regions
+const getList = () => within(screen.getByRole('list'))
+
+// jsdom has no PointerEvent, so clientX is set on the generic event
+const pointer = (element: Element, type: 'pointerDown' | 'pointerMove' | 'pointerUp', clientX: number) => {
+  const event = createEvent[type](element)
+  Object.defineProperty(event, 'clientX', { value: clientX })
+  fireEvent(element, event)
+}
+
+describe('DynToaster', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    act(() => toast.dismiss())
+    vi.useRealTimers()
+  })
+
+  it('announces toasts by color and closes them after their duration', () => {
+    render(<DynToaster />)
+
+    act(() => {
+      toast.success('Saved', { duration: 1000 })
+      toast.error('Upload failed', { duration: 2000 })
+    })
+
+    expect(screen.getByRole('status')).toHaveTextContent('Saved')
+    expect(screen.getByRole('alert')).toHaveTextContent('Upload failed')
+
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual(['Upload failed'])
+  })
+
+  it('keeps the live regions mounted and announces only new toasts', () => {
+    render(<DynToaster />)
+    const status = screen.getByRole('status')
+    expect(status).toBeEmptyDOMElement()
+    expect(screen.getByRole('alert')).toBeEmptyDOMElement()
+
+    act(() => {
+      toast('Copied', { duration: Infinity })
+    })
+    expect(screen.getByRole('status')).toBe(status)
+    expect(status).toHaveTextContent('Copied')
+    expect(screen.getByRole('listitem')).not.toHaveAttribute('aria-live')
+
+    act(() => {
+      toast.info('Link shared', { duration: Infinity })
+    })
+    expect(status).toHaveTextContent('Link shared')
+    expect(status).not.toHaveTextContent('Copied')
+  })
+
+  it('pauses timers while the region is hovered', () => {
+    render(<DynToaster />)
+    act(() => {
+      toast('Copied', { duration: 1000 })
+    })
+
+    const region = screen.getByRole('region', { name: 'Notifications' })
+    act(() => {
+      vi.advanceTimersByTime(600)
+    })
+    fireEvent.mouseEnter(region)
+    act(() => {
+      vi.advanceTimersByTime(5000)
+    })
+    expect(getList().getByText('Copied')).toBeInTheDocument()
+
+    fireEvent.mouseLeave(region)
+    act(() => {
+      vi.advanceTimersByTime(399)
+    })
+    expect(getList().getByText('Copied')).toBeInTheDocument()
+    act(() => {
+      vi.advanceTimersByTime(1)
+    })
+    expect(getList().queryByText('Copied')).not.toBeInTheDocument()
+  })
+
+  it('updates a toast shown again with the same id', () => {
+    render(<DynToaster />)
+    act(() => {
+      toast('Syncing 1 file', { id: 'sync' })
+      toast('Syncing 2 files', { id: 'sync' })
+    })
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1)
+    expect(screen.getByRole('listitem')).toHaveTextContent('Syncing 2 files')
+  })
+
+  it('follows a promise from loading to success', async () => {
+    render(<DynToaster />)
+    let resolve: (value: number) => void = () => {}
+    const promise = new Promise<number>(r => { resolve = r })
+
+    act(() => {
+      void toast.promise(promise, {
+        loading: 'Uploading...',
+        success: count => `Uploaded ${count} files`,
+        error: 'Upload failed'
+      })
+    })
+    expect(screen.getByRole('listitem')).toHaveAttribute('aria-busy', 'true')
+    expect(screen.getByRole('status')).toHaveTextContent('Uploading...')
+
+    // Loading toasts do not time out
+    act(() => {
+      vi.advanceTimersByTime(10000)
+    })
+    await act(async () => resolve(3))
+
+    expect(screen.getByRole('listitem')).toHaveTextContent('Uploaded 3 files')
+    expect(screen.getByRole('listitem')).not.toHaveAttribute('aria-busy')
+    expect(screen.getByRole('status')).toHaveTextContent('Uploaded 3 files')
+  })
+
+  it('runs actions and dismisses on swipe', () => {
+    const onUndo = vi.fn()
+    const onDismiss = vi.fn()
+    render(<DynToaster />)
+    act(() => {
+      toast('Message archived', { action: { label: 'Undo', onClick: onUndo } })
+      toast('Draft saved', { onDismiss })
+    })
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }))
+    expect(onUndo).toHaveBeenCalled()
+    expect(getList().queryByText('Message archived')).not.toBeInTheDocument()
+
+    const draft = screen.getByRole('listitem')
+    pointer(draft, 'pointerDown', 0)
+    pointer(draft, 'pointerMove', 30)
+    pointer(draft, 'pointerUp', 30)
+    expect(draft).toBeInTheDocument()
+
+    pointer(draft, 'pointerDown', 0)
+    pointer(draft, 'pointerMove', 80)
+    pointer(draft, 'pointerUp', 80)
+    expect(getList().queryByText('Draft saved')).not.toBeInTheDocument()
+    expect(onDismiss).toHaveBeenCalledWith(expect.stringMatching(/^toast-/))
+  })
+
+  it('queues toasts beyond the visible ones until a slot is free', () => {
+    render(<DynToaster visibleToasts={2} placement="top-center" />)
+    act(() => {
+      toast('First', { duration: Infinity })
+      toast('Second', { duration: Infinity })
+      toast('Third', { duration: 1000 })
+    })
+
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual(['Second', 'First'])
+
+    // The waiting toast's timer has not started
+    act(() => {
+      vi.advanceTimersByTime(5000)
+    })
+    fireEvent.click(screen.getAllByRole('button', { name: 'Dismiss notification' })[0] as HTMLElement)
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual(['Third', 'First'])
+
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+    expect(getList().queryByText('Third')).not.toBeInTheDocument()
+  })
+})
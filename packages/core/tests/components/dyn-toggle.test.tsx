@@ -0,0 +1,103 @@
+import { act, render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynToggle } from '../../src/ui/dyn-toggle'
+import { DynFieldContainer } from '../../src/ui/dyn-field-container'
+
+// Promise whose outcome the test decides
+const deferred = () => {
+  let resolve!: () => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<void>((onResolve, onReject) => {
+    resolve = onResolve
+    reject = onReject
+  })
+  return { promise, resolve, reject }
+}
+
+describe('DynToggle', () => {
+  it('toggles a switch and shows the on/off text', () => {
+    const onChange = vi.fn()
+    render(<DynToggle aria-label="Wi-Fi" onLabel="On" offLabel="Off" onChange={onChange} name="wifi" />)
+
+    const toggle = screen.getByRole('switch', { name: 'Wi-Fi' })
+    expect(toggle).toHaveAttribute('aria-checked', 'false')
+    expect(toggle).toHaveTextContent('Off')
+    expect(document.querySelector('input[name="wifi"]')).toBeNull()
+
+    fireEvent.click(toggle)
+    expect(onChange).toHaveBeenCalledWith(true)
+    expect(toggle).toHaveAttribute('aria-checked', 'true')
+    expect(toggle).toHaveTextContent('On')
+    expect(document.querySelector('input[name="wifi"]')).toHaveValue('on')
+  })
+
+  it('follows the controlled value', () => {
+    const onChange = vi.fn()
+    const { rerender } = render(<DynToggle value={false} onChange={onChange} aria-label="Sync" />)
+
+    fireEvent.click(screen.getByRole('switch'))
+    expect(onChange).toHaveBeenCalledWith(true)
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'false')
+
+    rerender(<DynToggle value onChange={onChange} aria-label="Sync" />)
+    expect(screen.getByRole('switch')).toHaveAttribute('aria-checked', 'true')
+  })
+
+  it('shows the loading state while an async change is pending and keeps it once resolved', async () => {
+    const request = deferred()
+    const onChange = vi.fn(() => request.promise)
+    render(<DynToggle aria-label="Backups" onChange={onChange} />)
+
+    const toggle = screen.getByRole('switch')
+    fireEvent.click(toggle)
+    expect(toggle).toHaveAttribute('aria-checked', 'true')
+    expect(toggle).toHaveAttribute('aria-busy', 'true')
+
+    // Clicks are ignored until the change settles
+    fireEvent.click(toggle)
+    expect(onChange).toHaveBeenCalledTimes(1)
+
+    await act(async () => {
+      request.resolve()
+      await request.promise
+    })
+    expect(toggle).toHaveAttribute('aria-checked', 'true')
+    expect(toggle).not.toHaveAttribute('aria-busy')
+  })
+
+  it('reverts when the async change rejects', async () => {
+    const request = deferred()
+    render(<DynToggle aria-label="Backups" defaultValue onChange={() => request.promise} />)
+
+    const toggle = screen.getByRole('switch')
+    fireEvent.click(toggle)
+    expect(toggle).toHaveAttribute('aria-checked', 'false')
+
+    await act(async () => {
+      request.reject(new Error('Network error'))
+      await request.promise.catch(() => undefined)
+    })
+    expect(toggle).toHaveAttribute('aria-checked', 'true')
+    expect(toggle).not.toHaveAttribute('aria-busy')
+  })
+
+  it('renders label, description and error through DynFieldContainer', () => {
+    render(<DynToggle label="Notifications" description="Email me about replies" error="Required" required />)
+
+    const toggle = screen.getByRole('switch', { name: /^Notifications/ })
+    expect(toggle).toHaveAccessibleDescription(/Email me about replies/)
+    expect(toggle).toHaveAttribute('aria-invalid', 'true')
+    expect(screen.getByRole('alert')).toHaveTextContent('Required')
+  })
+
+  it('takes the label from a surrounding DynFieldContainer', () => {
+    render(
+      <DynFieldContainer label="Dark mode" disabled>
+        <DynToggle />
+      </DynFieldContainer>
+    )
+
+    const toggle = screen.getByRole('switch', { name: 'Dark mode' })
+    expect(toggle).toBeDisabled()
+  })
+})
@@ -0,0 +1,155 @@
+import { act, render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynToolbar, DynToolbarItem, DynToolbarSeparator } from '../../src/ui/dyn-toolbar'
+
+// jsdom has no ResizeObserver; the test triggers the callbacks itself
+let resizeCallbacks: Array<() => void> = []
+
+class ResizeObserverMock {
+  private readonly callback: () => void
+
+  constructor(callback: () => void) {
+    this.callback = callback
+    resizeCallbacks.push(callback)
+  }
+
+  observe() {}
+
+  disconnect() {
+    resizeCallbacks = resizeCallbacks.filter(callback => callback !== this.callback)
+  }
+}
+
+// Toolbar width is adjustable; every item is 100px and the overflow button 40px wide
+let toolbarWidth = 300
+const mockLayout = () =>
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+    const width = this.classList.contains('dyn-toolbar')
+      ? toolbarWidth
+      : this.classList.contains('dyn-toolbar__overflow') ? 40 : 100
+    return { x: 0, y: 0, left: 0, top: 0, right: width, bottom: 32, width, height: 32, toJSON: () => ({}) }
+  })
+
+const renderFormattingBar = (onOverflowAction = vi.fn()) => render(
+  <DynToolbar aria-label="Formatting">
+    <DynToolbarItem overflowLabel="Bold" onOverflowAction={() => onOverflowAction('bold')}>
+      <button type="button" aria-pressed="false">Bold</button>
+    </DynToolbarItem>
+    <DynToolbarItem overflowLabel="Italic" onOverflowAction={() => onOverflowAction('italic')}>
+      <button type="button" aria-pressed="false">Italic</button>
+    </DynToolbarItem>
+    <DynToolbarSeparator />
+    <DynToolbarItem
+      overflowLabel="Align"
+      overflowItems={[
+        { type: 'item', value: 'left', label: 'Align left' },
+        { type: 'item', value: 'center', label: 'Align center' }
+      ]}
+      onOverflowAction={value => onOverflowAction(`align-${value}`)}
+    >
+      <button type="button">Left</button>
+      <button type="button">Center</button>
+    </DynToolbarItem>
+  </DynToolbar>
+)
+
+describe('DynToolbar', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+    resizeCallbacks = []
+    toolbarWidth = 300
+  })
+
+  it('keeps a single tab stop that follows the arrow keys', () => {
+    renderFormattingBar()
+
+    expect(screen.getByRole('toolbar', { name: 'Formatting' })).toHaveAttribute('aria-orientation', 'horizontal')
+    const bold = screen.getByRole('button', { name: 'Bold' })
+    const italic = screen.getByRole('button', { name: 'Italic' })
+    expect(bold).toHaveAttribute('tabindex', '0')
+    expect(italic).toHaveAttribute('tabindex', '-1')
+
+    bold.focus()
+    fireEvent.keyDown(bold, { key: 'ArrowRight' })
+    expect(italic).toHaveFocus()
+    expect(italic).toHaveAttribute('tabindex', '0')
+    expect(bold).toHaveAttribute('tabindex', '-1')
+
+    // Buttons of a group are separate stops; the hidden overflow button is skipped
+    fireEvent.keyDown(italic, { key: 'End' })
+    expect(screen.getByRole('button', { name: 'Center' })).toHaveFocus()
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Center' }), { key: 'ArrowRight' })
+    expect(bold).toHaveFocus()
+  })
+
+  it('follows focus placed by clicking and leaves caret keys to text fields', () => {
+    render(
+      <DynToolbar aria-label="Search tools">
+        <button type="button">Back</button>
+        <input type="text" aria-label="Find" />
+        <button type="button">Next</button>
+      </DynToolbar>
+    )
+
+    const find = screen.getByRole('textbox', { name: 'Find' })
+    find.focus()
+    expect(find).toHaveAttribute('tabindex', '0')
+
+    fireEvent.keyDown(find, { key: 'ArrowLeft' })
+    expect(find).toHaveFocus()
+
+    const next = screen.getByRole('button', { name: 'Next' })
+    next.focus()
+    fireEvent.keyDown(next, { key: 'ArrowLeft' })
+    expect(find).toHaveFocus()
+  })
+
+  it('moves items that do not fit into an overflow menu', () => {
+    vi.stubGlobal('ResizeObserver', ResizeObserverMock)
+    mockLayout()
+    const onOverflowAction = vi.fn()
+    renderFormattingBar(onOverflowAction)
+
+    // 300px: two items next to the 40px overflow button
+    expect(screen.getByRole('button', { name: 'Italic' })).toBeVisible()
+    expect(screen.queryByRole('button', { name: 'Left' })).not.toBeInTheDocument()
+
+    const more = screen.getByRole('button', { name: 'More' })
+    expect(more).toHaveAttribute('aria-haspopup', 'menu')
+    fireEvent.click(more)
+
+    const menu = screen.getByRole('menu', { name: 'More' })
+    expect(screen.getAllByRole('menuitem').map(item => item.textContent)).toEqual(['Align'])
+    expect(screen.getByRole('menuitem', { name: 'Align' })).toHaveFocus()
+    expect(menu).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Align' }))
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Align center' }))
+    expect(onOverflowAction).toHaveBeenCalledWith('align-center')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+    expect(more).toHaveFocus()
+  })
+
+  it('brings items back when the toolbar grows', () => {
+    vi.stubGlobal('ResizeObserver', ResizeObserverMock)
+    mockLayout()
+    toolbarWidth = 150
+    const onOverflowAction = vi.fn()
+    renderFormattingBar(onOverflowAction)
+
+    fireEvent.click(screen.getByRole('button', { name: 'More' }))
+    expect(screen.getAllByRole('menuitem').map(item => item.textContent)).toEqual(['Italic', 'Align'])
+    // The separator between the overflowed items becomes a menu divider
+    expect(screen.getByRole('menu').querySelector('.dyn-menu-divider')).toBeInTheDocument()
+    expect(document.querySelector('.dyn-toolbar__separator')).toHaveAttribute('aria-orientation', 'vertical')
+
+    fireEvent.keyDown(document.body, { key: 'Escape' })
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+
+    toolbarWidth = 500
+    act(() => resizeCallbacks.forEach(callback => callback()))
+    expect(screen.getByRole('button', { name: 'Left' })).toBeVisible()
+    expect(screen.queryByRole('button', { name: 'More' })).not.toBeInTheDocument()
+  })
+})
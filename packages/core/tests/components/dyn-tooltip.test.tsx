@@ -0,0 +1,211 @@
+import { act, render, screen, fireEvent } from '@testing-library/react'
+import { vi } from 'vitest'
+import { DynTooltip, DynTooltipGroup } from '../../src/ui/dyn-tooltip'
+import { DynDropdown } from '../../src/ui/dyn-dropdown'
+
+const rect = (x: number, y: number, width: number, height: number) =>
+  ({ x, y, left: x, top: y, width, height, right: x + width, bottom: y + height, toJSON: () => ({}) }) as DOMRect
+
+describe('DynTooltip', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('describes the trigger while shown on focus', () => {
+    render(
+      <DynTooltip content="Saves the draft" delay={0}>
+        <button type="button">Save</button>
+      </DynTooltip>
+    )
+
+    const button = screen.getByRole('button', { name: 'Save' })
+    expect(button).not.toHaveAttribute('aria-describedby')
+
+    fireEvent.focus(button)
+    const tooltip = screen.getByRole('tooltip')
+    expect(tooltip).toHaveTextContent('Saves the draft')
+    expect(button).toHaveAttribute('aria-describedby', tooltip.id)
+
+    fireEvent.blur(button)
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+
+  it('lets outside clicks through to the overlay beneath', () => {
+    render(
+      <>
+        <DynDropdown label="File" items={[{ type: 'item', value: 'save', label: 'Save' }]} />
+        <DynTooltip content="Prints the page" delay={0}>
+          <button type="button">Print</button>
+        </DynTooltip>
+      </>
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'File' }))
+    fireEvent.focus(screen.getByRole('button', { name: 'Print' }))
+    expect(screen.getByRole('tooltip')).toBeInTheDocument()
+
+    fireEvent.mouseDown(document.body)
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('shows after the hover delay', () => {
+    vi.useFakeTimers()
+    render(
+      <DynTooltip content="Help" delay={200}>
+        <button type="button">?</button>
+      </DynTooltip>
+    )
+
+    fireEvent.mouseEnter(screen.getByRole('button').parentElement as HTMLElement)
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(200)
+    })
+    expect(screen.getByRole('tooltip')).toBeInTheDocument()
+  })
+
+  it('flips below the trigger when there is no room above', () => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+      return this.getAttribute('role') === 'tooltip' ? rect(0, 0, 80, 24) : rect(100, 10, 60, 20)
+    })
+
+    render(
+      <DynTooltip content="Help" placement="top" delay={0}>
+        <button type="button">?</button>
+      </DynTooltip>
+    )
+    fireEvent.focus(screen.getByRole('button'))
+
+    const tooltip = screen.getByRole('tooltip')
+    expect(tooltip).toHaveClass('dyn-tooltip--bottom')
+    // 8px below the trigger, centered on it
+    expect(tooltip).toHaveStyle({ top: '38px', left: '90px' })
+  })
+
+  it('closes on Escape and renders an arrow', () => {
+    render(
+      <DynTooltip content="Help" delay={0}>
+        <button type="button">?</button>
+      </DynTooltip>
+    )
+
+    fireEvent.focus(screen.getByRole('button'))
+    expect(screen.getByRole('tooltip').querySelector('.dyn-tooltip__arrow')).toBeInTheDocument()
+
+    fireEvent.keyDown(document.body, { key: 'Escape' })
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+
+  it('shows on long press and hides after the finger lifts', () => {
+    vi.useFakeTimers()
+    render(
+      <DynTooltip content="Archive" longPressDelay={400}>
+        <button type="button">Archive</button>
+      </DynTooltip>
+    )
+
+    const trigger = screen.getByRole('button').parentElement as HTMLElement
+    fireEvent.touchStart(trigger)
+    act(() => {
+      vi.advanceTimersByTime(400)
+    })
+    expect(screen.getByRole('tooltip')).toHaveTextContent('Archive')
+
+    fireEvent.touchEnd(trigger)
+    // The emulated mouse events after a tap do not reopen it
+    fireEvent.mouseEnter(trigger)
+    act(() => {
+      vi.advanceTimersByTime(1500)
+    })
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+
+  it('keeps an interactive tooltip open while it is hovered', () => {
+    vi.useFakeTimers()
+    render(
+      <DynTooltip content={<a href="#docs">Read the docs</a>} delay={0} interactive>
+        <button type="button">Info</button>
+      </DynTooltip>
+    )
+
+    const trigger = screen.getByRole('button').parentElement as HTMLElement
+    fireEvent.mouseEnter(trigger)
+    fireEvent.mouseLeave(trigger)
+    fireEvent.mouseEnter(screen.getByRole('tooltip'))
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(screen.getByRole('link', { name: 'Read the docs' })).toBeInTheDocument()
+
+    fireEvent.mouseLeave(screen.getByRole('tooltip'))
+    act(() => {
+      vi.advanceTimersByTime(100)
+    })
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+
+  it('moves keyboard focus through an interactive tooltip', () => {
+    render(
+      <>
+        <DynTooltip
+          content={<><a href="#docs">Read the docs</a><button type="button">Dismiss</button></>}
+          delay={0}
+          interactive
+        >
+          <button type="button">Info</button>
+        </DynTooltip>
+        <button type="button">Next</button>
+      </>
+    )
+
+    const info = screen.getByRole('button', { name: 'Info' })
+    act(() => info.focus())
+    fireEvent.keyDown(info, { key: 'Tab' })
+    const link = screen.getByRole('link', { name: 'Read the docs' })
+    expect(link).toHaveFocus()
+
+    fireEvent.keyDown(link, { key: 'Tab', shiftKey: true })
+    expect(info).toHaveFocus()
+    expect(screen.getByRole('tooltip')).toBeInTheDocument()
+
+    fireEvent.keyDown(info, { key: 'Tab' })
+    const dismiss = screen.getByRole('button', { name: 'Dismiss' })
+    act(() => dismiss.focus())
+    expect(screen.getByRole('tooltip')).toBeInTheDocument()
+
+    fireEvent.keyDown(dismiss, { key: 'Tab' })
+    expect(screen.getByRole('button', { name: 'Next' })).toHaveFocus()
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+
+  it('shows the next tooltip of a group instantly', () => {
+    vi.useFakeTimers()
+    render(
+      <DynTooltipGroup delay={500}>
+        <DynTooltip content="Bold"><button type="button">B</button></DynTooltip>
+        <DynTooltip content="Italic"><button type="button">I</button></DynTooltip>
+      </DynTooltipGroup>
+    )
+
+    const [bold, italic] = screen.getAllByRole('button').map(button => button.parentElement as HTMLElement)
+    fireEvent.mouseEnter(bold as HTMLElement)
+    act(() => {
+      vi.advanceTimersByTime(500)
+    })
+    expect(screen.getByRole('tooltip')).toHaveTextContent('Bold')
+
+    fireEvent.mouseLeave(bold as HTMLElement)
+    fireEvent.mouseEnter(italic as HTMLElement)
+    expect(screen.getByRole('tooltip')).toHaveTextContent('Italic')
+
+    // Once the group cools down the delay applies again
+    fireEvent.mouseLeave(italic as HTMLElement)
+    act(() => {
+      vi.advanceTimersByTime(300)
+    })
+    fireEvent.mouseEnter(bold as HTMLElement)
+    expect(screen.queryByRole('tooltip')).not.toBeInTheDocument()
+  })
+})